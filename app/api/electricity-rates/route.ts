@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/lib/logger';
+import {
+  US_ZIP_CODE_REGEX,
+  getProvinceFromPostalCode,
+  isCanadianPostalCode,
+} from '@/lib/postal-codes';
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
@@ -12,9 +17,27 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  if (isCanadianPostalCode(zipCode)) {
+    // EIA only covers the U.S., so Canadian codes use the bundled provincial rates
+    const province = getProvinceFromPostalCode(zipCode);
+    logger.verbose('Electricity Rates API', `Postal code ${zipCode} maps to province ${province}`);
+    const rate = province ? provincialRates[province] : undefined;
+    if (rate) {
+      return NextResponse.json({
+        residential: rate,
+        source: `Provincial average for ${province}`,
+        state: province,
+        currency: 'CAD',
+      });
+    }
+    return NextResponse.json(
+      { error: 'No electricity rate for this postal code' },
+      { status: 404 }
+    );
+  }
+
   // Validate ZIP code format
-  const zipRegex = /^\d{5}(-\d{4})?$/;
-  if (!zipRegex.test(zipCode)) {
+  if (!US_ZIP_CODE_REGEX.test(zipCode)) {
     return NextResponse.json(
       { error: 'Invalid ZIP code format' },
       { status: 400 }
@@ -38,6 +61,7 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({
           residential: roundedRate,
           source: `Average for ${stateCode}`,
+          state: stateCode,
         });
       } else {
         logger.verbose('Electricity Rates API', `No rate found for state ${stateCode}, using fallback`);
@@ -51,6 +75,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       residential: 0.12, // Already rounded to nearest cent
       source: 'National average (fallback)',
+      ...(stateCode ? { state: stateCode } : {}),
     });
     
   } catch (error) {
@@ -185,3 +210,12 @@ async function getStateElectricityRate(stateCode: string): Promise<number | null
   }
 }
 
+
+// Average residential electricity rates by province or territory (CAD/kWh),
+// including delivery charges
+const provincialRates: Record<string, number> = {
+  'AB': 0.24, 'BC': 0.13, 'MB': 0.11, 'NB': 0.15,
+  'NL': 0.15, 'NS': 0.19, 'NT': 0.38, 'NU': 0.42,
+  'ON': 0.14, 'PE': 0.18, 'QC': 0.08, 'SK': 0.2,
+  'YT': 0.2,
+};
@@ -1,13 +1,24 @@
 import { load } from 'cheerio';
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/lib/logger';
+import {
+  US_ZIP_CODE_REGEX,
+  getProvinceFromPostalCode,
+  isCanadianPostalCode,
+} from '@/lib/postal-codes';
+import { LITRES_PER_GALLON } from '@/lib/units';
 
 type PriceResult = {
   regular: number;
+  midgrade: number;
   premium: number;
+  diesel: number;
+  e85: number;
   source: string;
 };
 
+type FuelGrade = Exclude<keyof PriceResult, 'source'>;
+
 type CacheEntry = {
   data: PriceResult;
   timestamp: number;
@@ -17,9 +28,16 @@ const AAA_BASE_URL = 'https://gasprices.aaa.com/';
 const AAA_STATE_URL = (stateCode: string) =>
   `https://gasprices.aaa.com/?state=${encodeURIComponent(stateCode)}`;
 const CACHE_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+// Typical spreads against regular, used when a grade is missing from the data
+const FALLBACK_DIESEL_SPREAD = 0.4; // $/gal above regular
+const FALLBACK_E85_DISCOUNT = 0.55; // $/gal below regular
+
 const DEFAULT_FALLBACK: PriceResult = {
   regular: 3.5,
+  midgrade: 3.8,
   premium: 4.0,
+  diesel: 3.9,
+  e85: 2.95,
   source: 'National average (fallback)',
 };
 
@@ -45,8 +63,21 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const zipRegex = /^\d{5}(-\d{4})?$/;
-    if (!zipRegex.test(zipCode)) {
+    if (isCanadianPostalCode(zipCode)) {
+      // AAA only covers the U.S., so Canadian codes use the bundled provincial table
+      const province = getProvinceFromPostalCode(zipCode);
+      logger.verbose('Gas Prices API', `Postal code ${zipCode} maps to province ${province}`);
+      const provincialPrices = province ? getStaticProvincialGasPrices(province) : null;
+      if (provincialPrices) {
+        return NextResponse.json({ ...provincialPrices, state: province, currency: 'CAD' });
+      }
+      return NextResponse.json(
+        { error: 'No gas prices for this postal code' },
+        { status: 404 }
+      );
+    }
+
+    if (!US_ZIP_CODE_REGEX.test(zipCode)) {
       return NextResponse.json(
         { error: 'Invalid ZIP code format' },
         { status: 400 }
@@ -65,7 +96,7 @@ export async function GET(request: NextRequest) {
       const statePrices = await getStateGasPrices(stateCode);
       if (statePrices) {
         logger.verbose('Gas Prices API', `Returning AAA prices for ${stateCode}`);
-        return NextResponse.json(statePrices);
+        return NextResponse.json({ ...statePrices, state: stateCode });
       }
     }
 
@@ -75,7 +106,9 @@ export async function GET(request: NextRequest) {
     );
     const national = await getNationalGasPrices();
     if (national) {
-      return NextResponse.json(national);
+      return NextResponse.json(
+        stateCode ? { ...national, state: stateCode } : national
+      );
     }
 
     logger.verbose(
@@ -193,32 +226,57 @@ function parseAAATable(html: string, regionLabel: string): PriceResult | null {
     return null;
   }
 
-  let regularText: string | null = null;
-  let premiumText: string | null = null;
+  const prices: Partial<Record<FuelGrade, number>> = {};
 
   currentRow.find('td').each((index, cell) => {
-    const headerLabel = headers[index]?.toLowerCase() ?? '';
-    const value = $(cell).text().trim();
-
-    if (headerLabel === 'regular' || headerLabel === 'regular unleaded') {
-      regularText = value;
-    } else if (headerLabel === 'premium') {
-      premiumText = value;
+    const grade = getFuelGrade(headers[index] ?? '');
+    const price = parsePrice($(cell).text().trim());
+    if (grade && price != null) {
+      prices[grade] = price;
     }
   });
 
-  const regular = parsePrice(regularText);
-  const premium = parsePrice(premiumText);
+  const { regular, premium } = prices;
 
   if (regular == null || premium == null) {
     logger.warn(`[AAA] Unable to parse regular/premium prices for ${regionLabel}`);
     return null;
   }
 
+  return completeFuelPrices(
+    { ...prices, regular, premium },
+    `AAA ${regionName} average`
+  );
+}
+
+/**
+ * Map an AAA column header such as "Mid-Grade" or "Regular Unleaded" to a fuel grade
+ */
+function getFuelGrade(header: string): FuelGrade | null {
+  const normalized = header.toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (normalized === 'regular' || normalized === 'regularunleaded') return 'regular';
+  if (normalized === 'midgrade') return 'midgrade';
+  if (normalized === 'premium') return 'premium';
+  if (normalized === 'diesel') return 'diesel';
+  if (normalized === 'e85') return 'e85';
+  return null;
+}
+
+/**
+ * Fill in grades missing from a price table with typical spreads from regular and premium
+ */
+function completeFuelPrices(
+  prices: Partial<Record<FuelGrade, number>> & { regular: number; premium: number },
+  source: string
+): PriceResult {
+  const { regular, premium } = prices;
   return {
     regular,
+    midgrade: prices.midgrade ?? (regular + premium) / 2,
     premium,
-    source: `AAA ${regionName} average`,
+    diesel: prices.diesel ?? regular + FALLBACK_DIESEL_SPREAD,
+    e85: prices.e85 ?? Math.max(0, regular - FALLBACK_E85_DISCOUNT),
+    source,
   };
 }
 
@@ -383,10 +441,38 @@ function getStaticStateGasPrices(stateCode: string): PriceResult | null {
     return null;
   }
 
-  return {
-    regular: prices.regular,
-    premium: prices.premium,
-    source: `State fallback average for ${stateCode}`,
-  };
+  return completeFuelPrices(prices, `State fallback average for ${stateCode}`);
 }
 
+
+// Provincial average pump prices in CAD per litre; routes return canonical per-gallon prices
+const staticProvincialGasPrices: Record<string, { regular: number; premium: number }> = {
+  AB: { regular: 1.38, premium: 1.62 },
+  BC: { regular: 1.72, premium: 1.98 },
+  MB: { regular: 1.42, premium: 1.66 },
+  NB: { regular: 1.56, premium: 1.8 },
+  NL: { regular: 1.66, premium: 1.9 },
+  NS: { regular: 1.55, premium: 1.79 },
+  NT: { regular: 1.78, premium: 2.02 },
+  NU: { regular: 1.62, premium: 1.86 },
+  ON: { regular: 1.5, premium: 1.76 },
+  PE: { regular: 1.6, premium: 1.84 },
+  QC: { regular: 1.62, premium: 1.88 },
+  SK: { regular: 1.46, premium: 1.7 },
+  YT: { regular: 1.8, premium: 2.04 },
+};
+
+function getStaticProvincialGasPrices(provinceCode: string): PriceResult | null {
+  const prices = staticProvincialGasPrices[provinceCode];
+  if (!prices) {
+    return null;
+  }
+
+  return completeFuelPrices(
+    {
+      regular: prices.regular * LITRES_PER_GALLON,
+      premium: prices.premium * LITRES_PER_GALLON,
+    },
+    `Provincial fallback average for ${provinceCode}`
+  );
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/lib/logger';
+import { isCanadianPostalCode, normalizeCanadianPostalCode } from '@/lib/postal-codes';
 
 export async function GET(request: NextRequest) {
   logger.verbose('ReverseGeocode API', 'Request received');
@@ -75,6 +76,15 @@ export async function GET(request: NextRequest) {
     logger.verbose('ReverseGeocode API', `Raw ZIP code from address: ${zipCode}`);
     logger.verbose('ReverseGeocode API', 'Full address object:', data.address);
     
+    if (zipCode && isCanadianPostalCode(zipCode)) {
+      const postalCode = normalizeCanadianPostalCode(zipCode);
+      logger.verbose('ReverseGeocode API', `Valid Canadian postal code found: ${postalCode}`);
+      return NextResponse.json({
+        zipCode: postalCode,
+        address: data.display_name,
+      });
+    }
+
     if (zipCode) {
       // Clean up ZIP code (remove any spaces, ensure it's 5 digits)
       const cleanZip = zipCode.replace(/\s+/g, '').substring(0, 5);
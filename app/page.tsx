@@ -5,23 +5,166 @@ import {
   CalculatorInputs,
   CalculationResults,
   CostOptionKey,
+  EnergySource,
   UsageScale,
 } from '@/types';
 import { calculateAllScenarios, formatCurrency } from '@/lib/calculations';
 import { fetchNationalGasPrices } from '@/lib/api-services';
+import { DEFAULT_TIERED_TARIFF, DEFAULT_TOU_TARIFF } from '@/lib/tariffs';
+import { DEFAULT_SOLAR_SETTINGS } from '@/lib/solar';
+import { DEFAULT_CHARGING_LOSSES } from '@/lib/charging';
+import { DEFAULT_CLIMATE_REGION } from '@/lib/climate';
+import { DEFAULT_PROJECTION_SETTINGS } from '@/lib/projection';
+import { DEFAULT_UNCERTAINTY_SETTINGS } from '@/lib/uncertainty';
+import { DEFAULT_INCENTIVE_SETTINGS } from '@/lib/incentives';
+import { DEFAULT_HOME_CHARGER_SETTINGS } from '@/lib/home-charger';
+import { DEFAULT_CHARGING_MEMBERSHIP, DEFAULT_FAST_CHARGING_TARIFF } from '@/lib/fast-charging';
+import { DEFAULT_ROAD_TRIP_SETTINGS } from '@/lib/road-trip';
+import { DEFAULT_HOUSEHOLD } from '@/lib/household';
+import { DEFAULT_PHEV_SETTINGS } from '@/lib/phev';
+import { DEFAULT_EV_AGING, DEFAULT_GAS_AGING, DEFAULT_PHEV_AGING } from '@/lib/aging';
+import {
+  DEFAULT_CURRENCY,
+  DEFAULT_UNIT_SYSTEM,
+  formatDistance,
+  fromDisplayDistance,
+  roundForInput,
+  toDisplayDistance,
+} from '@/lib/units';
 import InputSection from '@/components/InputSection';
+import OwnershipCostsSection from '@/components/OwnershipCostsSection';
+import HomeRatePlanSection from '@/components/HomeRatePlanSection';
+import SolarSection from '@/components/SolarSection';
+import HomeChargerSection from '@/components/HomeChargerSection';
+import FastChargingSection from '@/components/FastChargingSection';
+import RoadTripSection from '@/components/RoadTripSection';
+import HouseholdSection from '@/components/HouseholdSection';
+import ClimateSection from '@/components/ClimateSection';
+import PhevSection from '@/components/PhevSection';
+import ComparisonVehiclesSection from '@/components/ComparisonVehiclesSection';
 import SummaryDashboard from '@/components/SummaryDashboard';
 import BreakEvenExplorer from '@/components/BreakEvenExplorer';
+import PaybackExplorer from '@/components/PaybackExplorer';
+import IncentivesSection from '@/components/IncentivesSection';
+import AgingSection from '@/components/AgingSection';
+import SensitivityTornado from '@/components/SensitivityTornado';
 import HowItWorks from '@/components/HowItWorks';
 
 const defaultInputs: CalculatorInputs = {
   evEfficiency: 3.5,
   gasEfficiency: 25,
+  gasVehicleFuel: 'gasoline',
+  e85Efficiency: 18,
   regularGasPrice: 3.5,
+  midgradeGasPrice: 3.8,
   premiumGasPrice: 4.0,
+  dieselPrice: 3.8,
+  e85Price: 2.9,
   homeElectricityPrice: 0.15,
+  homeRatePlan: 'flat',
+  touTariff: DEFAULT_TOU_TARIFF,
+  tieredTariff: DEFAULT_TIERED_TARIFF,
+  solar: DEFAULT_SOLAR_SETTINGS,
   fastChargingPrice: 0.5,
+  fastChargingTariff: DEFAULT_FAST_CHARGING_TARIFF,
+  chargingMembership: DEFAULT_CHARGING_MEMBERSHIP,
+  roadTrip: DEFAULT_ROAD_TRIP_SETTINGS,
+  household: DEFAULT_HOUSEHOLD,
+  publicChargingPrice: 0.3,
+  workplaceChargingPrice: 0,
+  chargingMix: {
+    home: 80,
+    workplace: 5,
+    publicLevel2: 5,
+    dcFast: 10,
+  },
+  homeChargerLevel: 'level2',
+  chargingLosses: DEFAULT_CHARGING_LOSSES,
   baseDistance: 30,
+  climateAdjustment: false,
+  climateRegion: DEFAULT_CLIMATE_REGION,
+  phev: DEFAULT_PHEV_SETTINGS,
+  includeOwnershipCosts: false,
+  evOwnership: {
+    purchasePrice: 45000,
+    incentives: 0,
+    resaleValue: 24000,
+    ownershipYears: 5,
+    insurance: 1800,
+    maintenance: 0.06,
+    registration: 250,
+    financing: 'loan',
+    downPayment: 5000,
+    loanApr: 6.5,
+    loanTermMonths: 60,
+    leaseTermMonths: 36,
+    leaseMoneyFactor: 0.0025,
+    leaseResidual: 22000,
+    leaseDueAtSigning: 3000,
+    leaseMileageAllowance: 12000,
+    leaseOverageFee: 0.25,
+  },
+  gasOwnership: {
+    purchasePrice: 36000,
+    incentives: 0,
+    resaleValue: 21000,
+    ownershipYears: 5,
+    insurance: 1500,
+    maintenance: 0.09,
+    registration: 150,
+    financing: 'loan',
+    downPayment: 5000,
+    loanApr: 6.5,
+    loanTermMonths: 60,
+    leaseTermMonths: 36,
+    leaseMoneyFactor: 0.0025,
+    leaseResidual: 20500,
+    leaseDueAtSigning: 3000,
+    leaseMileageAllowance: 12000,
+    leaseOverageFee: 0.25,
+  },
+  phevOwnership: {
+    purchasePrice: 43000,
+    incentives: 0,
+    resaleValue: 23000,
+    ownershipYears: 5,
+    insurance: 1700,
+    maintenance: 0.07,
+    registration: 200,
+    financing: 'loan',
+    downPayment: 5000,
+    loanApr: 6.5,
+    loanTermMonths: 60,
+    leaseTermMonths: 36,
+    leaseMoneyFactor: 0.0025,
+    leaseResidual: 22500,
+    leaseDueAtSigning: 3000,
+    leaseMileageAllowance: 12000,
+    leaseOverageFee: 0.25,
+  },
+  includeAging: false,
+  evAging: DEFAULT_EV_AGING,
+  gasAging: DEFAULT_GAS_AGING,
+  phevAging: DEFAULT_PHEV_AGING,
+  extraVehicles: [],
+  projection: DEFAULT_PROJECTION_SETTINGS,
+  uncertainty: DEFAULT_UNCERTAINTY_SETTINGS,
+  incentives: DEFAULT_INCENTIVE_SETTINGS,
+  homeCharger: DEFAULT_HOME_CHARGER_SETTINGS,
+  unitSystem: DEFAULT_UNIT_SYSTEM,
+  currency: DEFAULT_CURRENCY,
+};
+
+const COMPARISON_TONES: Record<EnergySource, string> = {
+  evHome: 'from-emerald-400 to-emerald-500',
+  evFast: 'from-indigo-400 to-indigo-500',
+  evMix: 'from-teal-400 to-teal-500',
+  phev: 'from-sky-400 to-sky-500',
+  gasRegular: 'from-amber-400 to-amber-500',
+  gasMidgrade: 'from-orange-400 to-orange-500',
+  gasPremium: 'from-rose-400 to-rose-500',
+  diesel: 'from-stone-400 to-stone-500',
+  e85: 'from-lime-400 to-lime-500',
 };
 
 const SCALE_FACTORS: Record<UsageScale, number> = {
@@ -47,7 +190,10 @@ export default function Home() {
           setInputs((prev) => ({
             ...prev,
             regularGasPrice: data.regular ?? prev.regularGasPrice,
+            midgradeGasPrice: data.midgrade ?? prev.midgradeGasPrice,
             premiumGasPrice: data.premium ?? prev.premiumGasPrice,
+            dieselPrice: data.diesel ?? prev.dieselPrice,
+            e85Price: data.e85 ?? prev.e85Price,
           }));
         }
       } catch (error) {
@@ -63,33 +209,14 @@ export default function Home() {
   }, []);
 
   const yearlyComparisons = useMemo(
-    () => [
-      {
-        key: 'evHome' as CostOptionKey,
-        label: 'EV (Home)',
-        value: results.yearly.evHomeCharging.totalCost,
-        tone: 'from-emerald-400 to-emerald-500',
-      },
-      {
-        key: 'evFast' as CostOptionKey,
-        label: 'EV (Fast)',
-        value: results.yearly.evFastCharging.totalCost,
-        tone: 'from-indigo-400 to-indigo-500',
-      },
-      {
-        key: 'gasRegular' as CostOptionKey,
-        label: 'Gas (Regular)',
-        value: results.yearly.gasRegular.totalCost,
-        tone: 'from-amber-400 to-amber-500',
-      },
-      {
-        key: 'gasPremium' as CostOptionKey,
-        label: 'Gas (Premium)',
-        value: results.yearly.gasPremium.totalCost,
-        tone: 'from-rose-400 to-rose-500',
-      },
-    ],
-    [results.yearly]
+    () =>
+      results.options.map((option) => ({
+        key: option.key,
+        label: option.label,
+        value: results.yearly.options[option.key].totalCost,
+        tone: COMPARISON_TONES[option.energy],
+      })),
+    [results.options, results.yearly]
   );
 
   const bestOption = yearlyComparisons.reduce((acc, item) =>
@@ -104,20 +231,29 @@ export default function Home() {
   
   // Compare EV Home vs selected baseline: negative means EV is more expensive (red), positive means EV is cheaper (green)
   const annualGap = selectedGapBaseline.value - evHomeOption.value;
+  const yearlyDistanceLabel = formatDistance(results.yearly.distance, inputs.unitSystem);
 
-  const displayDistance = inputs.baseDistance * SCALE_FACTORS[usageScale];
+  const displayDistance = roundForInput(
+    toDisplayDistance(inputs.baseDistance * SCALE_FACTORS[usageScale], inputs.unitSystem)
+  );
 
   const handleDistanceChange = (value: number) => {
     const multiplier = SCALE_FACTORS[usageScale];
-    const normalized = multiplier === 0 ? value : value / multiplier;
+    const miles = fromDisplayDistance(value, inputs.unitSystem);
+    const normalized = multiplier === 0 ? miles : miles / multiplier;
     setInputs((prev) => ({
       ...prev,
       baseDistance: Math.max(0, Math.min(1000, normalized)),
     }));
   };
 
+  // Display settings are a preference, not an input, so they survive a reset
   const handleResetInputs = () => {
-    setInputs({ ...defaultInputs });
+    setInputs((prev) => ({
+      ...defaultInputs,
+      unitSystem: prev.unitSystem,
+      currency: prev.currency,
+    }));
     setUsageScale('daily');
     setGapBaseline('gasRegular');
   };
@@ -136,8 +272,8 @@ export default function Home() {
               </h1>
               <p className="mt-4 text-base text-white/70 sm:text-lg">
                 Adjust driving distance, energy prices, and vehicle efficiency to
-                compare EV home charging, fast charging, and gas fill-ups side by
-                side.
+                compare EV home charging, fast charging, your own charging mix, and
+                gas fill-ups side by side.
               </p>
               <div className="mt-6 flex flex-wrap gap-3 text-sm text-white/80">
                 <a
@@ -195,13 +331,13 @@ export default function Home() {
               {yearlyComparisons.map((option) => {
                 const width = (option.value / worstOption.value) * 100;
                 return (
-                  <div key={option.label} className="space-y-1">
+                  <div key={option.key} className="space-y-1">
                     <div className="flex items-center justify-between text-sm">
                       <span className="font-medium text-white/80">
                         {option.label}
                       </span>
                       <span className="font-semibold">
-                        {formatCurrency(option.value)}
+                        {formatCurrency(option.value, inputs.currency)}
                       </span>
                     </div>
                     <div className="h-2 rounded-full bg-white/15">
@@ -236,14 +372,14 @@ export default function Home() {
               <p className={`text-3xl font-semibold ${
                 annualGap < 0 ? 'text-rose-400' : annualGap > 0 ? 'text-emerald-400' : 'text-white'
               }`}>
-                {annualGap < 0 ? '-' : ''}{formatCurrency(Math.abs(annualGap))}
+                {annualGap < 0 ? '-' : ''}{formatCurrency(Math.abs(annualGap), inputs.currency)}
               </p>
               <p className="text-sm text-white/70">
                 {annualGap === 0 
-                  ? `${evHomeOption.label} and ${selectedGapBaseline.label} are equal at ${results.yearly.distance.toLocaleString()} mi/yr`
+                  ? `${evHomeOption.label} and ${selectedGapBaseline.label} are equal at ${yearlyDistanceLabel}/yr`
                   : annualGap < 0
-                    ? `${selectedGapBaseline.label} is ${formatCurrency(Math.abs(annualGap))} cheaper than ${evHomeOption.label} at ${results.yearly.distance.toLocaleString()} mi/yr`
-                    : `${evHomeOption.label} is ${formatCurrency(annualGap)} cheaper than ${selectedGapBaseline.label} at ${results.yearly.distance.toLocaleString()} mi/yr`
+                    ? `${selectedGapBaseline.label} is ${formatCurrency(Math.abs(annualGap), inputs.currency)} cheaper than ${evHomeOption.label} at ${yearlyDistanceLabel}/yr`
+                    : `${evHomeOption.label} is ${formatCurrency(annualGap, inputs.currency)} cheaper than ${selectedGapBaseline.label} at ${yearlyDistanceLabel}/yr`
                 }
               </p>
             </div>
@@ -263,9 +399,58 @@ export default function Home() {
           />
         </div>
 
+        <div id="phev">
+          <PhevSection inputs={inputs} onChange={setInputs} />
+        </div>
+
+        <div id="comparison-vehicles">
+          <ComparisonVehiclesSection inputs={inputs} onChange={setInputs} />
+        </div>
+
+        <div id="home-rate-plan">
+          <HomeRatePlanSection inputs={inputs} onChange={setInputs} />
+        </div>
+
+        <div id="solar">
+          <SolarSection inputs={inputs} onChange={setInputs} />
+        </div>
+
+        <div id="home-charger">
+          <HomeChargerSection inputs={inputs} onChange={setInputs} />
+        </div>
+
+        <div id="fast-charging">
+          <FastChargingSection inputs={inputs} onChange={setInputs} />
+        </div>
+
+        <div id="road-trip">
+          <RoadTripSection inputs={inputs} onChange={setInputs} />
+        </div>
+
+        <div id="household">
+          <HouseholdSection inputs={inputs} onChange={setInputs} />
+        </div>
+
+        <div id="climate">
+          <ClimateSection inputs={inputs} onChange={setInputs} />
+        </div>
+
+        <div id="ownership">
+          <OwnershipCostsSection inputs={inputs} onChange={setInputs} />
+        </div>
+
+        <div id="incentives">
+          <IncentivesSection inputs={inputs} onChange={setInputs} />
+        </div>
+
+        <div id="aging">
+          <AgingSection inputs={inputs} onChange={setInputs} />
+        </div>
+
         <div id="scenarios">
           <SummaryDashboard
             inputs={inputs}
+            onInputsChange={setInputs}
             results={results}
             usageScale={usageScale}
             onUsageScaleChange={setUsageScale}
@@ -274,14 +459,22 @@ export default function Home() {
           />
         </div>
 
+        <div id="sensitivity">
+          <SensitivityTornado inputs={inputs} ev={evHomeOption} baseline={selectedGapBaseline} />
+        </div>
+
         <div id="break-even">
           <BreakEvenExplorer inputs={inputs} />
         </div>
+
+        <div id="payback">
+          <PaybackExplorer inputs={inputs} results={results} onChange={setInputs} />
+        </div>
         <HowItWorks />
 
         <footer className="rounded-[26px] border border-slate-200/70 bg-white/60 px-6 py-6 text-center text-sm text-slate-500 shadow-lg shadow-slate-900/5">
           <p>
-            Analysis factors in mi/kWh vs mpg efficiency, regional fuel inputs,
+            Analysis factors in EV vs gas efficiency, regional fuel inputs,
             and both home and fast-charging strategies.
           </p>
         </footer>
@@ -0,0 +1,280 @@
+'use client';
+
+import {
+  BatteryReplacementTrigger,
+  CalculatorInputs,
+  VehicleAging,
+  VehicleAgingField,
+  VehicleConfig,
+  VehicleKind,
+} from '@/types';
+import {
+  BATTERY_REPLACEMENT_TRIGGER_LABELS,
+  MAX_AGING_RATE,
+  calculateAgingSchedule,
+  hasTractionBattery,
+} from '@/lib/aging';
+import { formatCurrency } from '@/lib/calculations';
+import { normalizeProjectionSettings } from '@/lib/projection';
+import { getVehicleConfigs, updateVehicleAging } from '@/lib/vehicles';
+import {
+  UNIT_LABELS,
+  fromDisplayDistance,
+  getCurrencySymbol,
+  roundForInput,
+  toDisplayDistance,
+} from '@/lib/units';
+import Tooltip from './Tooltip';
+
+interface AgingSectionProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+const KIND_ACCENTS: Record<VehicleKind, string> = {
+  ev: 'bg-emerald-500',
+  gas: 'bg-amber-500',
+  phev: 'bg-sky-500',
+};
+
+const TRIGGERS = Object.entries(BATTERY_REPLACEMENT_TRIGGER_LABELS) as [
+  BatteryReplacementTrigger,
+  string,
+][];
+
+const FIELD_CONFIG: {
+  field: VehicleAgingField;
+  label: string;
+  tooltip: (kind: VehicleKind) => string;
+  suffix: (units: { currency: string; distance: string }) => string;
+  step: string;
+  max: number;
+  distance?: boolean; // miles shown in display distance
+  battery?: boolean; // plug-ins only
+  replacement?: BatteryReplacementTrigger | 'any'; // only with a replacement planned
+}[] = [
+  {
+    field: 'efficiencyDrift',
+    label: 'Efficiency drift',
+    tooltip: (kind) =>
+      kind === 'gas'
+        ? 'Share of rated mpg lost each year as the engine wears.'
+        : 'Share of rated efficiency lost each year as the battery ages.',
+    suffix: () => '% / yr',
+    step: '0.1',
+    max: MAX_AGING_RATE,
+  },
+  {
+    field: 'capacityLoss',
+    label: 'Capacity loss',
+    tooltip: (kind) =>
+      kind === 'phev'
+        ? 'Share of battery capacity lost each year. A smaller battery shortens electric range, so more miles run on gas.'
+        : 'Share of battery capacity lost each year. It shortens range and helps you judge when to plan a replacement.',
+    suffix: () => '% / yr',
+    step: '0.5',
+    max: MAX_AGING_RATE,
+    battery: true,
+  },
+  {
+    field: 'batteryReplacementCost',
+    label: 'Replacement cost',
+    tooltip: () => 'Pack, labor and disposal, paid in the replacement year.',
+    suffix: (units) => units.currency,
+    step: '500',
+    max: 100000,
+    battery: true,
+    replacement: 'any',
+  },
+  {
+    field: 'replacementYear',
+    label: 'Replace in year',
+    tooltip: () => 'Year of ownership the new battery goes in, counting the first year as 1.',
+    suffix: () => 'yr',
+    step: '1',
+    max: 30,
+    battery: true,
+    replacement: 'year',
+  },
+  {
+    field: 'replacementMileage',
+    label: 'Replace at',
+    tooltip: () => 'Odometer reading that triggers the replacement, at your daily distance.',
+    suffix: (units) => units.distance,
+    step: '10000',
+    max: 1000000,
+    distance: true,
+    battery: true,
+    replacement: 'mileage',
+  },
+];
+
+export default function AgingSection({ inputs, onChange }: AgingSectionProps) {
+  const vehicles = getVehicleConfigs(inputs);
+  const { unitSystem, currency } = inputs;
+  const horizon = normalizeProjectionSettings(inputs.projection).years;
+  const annualMiles = inputs.baseDistance * 365;
+  const units = {
+    currency: getCurrencySymbol(currency),
+    distance: UNIT_LABELS[unitSystem].distance,
+  };
+
+  const handleAgingChange = (vehicle: VehicleConfig, updates: Partial<VehicleAging>) => {
+    onChange(updateVehicleAging(inputs, vehicle.id, { ...vehicle.aging, ...updates }));
+  };
+
+  const handleFieldChange = (vehicle: VehicleConfig, field: VehicleAgingField, value: number) => {
+    const config = FIELD_CONFIG.find((item) => item.field === field);
+    const canonical = config?.distance ? fromDisplayDistance(value, unitSystem) : value;
+    handleAgingChange(vehicle, {
+      [field]: Math.max(0, Math.min(config?.max ?? canonical, canonical)),
+    });
+  };
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">Vehicle aging</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">Late-life costs</h2>
+          <p className="text-sm text-slate-500">
+            Batteries fade and engines wear. Let each vehicle lose efficiency year by year and
+            plan a battery replacement, then see it in the multi-year projection and payback.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            checked={inputs.includeAging}
+            onChange={(event) => onChange({ ...inputs, includeAging: event.target.checked })}
+            className="accent-emerald-500"
+          />
+          Include in results
+        </label>
+      </div>
+
+      {inputs.includeAging && (
+        <div
+          className={`mt-6 grid gap-4 lg:grid-cols-2 ${
+            vehicles.length > 2 ? 'xl:grid-cols-3' : ''
+          }`}
+        >
+          {vehicles.map((vehicle) => {
+            const { aging, kind } = vehicle;
+            const battery = hasTractionBattery(kind);
+            const schedule = calculateAgingSchedule(aging, kind, annualMiles, horizon);
+            const last = schedule[schedule.length - 1];
+            const replaced = schedule.find((year) => year.batteryReplaced);
+            const fields = FIELD_CONFIG.filter(
+              (config) =>
+                (!config.battery || battery) &&
+                (!config.replacement ||
+                  (aging.batteryReplacement &&
+                    (config.replacement === 'any' ||
+                      config.replacement === aging.replacementTrigger)))
+            );
+
+            return (
+              <div
+                key={vehicle.id}
+                className="rounded-3xl border border-slate-100 bg-white/80 p-5 shadow-sm shadow-slate-900/5"
+              >
+                <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                    <span className={`h-2 w-2 rounded-full ${KIND_ACCENTS[kind]}`} />
+                    {vehicle.name}
+                  </div>
+                  <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-600">
+                    Year {horizon}: {Math.round(last.efficiency * 100)}% efficiency
+                    {battery && ` · ${Math.round(last.capacity * 100)}% capacity`}
+                  </span>
+                </div>
+
+                {battery && (
+                  <div className="mb-4 flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                      <input
+                        type="checkbox"
+                        checked={aging.batteryReplacement}
+                        onChange={(event) =>
+                          handleAgingChange(vehicle, { batteryReplacement: event.target.checked })
+                        }
+                        className="accent-emerald-500"
+                      />
+                      Replace the battery
+                    </label>
+                    {aging.batteryReplacement && (
+                      <div className="segmented-control">
+                        {TRIGGERS.map(([value, label]) => (
+                          <button
+                            key={value}
+                            type="button"
+                            className={`segmented-control__item ${
+                              aging.replacementTrigger === value ? 'is-active' : ''
+                            }`}
+                            onClick={() =>
+                              handleAgingChange(vehicle, { replacementTrigger: value })
+                            }
+                            aria-pressed={aging.replacementTrigger === value}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="grid gap-4 sm:grid-cols-3">
+                  {fields.map((config) => (
+                    <div key={config.field}>
+                      <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                        {config.label}
+                        <Tooltip content={config.tooltip(kind)} />
+                      </div>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          min={0}
+                          step={config.step}
+                          value={
+                            config.distance
+                              ? roundForInput(toDisplayDistance(aging[config.field], unitSystem), 0)
+                              : aging[config.field]
+                          }
+                          onChange={(event) =>
+                            handleFieldChange(
+                              vehicle,
+                              config.field,
+                              parseFloat(event.target.value) || 0
+                            )
+                          }
+                          className="form-input-shell pr-14"
+                        />
+                        <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                          {config.suffix(units)}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {aging.batteryReplacement && battery && (
+                  <p className="mt-3 text-xs text-slate-500">
+                    {replaced
+                      ? `New battery in year ${replaced.year} for ${formatCurrency(
+                          aging.batteryReplacementCost,
+                          currency,
+                          0
+                        )}.`
+                      : `No replacement within the ${horizon}-year projection.`}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -10,12 +10,36 @@ import {
   type ReactElement,
   type TouchEvent as ReactTouchEvent,
 } from 'react';
-import { CalculatorInputs } from '@/types';
+import { CalculatorInputs, GasFuelOptionKey, VehicleConfig } from '@/types';
 import {
   calculateElectricityParityRate,
+  calculateEVCostPerMileFast,
   calculateEVCostPerMileHome,
   calculateGasCostPerMile,
+  formatCurrency,
+  getOptionHomeChargingLoad,
 } from '@/lib/calculations';
+import { getChargingEfficiency, getChargingLocationLosses } from '@/lib/charging';
+import { applyClimateAdjustment } from '@/lib/climate';
+import { calculateChargerCostPerMile } from '@/lib/home-charger';
+import { resolveFastChargingPrice } from '@/lib/fast-charging';
+import { applyIncentives } from '@/lib/incentives';
+import {
+  GAS_FUEL_LABELS,
+  GAS_VEHICLE_FUEL_OPTIONS,
+  getGasFuelEfficiency,
+  getGasFuelPrice,
+} from '@/lib/fuels';
+import { resolveHomeChargingPrice } from '@/lib/solar';
+import { PRIMARY_VEHICLE_IDS, getCostOptions, getVehicleConfigs } from '@/lib/vehicles';
+import {
+  DisplaySettings,
+  UNIT_LABELS,
+  formatCompactCostPerDistance,
+  formatFuelPrice,
+  formatPriceUnit,
+  toDisplayFuelPrice,
+} from '@/lib/units';
 import {
   Area,
   CartesianGrid,
@@ -29,28 +53,27 @@ import {
   YAxis,
 } from 'recharts';
 
+const FUEL_MARKER_COLORS: Record<
+  GasFuelOptionKey,
+  { parity: string; home: string; fast: string; tone: string }
+> = {
+  gasRegular: { parity: '#f97316', home: '#34d399', fast: '#818cf8', tone: 'text-amber-600' },
+  gasMidgrade: { parity: '#fb923c', home: '#2dd4bf', fast: '#a5b4fc', tone: 'text-orange-600' },
+  gasPremium: { parity: '#ef4444', home: '#0ea5e9', fast: '#c084fc', tone: 'text-rose-600' },
+  diesel: { parity: '#78716c', home: '#34d399', fast: '#818cf8', tone: 'text-stone-600' },
+  e85: { parity: '#84cc16', home: '#34d399', fast: '#818cf8', tone: 'text-lime-600' },
+};
+
 interface BreakEvenExplorerProps {
   inputs: CalculatorInputs;
 }
 
-const formatRate = (value: number) =>
-  Number.isFinite(value) ? `$${value.toFixed(2)}/kWh` : '—';
-
-const formatGasPrice = (value: number) =>
-  Number.isFinite(value) ? `$${value.toFixed(2)}/gal` : '—';
-
-const formatPerMile = (value: number) => {
-  if (!Number.isFinite(value)) return '—';
-  if (value >= 1) {
-    return `$${value.toFixed(2)}/mi`;
-  }
-  return `${(value * 100).toFixed(1)}¢/mi`;
-};
+const formatRate = (value: number, settings: DisplaySettings) =>
+  Number.isFinite(value) ? `${formatCurrency(value, settings.currency)}/kWh` : '—';
 
-const describeMargin = (margin: number) => {
+const describeMargin = (margin: number, settings: DisplaySettings) => {
   if (!Number.isFinite(margin) || margin === 0) return 'at parity';
-  const abs = Math.abs(margin);
-  const formatted = abs >= 1 ? `$${abs.toFixed(2)}/mi` : `${(abs * 100).toFixed(1)}¢/mi`;
+  const formatted = formatCompactCostPerDistance(Math.abs(margin), settings);
   return margin > 0 ? `${formatted} cheaper` : `${formatted} more`;
 };
 
@@ -192,104 +215,166 @@ type PanState = {
   startElectricDomain: [number, number];
 };
 
-const ChartTooltip = ({ active, payload, label }: any) => {
+const ChartTooltip = ({ active, payload, label, settings }: any) => {
   if (!active || !payload || !payload.length) return null;
   const gasPrice = Number(label);
   const electric = payload[0]?.value as number;
   return (
     <div className="rounded-2xl border border-slate-200 bg-white/95 px-3 py-2 text-xs text-slate-600 shadow-lg shadow-slate-900/10">
       <p className="font-semibold text-slate-800 mb-1">Break-evens</p>
-      <p>Gas: ${gasPrice.toFixed(2)}/gal</p>
-      <p>Electricity: ${electric.toFixed(3)}/kWh</p>
+      <p>Gas: {formatFuelPrice(gasPrice, settings)}</p>
+      <p>Electricity: {formatCurrency(electric, settings.currency, 3)}/kWh</p>
     </div>
   );
 };
 
-export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
-  const [testHomeRate, setTestHomeRate] = useState(inputs.homeElectricityPrice);
-  const [testFastRate, setTestFastRate] = useState(inputs.fastChargingPrice);
+export default function BreakEvenExplorer({
+  inputs: calculatorInputs,
+}: BreakEvenExplorerProps) {
+  const inputs = applyClimateAdjustment(calculatorInputs);
+  const [selectedEvId, setSelectedEvId] = useState<string>(PRIMARY_VEHICLE_IDS.ev);
+  const [selectedGasId, setSelectedGasId] = useState<string>(PRIMARY_VEHICLE_IDS.gas);
+  const vehicles = getVehicleConfigs(inputs);
+  const evVehicles = vehicles.filter((vehicle) => vehicle.kind === 'ev');
+  const gasVehicles = vehicles.filter((vehicle) => vehicle.kind === 'gas');
+  // The primary vehicles always exist, so removed extras fall back to them
+  const evVehicle = evVehicles.find((vehicle) => vehicle.id === selectedEvId) ?? evVehicles[0];
+  const gasVehicle =
+    gasVehicles.find((vehicle) => vehicle.id === selectedGasId) ?? gasVehicles[0];
+  // Same home rate as the selected EV's home charging option in the results
+  const evHomeOption = getCostOptions(inputs).find(
+    (option) => option.vehicle.id === evVehicle.id && option.energy === 'evHome'
+  );
+  const homeElectricityPrice = resolveHomeChargingPrice(
+    inputs,
+    evHomeOption
+      ? getOptionHomeChargingLoad(inputs, evHomeOption)
+      : { efficiency: evVehicle.efficiency, homeShare: 1 }
+  );
+  // Per-minute tariffs and session fees folded into an effective $/kWh
+  const fastChargingPrice = resolveFastChargingPrice(inputs);
+  const chargingLosses = getChargingLocationLosses(inputs);
+  const homeLoss = chargingLosses.home;
+  const fastLoss = chargingLosses.dcFast;
+  // Home charging carries the amortized charger install, net of matched rebates
+  const chargerCostPerMile = calculateChargerCostPerMile(applyIncentives(inputs));
+  const [testHomeRate, setTestHomeRate] = useState(homeElectricityPrice);
+  const [testFastRate, setTestFastRate] = useState(fastChargingPrice);
 
   useEffect(() => {
-    setTestHomeRate(inputs.homeElectricityPrice);
-  }, [inputs.homeElectricityPrice]);
+    setTestHomeRate(homeElectricityPrice);
+  }, [homeElectricityPrice]);
 
   useEffect(() => {
-    setTestFastRate(inputs.fastChargingPrice);
-  }, [inputs.fastChargingPrice]);
+    setTestFastRate(fastChargingPrice);
+  }, [fastChargingPrice]);
+
+  const evEfficiency = evVehicle.efficiency;
+  const gasEfficiency = gasVehicle.efficiency;
+  const e85Efficiency = gasVehicle.e85Efficiency;
+  const gasVehicleFuel = gasVehicle.gasVehicleFuel;
+
+  const {
+    regularGasPrice,
+    midgradeGasPrice,
+    premiumGasPrice,
+    dieselPrice,
+    e85Price,
+  } = inputs;
+
+  const gasFuels = useMemo(() => {
+    const fuelInputs = {
+      gasEfficiency,
+      e85Efficiency,
+      regularGasPrice,
+      midgradeGasPrice,
+      premiumGasPrice,
+      dieselPrice,
+      e85Price,
+    };
+    return GAS_VEHICLE_FUEL_OPTIONS[gasVehicleFuel].map((key) => {
+      const price = getGasFuelPrice(fuelInputs, key);
+      const efficiency = getGasFuelEfficiency(fuelInputs, key);
+      return {
+        key,
+        label: GAS_FUEL_LABELS[key],
+        price,
+        costPerMile: calculateGasCostPerMile(efficiency, price),
+        homeParity: calculateElectricityParityRate(
+          price,
+          efficiency,
+          evEfficiency,
+          homeLoss,
+          chargerCostPerMile
+        ),
+        fastParity: calculateElectricityParityRate(price, efficiency, evEfficiency, fastLoss),
+      };
+    });
+  }, [
+    chargerCostPerMile,
+    dieselPrice,
+    e85Efficiency,
+    e85Price,
+    evEfficiency,
+    fastLoss,
+    gasEfficiency,
+    gasVehicleFuel,
+    homeLoss,
+    midgradeGasPrice,
+    premiumGasPrice,
+    regularGasPrice,
+  ]);
+  // The break-even line is drawn for the gasoline (or diesel) mpg, so E85 stays off the chart
+  const chartFuels = useMemo(
+    () => gasFuels.filter((fuel) => fuel.key !== 'e85'),
+    [gasFuels]
+  );
+  const fuelNoun = gasVehicleFuel === 'diesel' ? 'Diesel' : 'Gas';
 
   const sliderBounds = useMemo(() => {
-    const regularParity = calculateElectricityParityRate(
-      inputs.regularGasPrice,
-      inputs.gasEfficiency,
-      inputs.evEfficiency
-    );
-    const premiumParity = calculateElectricityParityRate(
-      inputs.premiumGasPrice,
-      inputs.gasEfficiency,
-      inputs.evEfficiency
-    );
     const candidates = [
       0.01,
-      regularParity * 1.3,
-      premiumParity * 1.3,
-      inputs.homeElectricityPrice * 2,
-      inputs.fastChargingPrice * 1.4,
+      ...gasFuels.map((fuel) => fuel.homeParity * 1.3),
+      homeElectricityPrice * 2,
+      fastChargingPrice * 1.4,
       0.6,
     ].filter((num) => Number.isFinite(num) && num > 0);
 
     const min = Math.min(...candidates, 0.01);
     const max = Math.max(...candidates, 0.6);
     return { min: Math.max(0.01, min), max: Math.min(2, Math.max(max, 0.2)) };
-  }, [
-    inputs.evEfficiency,
-    inputs.fastChargingPrice,
-    inputs.gasEfficiency,
-    inputs.homeElectricityPrice,
-    inputs.premiumGasPrice,
-    inputs.regularGasPrice,
-  ]);
+  }, [gasFuels, fastChargingPrice, homeElectricityPrice]);
 
-  const parityRegular = calculateElectricityParityRate(
-    inputs.regularGasPrice,
-    inputs.gasEfficiency,
-    inputs.evEfficiency
+  const sliderHomeCostPerMile =
+    calculateEVCostPerMileHome(evEfficiency, testHomeRate, homeLoss) + chargerCostPerMile;
+  const sliderFastCostPerMile = calculateEVCostPerMileFast(
+    evEfficiency,
+    testFastRate,
+    fastLoss
   );
-  const parityPremium = calculateElectricityParityRate(
-    inputs.premiumGasPrice,
-    inputs.gasEfficiency,
-    inputs.evEfficiency
-  );
-
-  const gasRegularCostPerMile = calculateGasCostPerMile(
-    inputs.gasEfficiency,
-    inputs.regularGasPrice
-  );
-  const gasPremiumCostPerMile = calculateGasCostPerMile(
-    inputs.gasEfficiency,
-    inputs.premiumGasPrice
-  );
-  const sliderHomeCostPerMile = calculateEVCostPerMileHome(inputs.evEfficiency, testHomeRate);
-  const sliderFastCostPerMile = calculateEVCostPerMileHome(inputs.evEfficiency, testFastRate);
-  const actualHomeCostPerMile = calculateEVCostPerMileHome(
-    inputs.evEfficiency,
-    inputs.homeElectricityPrice
-  );
-  const fastCostPerMile = calculateEVCostPerMileHome(
-    inputs.evEfficiency,
-    inputs.fastChargingPrice
+  const actualHomeCostPerMile =
+    calculateEVCostPerMileHome(evEfficiency, homeElectricityPrice, homeLoss) +
+    chargerCostPerMile;
+  const fastCostPerMile = calculateEVCostPerMileFast(
+    evEfficiency,
+    fastChargingPrice,
+    fastLoss
   );
 
+  // Metered $/kWh that matches gas per $/gal, after home charging losses
   const efficiencyRatio =
-    inputs.gasEfficiency > 0 ? inputs.evEfficiency / inputs.gasEfficiency : 0;
+    gasEfficiency > 0
+      ? (evEfficiency / gasEfficiency) * getChargingEfficiency(homeLoss)
+      : 0;
+  // $/kWh the charger install takes off every break-even rate
+  const chargerRateOffset = chargerCostPerMile * evEfficiency * getChargingEfficiency(homeLoss);
 
   const chartConfig = useMemo(() => {
-    const minGasCandidate =
-      Math.min(inputs.regularGasPrice, inputs.premiumGasPrice) || inputs.regularGasPrice;
+    const chartPrices = chartFuels.map((fuel) => fuel.price);
+    const minGasCandidate = Math.min(...chartPrices) || chartPrices[0];
     const maxGasCandidate = Math.max(
-      inputs.regularGasPrice,
-      inputs.premiumGasPrice,
-      inputs.regularGasPrice * 1.2,
-      inputs.premiumGasPrice * 1.2,
+      ...chartPrices,
+      ...chartPrices.map((price) => price * 1.2),
       5
     );
     const minGasPadding = Math.max(2, minGasCandidate * 0.4);
@@ -302,7 +387,7 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
       const gasPrice = minGas + ((maxGas - minGas) * i) / steps;
       points.push({
         gasPrice,
-        breakEven: gasPrice * efficiencyRatio,
+        breakEven: Math.max(0, gasPrice * efficiencyRatio - chargerRateOffset),
       });
     }
     const maxLine = points.reduce((max, point) => Math.max(max, point.breakEven), 0);
@@ -310,8 +395,8 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
       2,
       Math.max(
         maxLine * 1.2,
-        inputs.homeElectricityPrice * 1.4,
-        inputs.fastChargingPrice * 1.4,
+        homeElectricityPrice * 1.4,
+        fastChargingPrice * 1.4,
         sliderBounds.max * 1.2,
         0.6
       )
@@ -322,11 +407,11 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
       fallbackElectricDomain: [0, Math.max(baseElectricMax, sliderBounds.max)] as [number, number],
     };
   }, [
+    chargerRateOffset,
+    chartFuels,
     efficiencyRatio,
-    inputs.fastChargingPrice,
-    inputs.homeElectricityPrice,
-    inputs.premiumGasPrice,
-    inputs.regularGasPrice,
+    fastChargingPrice,
+    homeElectricityPrice,
     sliderBounds.max,
   ]);
 
@@ -335,8 +420,11 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
     { label: 'Fast (slider)', value: sliderFastCostPerMile, tone: 'text-purple-600' },
     { label: 'Home (your input)', value: actualHomeCostPerMile, tone: 'text-emerald-600' },
     { label: 'Fast charging', value: fastCostPerMile, tone: 'text-indigo-500' },
-    { label: 'Gas (Regular)', value: gasRegularCostPerMile, tone: 'text-amber-600' },
-    { label: 'Gas (Premium)', value: gasPremiumCostPerMile, tone: 'text-rose-600' },
+    ...gasFuels.map((fuel) => ({
+      label: fuel.label,
+      value: fuel.costPerMile,
+      tone: FUEL_MARKER_COLORS[fuel.key].tone,
+    })),
   ];
 
   const sliderCards = [
@@ -345,90 +433,54 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
       type: 'home',
       sliderCost: sliderHomeCostPerMile,
       testRate: testHomeRate,
-      comparisons: [
-        {
-          label: 'vs Regular gas',
-          parity: parityRegular,
-          gasCost: gasRegularCostPerMile,
-        },
-        {
-          label: 'vs Premium gas',
-          parity: parityPremium,
-          gasCost: gasPremiumCostPerMile,
-        },
-      ],
+      comparisons: gasFuels.map((fuel) => ({
+        label: `vs ${fuel.label}`,
+        parity: fuel.homeParity,
+        gasCost: fuel.costPerMile,
+      })),
     },
     {
       label: 'Fast charging',
       type: 'fast',
       sliderCost: sliderFastCostPerMile,
       testRate: testFastRate,
-      comparisons: [
-        {
-          label: 'vs Regular gas',
-          parity: parityRegular,
-          gasCost: gasRegularCostPerMile,
-        },
-        {
-          label: 'vs Premium gas',
-          parity: parityPremium,
-          gasCost: gasPremiumCostPerMile,
-        },
-      ],
+      comparisons: gasFuels.map((fuel) => ({
+        label: `vs ${fuel.label}`,
+        parity: fuel.fastParity,
+        gasCost: fuel.costPerMile,
+      })),
     },
   ];
 
-  const markerPoints = [
-    {
-      label: 'Regular parity',
-      gasPrice: inputs.regularGasPrice,
-      electricityPrice: parityRegular,
-      color: '#f97316',
-    },
-    {
-      label: 'Premium parity',
-      gasPrice: inputs.premiumGasPrice,
-      electricityPrice: parityPremium,
-      color: '#ef4444',
-    },
-    {
-      label: 'Home vs Regular',
-      gasPrice: inputs.regularGasPrice,
-      electricityPrice: inputs.homeElectricityPrice,
-      color: '#34d399',
-    },
+  const markerPoints = chartFuels.flatMap((fuel) => [
     {
-      label: 'Fast vs Regular',
-      gasPrice: inputs.regularGasPrice,
-      electricityPrice: inputs.fastChargingPrice,
-      color: '#818cf8',
+      label: `${fuel.label} parity`,
+      gasPrice: fuel.price,
+      electricityPrice: fuel.homeParity,
+      color: FUEL_MARKER_COLORS[fuel.key].parity,
     },
     {
-      label: 'Home vs Premium',
-      gasPrice: inputs.premiumGasPrice,
-      electricityPrice: inputs.homeElectricityPrice,
-      color: '#0ea5e9',
+      label: `Home vs ${fuel.label}`,
+      gasPrice: fuel.price,
+      electricityPrice: homeElectricityPrice,
+      color: FUEL_MARKER_COLORS[fuel.key].home,
     },
     {
-      label: 'Fast vs Premium',
-      gasPrice: inputs.premiumGasPrice,
-      electricityPrice: inputs.fastChargingPrice,
-      color: '#c084fc',
+      label: `Fast vs ${fuel.label}`,
+      gasPrice: fuel.price,
+      electricityPrice: fastChargingPrice,
+      color: FUEL_MARKER_COLORS[fuel.key].fast,
     },
-  ];
+  ]);
 
   const { points, fallbackGasDomain, fallbackElectricDomain } = chartConfig;
 
   const [baseGasDomain, baseElectricDomain] = useMemo(() => {
-    const gasCandidates = [
-      inputs.regularGasPrice,
-      inputs.premiumGasPrice,
-    ];
+    const gasCandidates = chartFuels.map((fuel) => fuel.price);
     const electricCandidates = [
-      inputs.homeElectricityPrice,
-      inputs.fastChargingPrice,
-      parityRegular,
-      parityPremium,
+      homeElectricityPrice,
+      fastChargingPrice,
+      ...chartFuels.map((fuel) => fuel.homeParity),
     ];
     const gasDomain = computeCenteredDomain(
       gasCandidates,
@@ -444,14 +496,11 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
     );
     return [gasDomain, electricDomain];
   }, [
+    chartFuels,
     fallbackElectricDomain,
     fallbackGasDomain,
-    inputs.fastChargingPrice,
-    inputs.homeElectricityPrice,
-    inputs.premiumGasPrice,
-    inputs.regularGasPrice,
-    parityPremium,
-    parityRegular,
+    fastChargingPrice,
+    homeElectricityPrice,
   ]);
   const [gasDomain, setGasDomain] = useState<[number, number]>(baseGasDomain);
   const [electricDomain, setElectricDomain] =
@@ -712,7 +761,25 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
         <div>
           <p className="text-sm font-semibold text-slate-500">Break-even explorer</p>
         </div>
-        <span className="badge-label">Interactive</span>
+        <div className="flex flex-wrap items-center gap-3">
+          {evVehicles.length > 1 && (
+            <VehicleSelect
+              label="EV"
+              value={evVehicle.id}
+              vehicles={evVehicles}
+              onChange={setSelectedEvId}
+            />
+          )}
+          {gasVehicles.length > 1 && (
+            <VehicleSelect
+              label="Gas vehicle"
+              value={gasVehicle.id}
+              vehicles={gasVehicles}
+              onChange={setSelectedGasId}
+            />
+          )}
+          <span className="badge-label">Interactive</span>
+        </div>
       </div>
 
       <div className="mt-8 rounded-3xl border border-slate-100 bg-white/90 p-5">
@@ -727,6 +794,8 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
             <p className="text-sm text-slate-500">
               The diagonal line is the break-even equation. Points show your actual gas + electricity
               combos.
+              {chargerCostPerMile > 0 &&
+                ' Home break-evens are lowered by the amortized charger install.'}
             </p>
           </div>
           <div className="flex flex-wrap items-center gap-2">
@@ -783,12 +852,17 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                   dataKey="gasPrice"
                   domain={gasDomain}
                   allowDataOverflow
-                  tickFormatter={(value) => `$${value.toFixed(2)}`}
+                  tickFormatter={(value: number) =>
+                    formatCurrency(toDisplayFuelPrice(value, inputs.unitSystem), inputs.currency)
+                  }
                   tick={{ fill: '#475569', fontSize: 12, fontWeight: 500 }}
                   tickLine={false}
                   axisLine={{ stroke: '#cbd5f5' }}
                   label={{
-                    value: 'Gas price ($/gal)',
+                    value: `Gas price (${formatPriceUnit(
+                      inputs.currency,
+                      UNIT_LABELS[inputs.unitSystem].volume
+                    )})`,
                     position: 'insideBottomRight',
                     offset: 0,
                     fill: '#475569',
@@ -799,12 +873,12 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                   type="number"
                   domain={electricDomain}
                   allowDataOverflow
-                  tickFormatter={(value) => `$${value.toFixed(2)}`}
+                  tickFormatter={(value: number) => formatCurrency(value, inputs.currency)}
                   tick={{ fill: '#475569', fontSize: 12, fontWeight: 500 }}
                   tickLine={false}
                   axisLine={{ stroke: '#cbd5f5' }}
                   label={{
-                    value: 'Electricity price ($/kWh)',
+                    value: `Electricity price (${formatPriceUnit(inputs.currency, 'kWh')})`,
                     angle: -90,
                     position: 'insideLeft',
                     offset: 15,
@@ -812,7 +886,7 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                     fontSize: 12,
                   }}
                 />
-                <RechartTooltip content={<ChartTooltip />} />
+                <RechartTooltip content={<ChartTooltip settings={inputs} />} />
                 <Area
                   type="monotone"
                   dataKey="gasCeiling"
@@ -842,13 +916,13 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                   name="Break-even"
                 />
                 <ReferenceLine
-                  y={inputs.homeElectricityPrice}
+                  y={homeElectricityPrice}
                   stroke="#0ea5e9"
                   strokeDasharray="4 4"
                   label={createLineLabel('Home Charging', '#0ea5e9', -2)}
                 />
                 <ReferenceLine
-                  y={inputs.fastChargingPrice}
+                  y={fastChargingPrice}
                   stroke="#6366f1"
                   strokeDasharray="4 4"
                   label={createLineLabel('Fast Charging', '#6366f1', -2)}
@@ -887,59 +961,24 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                 <p className="text-sm font-semibold text-slate-900">Fast charging</p>
               </div>
               <div className="space-y-2">
-                <div className="flex items-center justify-between gap-2">
-                  <span className="text-xs text-slate-600">Regular gas:</span>
-                  {(() => {
-                    const diff = fastCostPerMile - gasRegularCostPerMile;
-                    const isPositive = diff > 0;
-                    return (
-                      <span className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-semibold ${
-                        isPositive 
-                          ? 'border-rose-200 bg-rose-50 text-rose-700' 
-                          : 'border-emerald-200 bg-emerald-50 text-emerald-700'
-                      }`}>
-                        <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          {isPositive ? (
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-                          ) : (
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                          )}
-                        </svg>
-                        {formatPerMile(diff)} vs regular
-                      </span>
-                    );
-                  })()}
-                </div>
-                <div className="flex items-center justify-between gap-2">
-                  <span className="text-xs text-slate-600">Premium gas:</span>
-                  {(() => {
-                    const diff = fastCostPerMile - gasPremiumCostPerMile;
-                    const isPositive = diff > 0;
-                    return (
-                      <span className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-semibold ${
-                        isPositive 
-                          ? 'border-rose-200 bg-rose-50 text-rose-700' 
-                          : 'border-emerald-200 bg-emerald-50 text-emerald-700'
-                      }`}>
-                        <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          {isPositive ? (
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-                          ) : (
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                          )}
-                        </svg>
-                        {formatPerMile(diff)} vs premium
-                      </span>
-                    );
-                  })()}
-                </div>
+                {gasFuels.map((fuel) => (
+                  <FuelDifferenceRow
+                    key={fuel.key}
+                    label={fuel.label}
+                    diff={fastCostPerMile - fuel.costPerMile}
+                    settings={inputs}
+                  />
+                ))}
                 <div className="mt-3 pt-3 border-t border-slate-200 flex flex-wrap gap-2">
-                  <span className="inline-flex items-center rounded-full bg-slate-100 px-2.5 py-1 text-xs font-semibold text-slate-700">
-                    Break‑even: Station rate &lt; {formatRate(parityRegular)} (regular)
-                  </span>
-                  <span className="inline-flex items-center rounded-full bg-slate-100 px-2.5 py-1 text-xs font-semibold text-slate-700">
-                    &lt; {formatRate(parityPremium)} (premium)
-                  </span>
+                  {gasFuels.map((fuel, index) => (
+                    <span
+                      key={fuel.key}
+                      className="inline-flex items-center rounded-full bg-slate-100 px-2.5 py-1 text-xs font-semibold text-slate-700"
+                    >
+                      {index === 0 ? 'Break‑even: Station rate ' : ''}&lt;{' '}
+                      {formatRate(fuel.fastParity, inputs)} ({fuel.label.toLowerCase()})
+                    </span>
+                  ))}
                 </div>
               </div>
             </div>
@@ -951,55 +990,21 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                 <p className="text-sm font-semibold text-slate-900">Home charging</p>
               </div>
               <div className="space-y-2">
-                <div className="flex items-center justify-between gap-2">
-                  <span className="text-xs text-slate-600">Regular gas:</span>
-                  {(() => {
-                    const diff = actualHomeCostPerMile - gasRegularCostPerMile;
-                    const isPositive = diff > 0;
-                    return (
-                      <span className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-semibold ${
-                        isPositive 
-                          ? 'border-rose-200 bg-rose-50 text-rose-700' 
-                          : 'border-emerald-200 bg-emerald-50 text-emerald-700'
-                      }`}>
-                        <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          {isPositive ? (
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-                          ) : (
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                          )}
-                        </svg>
-                        {formatPerMile(diff)} vs regular
-                      </span>
-                    );
-                  })()}
-                </div>
-                <div className="flex items-center justify-between gap-2">
-                  <span className="text-xs text-slate-600">Premium gas:</span>
-                  {(() => {
-                    const diff = actualHomeCostPerMile - gasPremiumCostPerMile;
-                    const isPositive = diff > 0;
-                    return (
-                      <span className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-semibold ${
-                        isPositive 
-                          ? 'border-rose-200 bg-rose-50 text-rose-700' 
-                          : 'border-emerald-200 bg-emerald-50 text-emerald-700'
-                      }`}>
-                        <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          {isPositive ? (
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-                          ) : (
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                          )}
-                        </svg>
-                        {formatPerMile(diff)} vs premium
-                      </span>
-                    );
-                  })()}
-                </div>
+                {gasFuels.map((fuel) => (
+                  <FuelDifferenceRow
+                    key={fuel.key}
+                    label={fuel.label}
+                    diff={actualHomeCostPerMile - fuel.costPerMile}
+                    settings={inputs}
+                  />
+                ))}
                 <div className="mt-3 pt-3 border-t border-slate-200">
                   <span className="inline-flex items-center rounded-full bg-slate-100 px-2.5 py-1 text-xs font-semibold text-slate-700">
-                    Break‑even: Gas price &gt; {formatGasPrice((inputs.homeElectricityPrice * inputs.gasEfficiency) / inputs.evEfficiency)}
+                    Break‑even: {fuelNoun} price &gt; {formatFuelPrice(
+                      (homeElectricityPrice * gasEfficiency) /
+                        (evEfficiency * getChargingEfficiency(homeLoss)),
+                      inputs
+                    )}
                   </span>
                 </div>
               </div>
@@ -1020,10 +1025,10 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                 {point.label}
               </span>
               <p className="mt-1 text-[11px] text-slate-500">
-                Gas: {formatGasPrice(point.gasPrice)}
+                {fuelNoun}: {formatFuelPrice(point.gasPrice, inputs)}
               </p>
               <p className="text-[11px] text-slate-500">
-                Electric: {formatRate(point.electricityPrice)}
+                Electric: {formatRate(point.electricityPrice, inputs)}
               </p>
             </div>
           ))}
@@ -1057,13 +1062,13 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                 <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
                   Test home charging rate
                 </p>
-                <p className="text-3xl font-semibold text-slate-900">{formatRate(testHomeRate)}</p>
+                <p className="text-3xl font-semibold text-slate-900">{formatRate(testHomeRate, inputs)}</p>
                 <p className="text-sm text-slate-500">
-                  Home charging cost at this rate: {formatPerMile(sliderHomeCostPerMile)}
+                  Home charging cost at this rate: {formatCompactCostPerDistance(sliderHomeCostPerMile, inputs)}
                 </p>
               </div>
               <div className="text-right text-sm text-slate-500">
-                <p>Current input: {formatRate(inputs.homeElectricityPrice)}</p>
+                <p>Current input: {formatRate(homeElectricityPrice, inputs)}</p>
               </div>
             </div>
             <div className="mt-6">
@@ -1077,8 +1082,8 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                 className="w-full accent-indigo-600"
               />
               <div className="mt-2 flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-slate-500">
-                <span>{formatRate(sliderBounds.min)}</span>
-                <span>{formatRate(sliderBounds.max)}</span>
+                <span>{formatRate(sliderBounds.min, inputs)}</span>
+                <span>{formatRate(sliderBounds.max, inputs)}</span>
               </div>
             </div>
           </div>
@@ -1089,13 +1094,16 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                 <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
                   Test fast charging rate
                 </p>
-                <p className="text-3xl font-semibold text-slate-900">{formatRate(testFastRate)}</p>
+                <p className="text-3xl font-semibold text-slate-900">{formatRate(testFastRate, inputs)}</p>
                 <p className="text-sm text-slate-500">
-                  Fast charging cost at this rate: {formatPerMile(sliderFastCostPerMile)}
+                  Fast charging cost at this rate: {formatCompactCostPerDistance(sliderFastCostPerMile, inputs)}
                 </p>
               </div>
               <div className="text-right text-sm text-slate-500">
-                <p>Current input: {formatRate(inputs.fastChargingPrice)}</p>
+                <p>Current input: {formatRate(fastChargingPrice, inputs)}</p>
+                {inputs.fastChargingTariff.pricing === 'perMinute' && (
+                  <p className="text-xs">Effective rate of the per-minute tariff</p>
+                )}
               </div>
             </div>
             <div className="mt-6">
@@ -1109,8 +1117,8 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                 className="w-full accent-purple-600"
               />
               <div className="mt-2 flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-slate-500">
-                <span>{formatRate(sliderBounds.min)}</span>
-                <span>{formatRate(sliderBounds.max)}</span>
+                <span>{formatRate(sliderBounds.min, inputs)}</span>
+                <span>{formatRate(sliderBounds.max, inputs)}</span>
               </div>
             </div>
           </div>
@@ -1127,7 +1135,7 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                   {card.label}
                 </p>
                 <p className="mt-1 text-lg font-semibold text-slate-900">
-                  Test rate: {formatRate(card.testRate)}
+                  Test rate: {formatRate(card.testRate, inputs)}
                 </p>
               </div>
               <div className="space-y-2">
@@ -1152,14 +1160,14 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
                             {comparison.label}
                           </span>
                           <span className="text-xs text-slate-500 whitespace-nowrap">
-                            Break-even: {formatRate(comparison.parity)}
+                            Break-even: {formatRate(comparison.parity, inputs)}
                           </span>
                           <span
                             className={`text-xs font-medium whitespace-nowrap ${
                               margin > 0 ? 'text-emerald-600' : margin < 0 ? 'text-rose-600' : 'text-slate-600'
                             }`}
                           >
-                            {status}: {describeMargin(margin)}
+                            {status}: {describeMargin(margin, inputs)}
                           </span>
                           <span className="text-[10px] text-slate-500 whitespace-nowrap">
                             {parityPercent} of break-even
@@ -1198,3 +1206,62 @@ export default function BreakEvenExplorer({ inputs }: BreakEvenExplorerProps) {
   );
 }
 
+function FuelDifferenceRow({
+  label,
+  diff,
+  settings,
+}: {
+  label: string;
+  diff: number;
+  settings: DisplaySettings;
+}) {
+  const isPositive = diff > 0;
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-xs text-slate-600">{label}:</span>
+      <span className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-semibold ${
+        isPositive
+          ? 'border-rose-200 bg-rose-50 text-rose-700'
+          : 'border-emerald-200 bg-emerald-50 text-emerald-700'
+      }`}>
+        <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          {isPositive ? (
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+          ) : (
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          )}
+        </svg>
+        {formatCompactCostPerDistance(diff, settings)} vs {label.toLowerCase()}
+      </span>
+    </div>
+  );
+}
+
+function VehicleSelect({
+  label,
+  value,
+  vehicles,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  vehicles: VehicleConfig[];
+  onChange: (id: string) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+      {label}
+      <select
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        className="rounded-2xl border border-slate-200 bg-white px-3 py-1.5 text-sm font-semibold normal-case tracking-normal text-slate-900"
+      >
+        {vehicles.map((vehicle) => (
+          <option key={vehicle.id} value={vehicle.id}>
+            {vehicle.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
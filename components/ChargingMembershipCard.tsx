@@ -0,0 +1,136 @@
+'use client';
+
+import { CalculatorInputs, ChargingMembership } from '@/types';
+import { formatCurrency } from '@/lib/calculations';
+import { getChargingMixShares } from '@/lib/charging';
+import { applyClimateAdjustment } from '@/lib/climate';
+import { analyzeChargingMembership } from '@/lib/fast-charging';
+import { formatPriceUnit, getCurrencySymbol } from '@/lib/units';
+import Tooltip from './Tooltip';
+
+interface ChargingMembershipCardProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+const MEMBERSHIP_FIELDS: {
+  key: keyof ChargingMembership;
+  label: string;
+  tooltip: string;
+  suffix: string;
+  step: string;
+}[] = [
+  {
+    key: 'monthlyFee',
+    label: 'Monthly fee',
+    tooltip: 'What the network charges each month for the membership.',
+    suffix: '/ mo',
+    step: '0.5',
+  },
+  {
+    key: 'memberRate',
+    label: 'Member rate',
+    tooltip: 'Per-kWh price for members. Session and idle fees still apply.',
+    suffix: '/ kWh',
+    step: '0.01',
+  },
+];
+
+export default function ChargingMembershipCard({ inputs, onChange }: ChargingMembershipCardProps) {
+  const membership = inputs.chargingMembership;
+  const { currency } = inputs;
+  const adjusted = applyClimateAdjustment(inputs);
+  // Normalized like the blended rate, so the mix does not need to add up to 100%
+  const fastShare = getChargingMixShares(inputs.chargingMix).dcFast * 100;
+  const analysis = analyzeChargingMembership(adjusted, fastShare);
+  const fastOnly = analyzeChargingMembership(adjusted, 100);
+  const kwhUnit = formatPriceUnit(currency, 'kWh');
+
+  const handleChange = (updates: Partial<ChargingMembership>) => {
+    onChange({ ...inputs, chargingMembership: { ...membership, ...updates } });
+  };
+
+  const formatKwh = (kwh: number) => `${Math.round(kwh).toLocaleString('en-US')} kWh`;
+
+  const headline =
+    analysis.breakEvenKwh === null
+      ? 'Pay as you go'
+      : analysis.recommended
+        ? 'Join the membership'
+        : 'Stay pay-as-you-go';
+
+  return (
+    <div className="rounded-3xl border border-slate-100 bg-gradient-to-br from-slate-50 to-white p-5">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Network membership
+          </p>
+          <p
+            className={`text-2xl font-semibold ${
+              analysis.recommended ? 'text-emerald-600' : 'text-slate-900'
+            }`}
+          >
+            {headline}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          {MEMBERSHIP_FIELDS.map(({ key, label, tooltip, suffix, step }) => (
+            <div key={key} className="w-[150px]">
+              <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                {label}
+                <Tooltip content={tooltip} />
+              </label>
+              <div className="relative">
+                <input
+                  type="number"
+                  min={0}
+                  step={step}
+                  value={membership[key]}
+                  onChange={(event) =>
+                    handleChange({
+                      [key]: Math.max(0, Math.min(100, parseFloat(event.target.value) || 0)),
+                    })
+                  }
+                  className="form-input-shell pr-16"
+                />
+                <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                  {getCurrencySymbol(currency)} {suffix}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {analysis.breakEvenKwh === null ? (
+        <p className="mt-4 text-sm text-slate-600">
+          The member rate of {formatCurrency(analysis.memberPrice, currency, 3)} {kwhUnit} is no
+          cheaper than the {formatCurrency(analysis.payAsYouGoPrice, currency, 3)} {kwhUnit} you
+          pay now, so the membership never pays off.
+        </p>
+      ) : (
+        <>
+          <p className="mt-4 text-sm text-slate-600">
+            The membership pays off above{' '}
+            <span className="font-semibold text-slate-900">
+              {formatKwh(analysis.breakEvenKwh)} a month
+            </span>{' '}
+            of fast charging. With {Math.round(fastShare)}% of your charging at fast chargers you use{' '}
+            {formatKwh(analysis.monthlyKwh)} a month, so it would{' '}
+            {analysis.monthlySavings >= 0
+              ? `save ${formatCurrency(analysis.monthlySavings, currency)}`
+              : `cost ${formatCurrency(-analysis.monthlySavings, currency)} more`}{' '}
+            a month after the fee.
+          </p>
+          <p className="mt-2 text-xs text-slate-500">
+            Effective {formatCurrency(analysis.payAsYouGoPrice, currency, 3)} {kwhUnit} pay as
+            you go vs {formatCurrency(analysis.memberPrice, currency, 3)} {kwhUnit} as a member.
+            Fast charging only, you would use {formatKwh(fastOnly.monthlyKwh)} a month
+            {fastOnly.recommended ? ', enough to join.' : ', still short of the break-even.'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { CalculatorInputs } from '@/types';
+import {
+  CLIMATE_REGIONS,
+  calculateMonthlyEfficiencies,
+  calculateSeasonalEfficiency,
+  getClimateRegion,
+} from '@/lib/climate';
+import {
+  UNIT_LABELS,
+  formatEvEfficiency,
+  formatFuelEconomy,
+  toDisplayEvEfficiency,
+  toDisplayFuelEconomy,
+  toDisplayTemperature,
+} from '@/lib/units';
+import Tooltip from './Tooltip';
+
+interface ClimateSectionProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const REGION_OPTIONS = Object.entries(CLIMATE_REGIONS).sort(([codeA, a], [codeB, b]) =>
+  codeA === 'US' ? -1 : codeB === 'US' ? 1 : a.name.localeCompare(b.name)
+);
+
+function formatChange(adjusted: number, rated: number): string {
+  if (rated <= 0) return '0%';
+  const change = ((adjusted - rated) / rated) * 100;
+  return `${change > 0 ? '+' : ''}${change.toFixed(0)}%`;
+}
+
+export default function ClimateSection({ inputs, onChange }: ClimateSectionProps) {
+  const region = getClimateRegion(inputs.climateRegion);
+  const months = calculateMonthlyEfficiencies(inputs);
+  const seasonalEv = calculateSeasonalEfficiency(months, 'evEfficiency');
+  const seasonalGas = calculateSeasonalEfficiency(months, 'gasEfficiency');
+  const { unitSystem } = inputs;
+  const unitLabels = UNIT_LABELS[unitSystem];
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">Climate</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">Seasonal efficiency</h2>
+          <p className="text-sm text-slate-500">
+            Cold winters and hot summers cut into efficiency, and EVs feel the cold most.
+            Derate both vehicles month by month using typical temperatures where you live.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            checked={inputs.climateAdjustment}
+            onChange={(event) =>
+              onChange({ ...inputs, climateAdjustment: event.target.checked })
+            }
+            className="accent-emerald-500"
+          />
+          Include in results
+        </label>
+      </div>
+
+      {inputs.climateAdjustment && (
+        <div className="mt-6 space-y-5">
+          <div className="flex flex-wrap items-end gap-6">
+            <div className="w-[220px]">
+              <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                Location
+                <Tooltip content="Statewide monthly temperature normals. The ZIP price lookup sets this automatically." />
+              </label>
+              <select
+                value={inputs.climateRegion}
+                onChange={(event) => onChange({ ...inputs, climateRegion: event.target.value })}
+                className="w-full rounded-2xl border border-slate-200 bg-white/80 px-3 py-2 text-sm text-slate-800"
+              >
+                {REGION_OPTIONS.map(([code, option]) => (
+                  <option key={code} value={code}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-wrap gap-2 text-xs font-semibold">
+              <span className="rounded-full bg-emerald-50 px-3 py-1 text-emerald-700">
+                EV {formatEvEfficiency(seasonalEv, unitSystem)} (
+                {formatChange(
+                  toDisplayEvEfficiency(seasonalEv, unitSystem),
+                  toDisplayEvEfficiency(inputs.evEfficiency, unitSystem)
+                )}
+                )
+              </span>
+              <span className="rounded-full bg-amber-50 px-3 py-1 text-amber-700">
+                Gas {formatFuelEconomy(seasonalGas, unitSystem)} (
+                {formatChange(
+                  toDisplayFuelEconomy(seasonalGas, unitSystem),
+                  toDisplayFuelEconomy(inputs.gasEfficiency, unitSystem)
+                )}
+                )
+              </span>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[640px] text-center text-xs">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="py-2 text-left font-semibold">{region.name}</th>
+                  {MONTH_LABELS.map((label) => (
+                    <th key={label} className="py-2 font-semibold">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="text-slate-700">
+                <tr className="border-t border-slate-100">
+                  <td className="py-2 text-left font-semibold text-slate-500">Temp ({unitLabels.temperature})</td>
+                  {months.map((month) => (
+                    <td key={month.month} className="py-2">
+                      {Math.round(toDisplayTemperature(month.temperature, unitSystem))}
+                    </td>
+                  ))}
+                </tr>
+                <tr className="border-t border-slate-100">
+                  <td className="py-2 text-left font-semibold text-emerald-600">EV {unitLabels.evEfficiency}</td>
+                  {months.map((month) => (
+                    <td key={month.month} className="py-2">
+                      {toDisplayEvEfficiency(month.evEfficiency, unitSystem).toFixed(1)}
+                    </td>
+                  ))}
+                </tr>
+                <tr className="border-t border-slate-100">
+                  <td className="py-2 text-left font-semibold text-amber-600">Gas {unitLabels.fuelEconomy}</td>
+                  {months.map((month) => (
+                    <td key={month.month} className="py-2">
+                      {toDisplayFuelEconomy(month.gasEfficiency, unitSystem).toFixed(1)}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500">
+            Results use the seasonal averages above, weighted by days in each month.
+          </p>
+        </div>
+      )}
+    </section>
+  );
+}
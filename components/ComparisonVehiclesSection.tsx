@@ -0,0 +1,275 @@
+'use client';
+
+import { useState } from 'react';
+import { CalculatorInputs, GasVehicleFuel, VehicleConfig } from '@/types';
+import { GAS_VEHICLE_FUEL_LABELS } from '@/lib/fuels';
+import { MAX_EXTRA_VEHICLES, createExtraVehicle } from '@/lib/vehicles';
+import {
+  UNIT_LABELS,
+  fromDisplayEvEfficiency,
+  fromDisplayFuelEconomy,
+  roundForInput,
+  toDisplayEvEfficiency,
+  toDisplayFuelEconomy,
+} from '@/lib/units';
+import Tooltip from './Tooltip';
+import FuelEconomyVehicleSelect, { VehicleSelectionSummary } from './FuelEconomyVehicleSelect';
+
+interface ComparisonVehiclesSectionProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+const GAS_VEHICLE_FUELS: GasVehicleFuel[] = ['gasoline', 'diesel', 'flexFuel'];
+
+export default function ComparisonVehiclesSection({
+  inputs,
+  onChange,
+}: ComparisonVehiclesSectionProps) {
+  const [selections, setSelections] = useState<Record<string, VehicleSelectionSummary | null>>(
+    {}
+  );
+  const vehicles = inputs.extraVehicles;
+  const { unitSystem } = inputs;
+  const unitLabels = UNIT_LABELS[unitSystem];
+  const canAdd = vehicles.length < MAX_EXTRA_VEHICLES;
+
+  const addVehicle = (kind: 'ev' | 'gas') => {
+    onChange({ ...inputs, extraVehicles: [...vehicles, createExtraVehicle(inputs, kind)] });
+  };
+
+  const updateVehicle = (id: string, updates: Partial<VehicleConfig>) => {
+    onChange({
+      ...inputs,
+      extraVehicles: vehicles.map((vehicle) =>
+        vehicle.id === id ? { ...vehicle, ...updates } : vehicle
+      ),
+    });
+  };
+
+  const removeVehicle = (id: string) => {
+    onChange({ ...inputs, extraVehicles: vehicles.filter((vehicle) => vehicle.id !== id) });
+    setSelections(({ [id]: _removed, ...rest }) => rest);
+  };
+
+  const handleVehicleResolved = (
+    vehicle: VehicleConfig,
+    resolved: VehicleSelectionSummary | null
+  ) => {
+    setSelections((prev) => ({ ...prev, [vehicle.id]: resolved }));
+    if (!resolved) {
+      if (vehicle.model) updateVehicle(vehicle.id, { model: null });
+      return;
+    }
+    const updates: Partial<VehicleConfig> = {};
+    const name = [resolved.year, resolved.make, resolved.model].filter(Boolean).join(' ');
+    if (name) {
+      updates.name = name;
+    }
+    if (vehicle.kind === 'ev') {
+      // Incentive matching checks the model year
+      updates.model = { year: resolved.year, make: resolved.make, model: resolved.model };
+    }
+    if (resolved.efficiencies.combined) {
+      updates.efficiency = resolved.efficiencies.combined;
+    }
+    if (vehicle.kind === 'gas') {
+      if (resolved.gasVehicleFuel) {
+        updates.gasVehicleFuel = resolved.gasVehicleFuel;
+      }
+      if (resolved.e85Efficiencies?.combined) {
+        updates.e85Efficiency = resolved.e85Efficiencies.combined;
+      }
+    }
+    updateVehicle(vehicle.id, updates);
+  };
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">More vehicles</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">Compare more candidates</h2>
+          <p className="text-sm text-slate-500">
+            Add other EVs or gas cars you are considering. Each one is priced with the same
+            energy prices and driving distance as your main EV and gas car.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => addVehicle('ev')}
+            disabled={!canAdd}
+            className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Add EV
+          </button>
+          <button
+            type="button"
+            onClick={() => addVehicle('gas')}
+            disabled={!canAdd}
+            className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Add gas vehicle
+          </button>
+        </div>
+      </div>
+
+      {vehicles.length > 0 && (
+        <div className="mt-6 space-y-4">
+          {vehicles.map((vehicle) => (
+            <div
+              key={vehicle.id}
+              className="grid gap-5 rounded-3xl border border-slate-100 bg-white/80 p-5 shadow-sm shadow-slate-900/5 lg:grid-cols-[1fr,1.4fr]"
+            >
+              <FuelEconomyVehicleSelect
+                label={vehicle.kind === 'ev' ? 'EV lookup' : 'Gas vehicle lookup'}
+                unitSystem={inputs.unitSystem}
+                kind={vehicle.kind}
+                selected={selections[vehicle.id] ?? null}
+                onVehicleResolved={(resolved) => handleVehicleResolved(vehicle, resolved)}
+              />
+              <div className="space-y-4">
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <label className="mb-1 block text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      Name
+                    </label>
+                    <input
+                      type="text"
+                      value={vehicle.name}
+                      maxLength={40}
+                      onChange={(event) => updateVehicle(vehicle.id, { name: event.target.value })}
+                      className="form-input-shell"
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => removeVehicle(vehicle.id)}
+                    className="mb-1 rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-500 hover:border-slate-300"
+                    aria-label={`Remove ${vehicle.name}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {vehicle.kind === 'ev' ? (
+                    <VehicleNumberField
+                      label="Efficiency"
+                      tooltip="Charging costs use the same prices and charging mix as your main EV."
+                      suffix={unitLabels.evEfficiency}
+                      step="0.1"
+                      value={roundForInput(toDisplayEvEfficiency(vehicle.efficiency, unitSystem))}
+                      onChange={(value) =>
+                        updateVehicle(vehicle.id, {
+                          efficiency: Math.min(10, fromDisplayEvEfficiency(value, unitSystem)),
+                        })
+                      }
+                    />
+                  ) : (
+                    <VehicleNumberField
+                      label="Fuel economy"
+                      tooltip="Rated fuel economy on gasoline, or on diesel for diesel vehicles."
+                      suffix={unitLabels.fuelEconomy}
+                      step={unitSystem === 'metric' ? '0.1' : '1'}
+                      value={roundForInput(toDisplayFuelEconomy(vehicle.efficiency, unitSystem))}
+                      onChange={(value) =>
+                        updateVehicle(vehicle.id, {
+                          efficiency: Math.min(150, fromDisplayFuelEconomy(value, unitSystem)),
+                        })
+                      }
+                    />
+                  )}
+                  {vehicle.kind === 'gas' && vehicle.gasVehicleFuel === 'flexFuel' && (
+                    <VehicleNumberField
+                      label="E85 economy"
+                      tooltip="Fuel economy on E85. Flex-fuel vehicles go less far on a tank of ethanol."
+                      suffix={unitLabels.fuelEconomy}
+                      step={unitSystem === 'metric' ? '0.1' : '1'}
+                      value={roundForInput(toDisplayFuelEconomy(vehicle.e85Efficiency, unitSystem))}
+                      onChange={(value) =>
+                        updateVehicle(vehicle.id, {
+                          e85Efficiency: Math.min(150, fromDisplayFuelEconomy(value, unitSystem)),
+                        })
+                      }
+                    />
+                  )}
+                </div>
+
+                {vehicle.kind === 'gas' && (
+                  <div className="flex flex-col gap-2">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      Fuel
+                    </span>
+                    <div className="segmented-control self-start">
+                      {GAS_VEHICLE_FUELS.map((fuel) => (
+                        <button
+                          key={fuel}
+                          type="button"
+                          className={`segmented-control__item ${
+                            vehicle.gasVehicleFuel === fuel ? 'is-active' : ''
+                          }`}
+                          onClick={() => updateVehicle(vehicle.id, { gasVehicleFuel: fuel })}
+                          aria-pressed={vehicle.gasVehicleFuel === fuel}
+                        >
+                          {GAS_VEHICLE_FUEL_LABELS[fuel]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function VehicleNumberField({
+  label,
+  tooltip,
+  suffix,
+  step,
+  value,
+  onChange,
+}: {
+  label: string;
+  tooltip: string;
+  suffix: string;
+  step: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  // Metric efficiencies convert through mpg or mi/kWh, so hold the typed text while editing
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <div>
+      <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+        {label}
+        <Tooltip content={tooltip} />
+      </div>
+      <div className="relative">
+        <input
+          type="number"
+          min={0}
+          step={step}
+          value={draft ?? value}
+          onFocus={() => setDraft(value.toString())}
+          onBlur={() => setDraft(null)}
+          onChange={(event) => {
+            setDraft(event.target.value);
+            onChange(Math.max(0, parseFloat(event.target.value) || 0));
+          }}
+          className="form-input-shell pr-20"
+        />
+        <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+          {suffix}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+'use client';
+
+import { CalculatorInputs, FastChargingPricing, FastChargingTariff, PowerTier } from '@/types';
+import { calculateEVCostPerMileFast, formatCurrency } from '@/lib/calculations';
+import { applyClimateAdjustment } from '@/lib/climate';
+import {
+  FAST_CHARGING_PRICING_LABELS,
+  simulateFastChargingSession,
+} from '@/lib/fast-charging';
+import {
+  formatCostPerDistance,
+  formatDistance,
+  formatPriceUnit,
+  getCurrencySymbol,
+} from '@/lib/units';
+import ChargingMembershipCard from './ChargingMembershipCard';
+import Tooltip from './Tooltip';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip as RechartTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+interface FastChargingSectionProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+type TariffField = keyof Pick<
+  FastChargingTariff,
+  | 'batteryKwh'
+  | 'vehiclePeakKw'
+  | 'stationKw'
+  | 'startSoc'
+  | 'endSoc'
+  | 'sessionFee'
+  | 'idleFee'
+  | 'idleMinutes'
+  | 'membershipDiscount'
+>;
+
+const SESSION_FIELDS: {
+  key: TariffField;
+  label: string;
+  tooltip: string;
+  suffix: string;
+  step: string;
+  max: number;
+}[] = [
+  {
+    key: 'batteryKwh',
+    label: 'Battery size',
+    tooltip: 'Usable battery capacity of your EV.',
+    suffix: 'kWh',
+    step: '1',
+    max: 250,
+  },
+  {
+    key: 'vehiclePeakKw',
+    label: 'Vehicle peak',
+    tooltip: 'Highest DC charging power your EV accepts.',
+    suffix: 'kW',
+    step: '5',
+    max: 500,
+  },
+  {
+    key: 'stationKw',
+    label: 'Station power',
+    tooltip: 'Rated power of the chargers you usually use.',
+    suffix: 'kW',
+    step: '25',
+    max: 500,
+  },
+  {
+    key: 'startSoc',
+    label: 'Arrive at',
+    tooltip: 'State of charge when you plug in.',
+    suffix: '%',
+    step: '5',
+    max: 100,
+  },
+  {
+    key: 'endSoc',
+    label: 'Leave at',
+    tooltip: 'State of charge when you unplug. Charging slows sharply past 80%.',
+    suffix: '%',
+    step: '5',
+    max: 100,
+  },
+];
+
+const FEE_FIELDS: typeof SESSION_FIELDS = [
+  {
+    key: 'sessionFee',
+    label: 'Session fee',
+    tooltip: 'Flat fee charged each time you plug in.',
+    suffix: '$',
+    step: '0.25',
+    max: 50,
+  },
+  {
+    key: 'idleFee',
+    label: 'Idle fee',
+    tooltip: 'Charged per minute you stay plugged in after charging ends.',
+    suffix: '$ / min',
+    step: '0.05',
+    max: 5,
+  },
+  {
+    key: 'idleMinutes',
+    label: 'Idle time',
+    tooltip: 'Minutes you typically stay plugged in after the session, past any grace period.',
+    suffix: 'min',
+    step: '1',
+    max: 120,
+  },
+  {
+    key: 'membershipDiscount',
+    label: 'Member discount',
+    tooltip: 'Share taken off energy or minute charges by a perk with no monthly fee, such as a carmaker plan.',
+    suffix: '%',
+    step: '5',
+    max: 100,
+  },
+];
+
+const PRICING_OPTIONS = Object.entries(FAST_CHARGING_PRICING_LABELS) as [
+  FastChargingPricing,
+  string,
+][];
+
+export default function FastChargingSection({ inputs, onChange }: FastChargingSectionProps) {
+  const tariff = inputs.fastChargingTariff;
+  const { currency, unitSystem } = inputs;
+  const currencySymbol = getCurrencySymbol(currency);
+  const adjusted = applyClimateAdjustment(inputs);
+  const lossPercent = inputs.chargingLosses.dcFast;
+  const session = simulateFastChargingSession(tariff, inputs.fastChargingPrice, lossPercent);
+  const costPerMile = calculateEVCostPerMileFast(
+    adjusted.evEfficiency,
+    session.pricePerKwh,
+    lossPercent
+  );
+  const distanceAdded = session.batteryKwh * adjusted.evEfficiency;
+
+  const handleChange = (updates: Partial<FastChargingTariff>) => {
+    onChange({ ...inputs, fastChargingTariff: { ...tariff, ...updates } });
+  };
+
+  const handleTierChange = (index: number, updates: Partial<PowerTier>) => {
+    handleChange({
+      powerTiers: tariff.powerTiers.map((tier, tierIndex) =>
+        tierIndex === index ? { ...tier, ...updates } : tier
+      ),
+    });
+  };
+
+  const renderField = ({
+    key,
+    label,
+    tooltip,
+    suffix,
+    step,
+    max,
+  }: (typeof SESSION_FIELDS)[number]) => (
+    <div key={key}>
+      <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+        {label}
+        <Tooltip content={tooltip} />
+      </label>
+      <div className="relative">
+        <input
+          type="number"
+          min={0}
+          max={max}
+          step={step}
+          value={tariff[key]}
+          onChange={(event) =>
+            handleChange({
+              [key]: Math.max(0, Math.min(max, parseFloat(event.target.value) || 0)),
+            })
+          }
+          className="form-input-shell pr-16"
+        />
+        <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+          {suffix.replace('$', currencySymbol)}
+        </span>
+      </div>
+    </div>
+  );
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">Fast charging</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">
+            What a fast-charging stop really costs
+          </h2>
+          <p className="text-sm text-slate-500">
+            Networks bill per kWh or per minute, and add session and idle fees. Describe a typical
+            stop and the charging curve turns it into an effective rate per kWh and per mile.
+          </p>
+        </div>
+        <div className="segmented-control">
+          {PRICING_OPTIONS.map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              className={`segmented-control__item ${tariff.pricing === value ? 'is-active' : ''}`}
+              onClick={() => handleChange({ pricing: value })}
+              aria-pressed={tariff.pricing === value}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-6 space-y-5">
+        <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-5">
+          {SESSION_FIELDS.map(renderField)}
+        </div>
+
+        {tariff.pricing === 'perMinute' ? (
+          <div>
+            <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Power tiers
+              <Tooltip content="Each minute bills at the tier for the power being drawn, so the slow end of the curve bills at a lower rate." />
+            </div>
+            <div className="grid gap-3 sm:grid-cols-3">
+              {tariff.powerTiers.map((tier, index) => (
+                <div
+                  key={index}
+                  className="flex items-center gap-2 rounded-2xl border border-slate-100 bg-white/80 p-3"
+                >
+                  <span className="text-xs font-semibold text-slate-500">Up to</span>
+                  <div className="relative flex-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step="10"
+                      value={tier.maxKw}
+                      onChange={(event) =>
+                        handleTierChange(index, {
+                          maxKw: Math.max(0, Math.min(500, parseFloat(event.target.value) || 0)),
+                        })
+                      }
+                      className="form-input-shell pr-10"
+                    />
+                    <span className="pointer-events-none absolute inset-y-0 right-3 flex items-center text-[11px] font-semibold text-slate-400">
+                      kW
+                    </span>
+                  </div>
+                  <div className="relative flex-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={tier.rate}
+                      onChange={(event) =>
+                        handleTierChange(index, {
+                          rate: Math.max(0, Math.min(10, parseFloat(event.target.value) || 0)),
+                        })
+                      }
+                      className="form-input-shell pr-14"
+                    />
+                    <span className="pointer-events-none absolute inset-y-0 right-3 flex items-center text-[11px] font-semibold text-slate-400">
+                      {currencySymbol} / min
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">
+            Energy bills at the fast charging rate of{' '}
+            {formatCurrency(inputs.fastChargingPrice, currency)} {formatPriceUnit(currency, 'kWh')}{' '}
+            from the price inputs.
+          </p>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {FEE_FIELDS.map(renderField)}
+        </div>
+
+        <div className="grid gap-5 lg:grid-cols-[0.9fr,1.1fr]">
+          <div className="rounded-3xl border border-slate-100 bg-gradient-to-br from-slate-50 to-white p-5">
+            <div className="grid grid-cols-2 gap-5">
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Session
+                </p>
+                <p className="text-2xl font-semibold text-slate-900">
+                  {Math.round(session.minutes)} min
+                </p>
+                <p className="text-xs text-slate-500">
+                  {session.batteryKwh.toFixed(1)} kWh added · {formatDistance(distanceAdded, unitSystem)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Session cost
+                </p>
+                <p className="text-2xl font-semibold text-slate-900">
+                  {formatCurrency(session.cost, currency)}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {session.meteredKwh.toFixed(1)} kWh metered
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Effective rate
+                </p>
+                <p className="text-2xl font-semibold text-emerald-600">
+                  {formatCurrency(session.pricePerKwh, currency, 3)}
+                </p>
+                <p className="text-xs text-slate-500">{formatPriceUnit(currency, 'kWh')}</p>
+              </div>
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Per distance
+                </p>
+                <p className="text-2xl font-semibold text-slate-900">
+                  {formatCostPerDistance(costPerMile, inputs, 3)}
+                </p>
+                <p className="text-xs text-slate-500">at your EV efficiency</p>
+              </div>
+            </div>
+            <p className="mt-4 text-xs text-slate-500">
+              Used for fast charging everywhere in the results, including the charging mix and
+              the break-even explorer.
+            </p>
+          </div>
+
+          <div className="h-56 rounded-3xl border border-slate-100 bg-white/80 p-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={session.curve} margin={{ top: 10, right: 10, bottom: 0, left: -10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis
+                  dataKey="soc"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(value: number) => `${value}%`}
+                  tick={{ fill: '#475569', fontSize: 12, fontWeight: 500 }}
+                  tickLine={false}
+                  axisLine={{ stroke: '#cbd5f5' }}
+                />
+                <YAxis
+                  tickFormatter={(value: number) => `${Math.round(value)} kW`}
+                  tick={{ fill: '#475569', fontSize: 12, fontWeight: 500 }}
+                  tickLine={false}
+                  axisLine={{ stroke: '#cbd5f5' }}
+                />
+                <RechartTooltip
+                  formatter={(value: number) => [`${value.toFixed(0)} kW`, 'Power']}
+                  labelFormatter={(value: number) => `${value}% charged`}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="kw"
+                  stroke="#10b981"
+                  fill="#10b981"
+                  fillOpacity={0.15}
+                  strokeWidth={2}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <ChargingMembershipCard inputs={inputs} onChange={onChange} />
+      </div>
+    </section>
+  );
+}
@@ -4,6 +4,7 @@ import { useEffect, useRef, useState } from 'react';
 import {
   FuelEconomyMenuItem,
   FuelEconomyVehicleDetails,
+  calculateSplitEfficiency,
   convertKwhPer100MilesToMilesPerKwh,
   getVehicleDetails,
   getVehicleMakes,
@@ -12,8 +13,16 @@ import {
   getVehicleYears,
   parseFuelEconomyNumber,
 } from '@/lib/fueleconomy';
+import { detectGasVehicleFuel } from '@/lib/fuels';
+import {
+  formatDistance,
+  formatEvEfficiency,
+  formatFuelEconomy,
+} from '@/lib/units';
+import { GasVehicleFuel, UnitSystem, VehicleKind } from '@/types';
 
 export type EfficiencyMode = 'combined' | 'city' | 'highway';
+export type RatingMode = EfficiencyMode | 'split';
 
 export interface VehicleSelectionSummary {
   id: string;
@@ -27,6 +36,10 @@ export interface VehicleSelectionSummary {
   combE?: number | null;
   efficiencies: Record<EfficiencyMode, number | null>;
   efficiencyUnit: 'mpg' | 'mi/kWh';
+  electricEfficiencies?: Record<EfficiencyMode, number | null>; // PHEV charge-depleting mi/kWh
+  electricRange?: number | null; // PHEV miles
+  gasVehicleFuel?: GasVehicleFuel;
+  e85Efficiencies?: Record<EfficiencyMode, number | null>; // flex-fuel mpg on E85
   source: string;
 }
 
@@ -39,13 +52,15 @@ interface VehicleDefaultSelection {
 
 interface FuelEconomyVehicleSelectProps {
   label: string;
-  kind: 'ev' | 'gas';
+  kind: VehicleKind;
   onVehicleResolved: (selection: VehicleSelectionSummary | null) => void;
   selected?: VehicleSelectionSummary | null;
-  ratingMode?: EfficiencyMode;
-  availableModes?: EfficiencyMode[];
-  onRatingModeChange?: (mode: EfficiencyMode) => void;
+  ratingMode?: RatingMode;
+  availableModes?: RatingMode[];
+  onRatingModeChange?: (mode: RatingMode) => void;
+  highwayShare?: number;
   defaultSelection?: VehicleDefaultSelection;
+  unitSystem?: UnitSystem;
 }
 
 export default function FuelEconomyVehicleSelect({
@@ -56,7 +71,9 @@ export default function FuelEconomyVehicleSelect({
   ratingMode,
   availableModes,
   onRatingModeChange,
+  highwayShare = 55,
   defaultSelection,
+  unitSystem = 'imperial',
 }: FuelEconomyVehicleSelectProps) {
   const [yearOptions, setYearOptions] = useState<FuelEconomyMenuItem[]>([]);
   const [makeOptions, setMakeOptions] = useState<FuelEconomyMenuItem[]>([]);
@@ -386,6 +403,8 @@ useEffect(() => {
           ratingMode={ratingMode}
           availableModes={availableModes}
           onRatingModeChange={onRatingModeChange}
+          highwayShare={highwayShare}
+          unitSystem={unitSystem}
         />
       )}
     </div>
@@ -397,25 +416,48 @@ function SelectionSummaryCard({
   ratingMode,
   availableModes,
   onRatingModeChange,
+  highwayShare,
+  unitSystem,
 }: {
   selection: VehicleSelectionSummary;
-  ratingMode?: EfficiencyMode;
-  availableModes?: EfficiencyMode[];
-  onRatingModeChange?: (mode: EfficiencyMode) => void;
+  ratingMode?: RatingMode;
+  availableModes?: RatingMode[];
+  onRatingModeChange?: (mode: RatingMode) => void;
+  highwayShare: number;
+  unitSystem: UnitSystem;
 }) {
-  const preferredMode = ratingMode && isValidEfficiencyValue(selection.efficiencies[ratingMode])
-    ? ratingMode
-    : MODE_ORDER.find((mode) => isValidEfficiencyValue(selection.efficiencies[mode]));
-  const value = preferredMode ? selection.efficiencies[preferredMode] : null;
-  const decimals = selection.efficiencyUnit === 'mpg' ? 1 : 2;
+  const splitValue = calculateSplitEfficiency(selection.efficiencies, highwayShare);
+  const fallbackMode = MODE_ORDER.find((mode) =>
+    isValidEfficiencyValue(selection.efficiencies[mode])
+  );
+  const isRatingAvailable =
+    ratingMode === 'split'
+      ? splitValue !== null
+      : ratingMode && isValidEfficiencyValue(selection.efficiencies[ratingMode]);
+  const preferredMode: RatingMode | undefined = isRatingAvailable ? ratingMode : fallbackMode;
+  const value =
+    preferredMode === 'split'
+      ? splitValue
+      : preferredMode
+        ? selection.efficiencies[preferredMode]
+        : null;
+  const formatEfficiency = (efficiency: number) =>
+    selection.efficiencyUnit === 'mpg'
+      ? formatFuelEconomy(efficiency, unitSystem)
+      : formatEvEfficiency(efficiency, unitSystem);
 
   return (
     <div className="mt-4 space-y-2 rounded-xl border border-slate-200 bg-white/80 p-3 text-sm">
       <p className="font-semibold leading-tight text-slate-800">{selection.description}</p>
       {value ? (
         <p className="leading-snug text-slate-600">
-          {value.toFixed(decimals)} {selection.efficiencyUnit} •{' '}
-          {preferredMode ? MODE_LABELS[preferredMode] : 'EPA'} •{' '}
+          {formatEfficiency(value)} •{' '}
+          {preferredMode === 'split'
+            ? `${highwayShare}% highway`
+            : preferredMode
+              ? MODE_LABELS[preferredMode]
+              : 'EPA'}{' '}
+          •{' '}
           {selection.fuelType ?? 'Fuel type unknown'}
         </p>
       ) : (
@@ -423,6 +465,19 @@ function SelectionSummaryCard({
           {selection.fuelType ?? 'Fuel type unknown'}
         </p>
       )}
+      {selection.electricEfficiencies?.combined && (
+        <p className="leading-snug text-slate-600">
+          {formatEvEfficiency(selection.electricEfficiencies.combined, unitSystem)} on electricity
+          {selection.electricRange
+            ? ` • ${formatDistance(selection.electricRange, unitSystem)} electric range`
+            : ''}
+        </p>
+      )}
+      {selection.e85Efficiencies?.combined && (
+        <p className="leading-snug text-slate-600">
+          {formatFuelEconomy(selection.e85Efficiencies.combined, unitSystem)} on E85
+        </p>
+      )}
       <p className="text-xs leading-snug text-slate-500">Source: {selection.source}</p>
       {availableModes && availableModes.length > 0 && onRatingModeChange && (
         <div className="space-y-1">
@@ -430,7 +485,7 @@ function SelectionSummaryCard({
             EPA rating
           </p>
           <div className="mt-1 flex flex-wrap gap-2">
-            {MODE_ORDER.map((mode) => {
+            {RATING_MODE_ORDER.map((mode) => {
               const isEnabled = availableModes.includes(mode);
               const isActive = preferredMode === mode;
               return (
@@ -458,7 +513,7 @@ function SelectionSummaryCard({
 
 function buildSelection(
   details: FuelEconomyVehicleDetails,
-  kind: 'ev' | 'gas'
+  kind: VehicleKind
 ): VehicleSelectionSummary {
   const descriptionParts = [
     details.year,
@@ -505,6 +560,42 @@ function buildSelection(
     };
   }
 
+  if (kind === 'phev') {
+    const isPlugInHybrid =
+      details.atvType?.toLowerCase().includes('plug-in') ||
+      (details.fuelType2?.toLowerCase().includes('electric') &&
+        !details.fuelType1?.toLowerCase().includes('electric'));
+    const electricEfficiencies: Record<EfficiencyMode, number | null> = {
+      combined: normalizeMilesPerKwh(details.combE),
+      city: normalizeMilesPerKwh(details.cityE),
+      highway: normalizeMilesPerKwh(details.highwayE),
+    };
+    efficiencies.combined = normalizeMpg(details.comb08);
+    efficiencies.city = normalizeMpg(details.city08);
+    efficiencies.highway = normalizeMpg(details.highway08);
+
+    if (!isPlugInHybrid || !efficiencies.combined || !electricEfficiencies.combined) {
+      throw new Error('Selected option is missing plug-in hybrid efficiency data.');
+    }
+
+    return {
+      id: details.id,
+      description: description || 'PHEV selection',
+      year: details.year,
+      make: details.make,
+      model: details.model,
+      transmission,
+      fuelType: details.fuelType ?? fuelType,
+      comb08: parseFuelEconomyNumber(details.comb08),
+      combE: parseFuelEconomyNumber(details.combE),
+      efficiencies,
+      efficiencyUnit: 'mpg',
+      electricEfficiencies,
+      electricRange: parseFuelEconomyNumber(details.rangeA?.split('/')[0]),
+      source: 'FuelEconomy.gov',
+    };
+  }
+
   const normalizedFuel = (fuelType || '').toLowerCase();
   const isGasLike = normalizedFuel.includes('gas') || normalizedFuel.includes('diesel');
   efficiencies.combined = normalizeMpg(details.comb08);
@@ -515,6 +606,16 @@ function buildSelection(
     throw new Error('Selected option is missing gasoline MPG data.');
   }
 
+  const gasVehicleFuel = detectGasVehicleFuel(details.fuelType1, details.fuelType2);
+  const e85Efficiencies: Record<EfficiencyMode, number | null> | undefined =
+    gasVehicleFuel === 'flexFuel'
+      ? {
+          combined: normalizeMpg(details.combA08),
+          city: normalizeMpg(details.cityA08),
+          highway: normalizeMpg(details.highwayA08),
+        }
+      : undefined;
+
   return {
     id: details.id,
     description: description || 'Gas selection',
@@ -527,15 +628,19 @@ function buildSelection(
     combE: parseFuelEconomyNumber(details.combE),
     efficiencies,
     efficiencyUnit: 'mpg',
+    gasVehicleFuel,
+    e85Efficiencies,
     source: 'FuelEconomy.gov',
   };
 }
 
 const MODE_ORDER: EfficiencyMode[] = ['combined', 'city', 'highway'];
-const MODE_LABELS: Record<EfficiencyMode, string> = {
+const RATING_MODE_ORDER: RatingMode[] = [...MODE_ORDER, 'split'];
+const MODE_LABELS: Record<RatingMode, string> = {
   combined: 'Combined',
   city: 'City',
   highway: 'Highway',
+  split: 'Custom split',
 };
 
 function normalizeMilesPerKwh(value?: string | number | null) {
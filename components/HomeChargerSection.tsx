@@ -0,0 +1,229 @@
+'use client';
+
+import { CalculatorInputs, ChargerAmortization, HomeChargerSettings } from '@/types';
+import { formatCurrency } from '@/lib/calculations';
+import {
+  CHARGER_AMORTIZATION_LABELS,
+  MAX_CHARGER_AMORTIZATION_YEARS,
+  calculateAnnualChargerCost,
+  calculateChargerCostPerMile,
+  calculateChargerGrossCost,
+  calculateChargerNetCost,
+  resolveChargerAmortizationYears,
+} from '@/lib/home-charger';
+import { applyIncentives } from '@/lib/incentives';
+import { formatCostPerDistance, getCurrencySymbol } from '@/lib/units';
+import Tooltip from './Tooltip';
+
+interface HomeChargerSectionProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+type CostField = keyof Pick<
+  HomeChargerSettings,
+  'hardwareCost' | 'installationCost' | 'panelUpgradeCost' | 'rebates'
+>;
+
+const COST_FIELDS: { key: CostField; label: string; tooltip: string }[] = [
+  {
+    key: 'hardwareCost',
+    label: 'Charger hardware',
+    tooltip: 'The Level 2 charger itself.',
+  },
+  {
+    key: 'installationCost',
+    label: 'Installation',
+    tooltip: 'Electrician, wiring run, and permit.',
+  },
+  {
+    key: 'panelUpgradeCost',
+    label: 'Panel upgrade',
+    tooltip: 'Leave at zero when your electrical panel has room for a 40–60 A circuit.',
+  },
+  {
+    key: 'rebates',
+    label: 'Other rebates',
+    tooltip: 'Rebates not matched in the incentives section, such as a manufacturer install credit.',
+  },
+];
+
+const AMORTIZATION_OPTIONS = Object.entries(CHARGER_AMORTIZATION_LABELS) as [
+  ChargerAmortization,
+  string,
+][];
+
+export default function HomeChargerSection({ inputs, onChange }: HomeChargerSectionProps) {
+  const settings = inputs.homeCharger;
+  const { currency } = inputs;
+  // Matched charger rebates are folded in the same way the results see them
+  const adjusted = applyIncentives(inputs);
+  const matchedRebates = adjusted.homeCharger.rebates - settings.rebates;
+  const grossCost = calculateChargerGrossCost(settings);
+  const netCost = calculateChargerNetCost(adjusted.homeCharger);
+  const annualCost = calculateAnnualChargerCost(adjusted);
+  const years = resolveChargerAmortizationYears(inputs);
+
+  const handleChange = (updates: Partial<HomeChargerSettings>) => {
+    onChange({ ...inputs, homeCharger: { ...settings, ...updates } });
+  };
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">Home charger</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">
+            Is the install worth it?
+          </h2>
+          <p className="text-sm text-slate-500">
+            Spread the cost of a Level 2 charger, its installation and any panel upgrade over a
+            period, and add it to every option that charges at home.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(event) => handleChange({ enabled: event.target.checked })}
+            className="accent-emerald-500"
+          />
+          Include in results
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <div className="mt-6 space-y-5">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {COST_FIELDS.map(({ key, label, tooltip }) => (
+              <div key={key}>
+                <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {label}
+                  <Tooltip content={tooltip} />
+                </label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min={0}
+                    step="50"
+                    value={settings[key]}
+                    onChange={(event) =>
+                      handleChange({
+                        [key]: Math.max(0, Math.min(20000, parseFloat(event.target.value) || 0)),
+                      })
+                    }
+                    className="form-input-shell pr-12"
+                  />
+                  <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                    {getCurrencySymbol(currency)}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                Spread over
+                <Tooltip content="A set number of years, or the same horizon as the multi-year projection." />
+              </div>
+              <div className="segmented-control">
+                {AMORTIZATION_OPTIONS.map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    className={`segmented-control__item ${
+                      settings.amortization === value ? 'is-active' : ''
+                    }`}
+                    onClick={() => handleChange({ amortization: value })}
+                    aria-pressed={settings.amortization === value}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {settings.amortization === 'years' ? (
+              <div className="w-[160px]">
+                <div className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Period
+                </div>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_CHARGER_AMORTIZATION_YEARS}
+                    step="1"
+                    value={settings.amortizationYears}
+                    onChange={(event) =>
+                      handleChange({
+                        amortizationYears: Math.max(
+                          1,
+                          Math.min(
+                            MAX_CHARGER_AMORTIZATION_YEARS,
+                            parseInt(event.target.value, 10) || 1
+                          )
+                        ),
+                      })
+                    }
+                    className="form-input-shell pr-12"
+                  />
+                  <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                    yr
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <p className="pb-2 text-sm text-slate-500">
+                {years} {years === 1 ? 'year' : 'years'}, set in the projection
+              </p>
+            )}
+          </div>
+
+          <div className="rounded-3xl border border-slate-100 bg-gradient-to-br from-slate-50 to-white p-5">
+            <div className="flex flex-wrap gap-6">
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Net install cost
+                </p>
+                <p className="text-2xl font-semibold text-slate-900">
+                  {formatCurrency(netCost, currency, 0)}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {formatCurrency(grossCost, currency, 0)} before rebates
+                  {matchedRebates > 0 &&
+                    ` · ${formatCurrency(matchedRebates, currency, 0)} matched in incentives`}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Per year
+                </p>
+                <p className="text-2xl font-semibold text-emerald-600">
+                  {formatCurrency(annualCost, currency, 0)}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {formatCurrency(annualCost / 12, currency)} a month
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Added to driving
+                </p>
+                <p className="text-2xl font-semibold text-slate-900">
+                  {formatCostPerDistance(calculateChargerCostPerMile(adjusted), inputs, 3)}
+                </p>
+                <p className="text-xs text-slate-500">at your daily distance</p>
+              </div>
+            </div>
+            <p className="mt-3 text-xs text-slate-500">
+              Added as a separate line to home charging and to the charging mix when it includes
+              home charging. Fast charging alone carries no charger cost.
+            </p>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
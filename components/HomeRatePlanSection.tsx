@@ -0,0 +1,571 @@
+'use client';
+
+import {
+  CalculatorInputs,
+  CurrencyCode,
+  HomeRatePlan,
+  RateTier,
+  TieredTariff,
+  TouPeriod,
+  TouTariff,
+} from '@/types';
+import {
+  TOU_PERIODS,
+  allocateChargingEnergy,
+  calculateMonthlyChargingKwh,
+  calculateTieredMonthlyBill,
+  resolveHomeElectricityPrice,
+} from '@/lib/tariffs';
+import { formatCurrency } from '@/lib/calculations';
+import { calculateDailyHomeChargingKwh } from '@/lib/charging';
+import { applyClimateAdjustment } from '@/lib/climate';
+import { getCurrencySymbol } from '@/lib/units';
+import Tooltip from './Tooltip';
+
+interface HomeRatePlanSectionProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+const PLAN_OPTIONS: { value: HomeRatePlan; label: string }[] = [
+  { value: 'flat', label: 'Flat rate' },
+  { value: 'tou', label: 'Time-of-use' },
+  { value: 'tiered', label: 'Tiered' },
+];
+
+const PERIOD_META: Record<TouPeriod, { label: string; cell: string; dot: string }> = {
+  peak: { label: 'Peak', cell: 'bg-rose-400', dot: 'bg-rose-400' },
+  offPeak: { label: 'Off-peak', cell: 'bg-amber-300', dot: 'bg-amber-300' },
+  superOffPeak: { label: 'Super off-peak', cell: 'bg-emerald-400', dot: 'bg-emerald-400' },
+};
+
+const MONTH_LABELS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => {
+  const suffix = hour < 12 ? 'am' : 'pm';
+  const display = hour % 12 === 0 ? 12 : hour % 12;
+  return `${display}${suffix}`;
+};
+
+export default function HomeRatePlanSection({ inputs, onChange }: HomeRatePlanSectionProps) {
+  const tariff = inputs.touTariff;
+  const seasonalInputs = applyClimateAdjustment(inputs);
+  const effectiveRate = resolveHomeElectricityPrice(seasonalInputs);
+  const dailyKwh = calculateDailyHomeChargingKwh(seasonalInputs);
+  const weekdayEnergy = allocateChargingEnergy(dailyKwh, tariff.weekdaySchedule, tariff);
+  const currencySymbol = getCurrencySymbol(inputs.currency);
+
+  const updateTariff = (updates: Partial<TouTariff>) => {
+    onChange({ ...inputs, touTariff: { ...tariff, ...updates } });
+  };
+
+  const handleRateChange = (
+    season: 'summerRates' | 'winterRates',
+    period: TouPeriod,
+    value: number
+  ) => {
+    updateTariff({
+      [season]: {
+        ...tariff[season],
+        [period]: Math.max(0, Math.min(2, value)),
+      },
+    });
+  };
+
+  const toggleSummerMonth = (month: number) => {
+    const summerMonths = tariff.summerMonths.includes(month)
+      ? tariff.summerMonths.filter((item) => item !== month)
+      : [...tariff.summerMonths, month].sort((a, b) => a - b);
+    updateTariff({ summerMonths });
+  };
+
+  const cycleSchedulePeriod = (
+    schedule: 'weekdaySchedule' | 'weekendSchedule',
+    hour: number
+  ) => {
+    const current = tariff[schedule][hour];
+    const next = TOU_PERIODS[(TOU_PERIODS.indexOf(current) + 1) % TOU_PERIODS.length];
+    const updated = [...tariff[schedule]];
+    updated[hour] = next;
+    updateTariff({ [schedule]: updated });
+  };
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">Home rate plan</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">
+            How your utility bills home charging
+          </h2>
+          <p className="text-sm text-slate-500">
+            On a time-of-use plan, the price depends on when your car actually draws power. On a
+            tiered plan, EV charging is billed at the higher tiers it pushes your household into.
+          </p>
+        </div>
+        <div className="segmented-control">
+          {PLAN_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={`segmented-control__item ${
+                inputs.homeRatePlan === option.value ? 'is-active' : ''
+              }`}
+              onClick={() => onChange({ ...inputs, homeRatePlan: option.value })}
+              aria-pressed={inputs.homeRatePlan === option.value}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-6 rounded-2xl border border-slate-100 bg-slate-50 px-4 py-3 text-sm text-slate-600">
+        Effective home charging rate:{' '}
+        <span className="font-semibold text-slate-900">
+          {formatCurrency(effectiveRate, inputs.currency, 3)}/kWh
+        </span>
+        {inputs.homeRatePlan === 'flat' && ' · from the home charging rate in Prices'}
+        {inputs.homeRatePlan === 'tiered' && ' · marginal cost of the EV\'s kWh'}
+      </div>
+
+      {inputs.homeRatePlan === 'tiered' && (
+        <TieredTariffEditor
+          tariff={inputs.tieredTariff}
+          evMonthlyKwh={calculateMonthlyChargingKwh(seasonalInputs)}
+          currency={inputs.currency}
+          onChange={(tieredTariff) => onChange({ ...inputs, tieredTariff })}
+        />
+      )}
+
+      {inputs.homeRatePlan === 'tou' && (
+        <div className="mt-6 grid gap-4 lg:grid-cols-2">
+          <div className="space-y-5 rounded-3xl border border-slate-100 bg-white/80 p-5 shadow-sm shadow-slate-900/5">
+            <div>
+              <p className="mb-3 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                Rates ({currencySymbol} / kWh)
+              </p>
+              <div className="grid grid-cols-[auto,1fr,1fr,1fr] items-center gap-2 text-xs">
+                <span />
+                {TOU_PERIODS.map((period) => (
+                  <span key={period} className="font-semibold text-slate-500">
+                    {PERIOD_META[period].label}
+                  </span>
+                ))}
+                {(['summerRates', 'winterRates'] as const).map((season) => (
+                  <RateRow
+                    key={season}
+                    label={season === 'summerRates' ? 'Summer' : 'Winter'}
+                    rates={tariff[season]}
+                    onChange={(period, value) => handleRateChange(season, period, value)}
+                  />
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                Summer months
+                <Tooltip content="Months billed at summer rates. All other months use winter rates." />
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {MONTH_LABELS.map((label, index) => {
+                  const month = index + 1;
+                  const isActive = tariff.summerMonths.includes(month);
+                  return (
+                    <button
+                      key={month}
+                      type="button"
+                      onClick={() => toggleSummerMonth(month)}
+                      aria-pressed={isActive}
+                      className={`h-8 w-8 rounded-full border text-xs font-semibold transition ${
+                        isActive
+                          ? 'border-amber-400 bg-amber-50 text-amber-700'
+                          : 'border-slate-200 bg-white text-slate-500 hover:border-slate-300'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-5 rounded-3xl border border-slate-100 bg-white/80 p-5 shadow-sm shadow-slate-900/5">
+            <div>
+              <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                Schedule
+                <Tooltip content="Click an hour to cycle it between peak, off-peak, and super off-peak." />
+              </div>
+              {(['weekdaySchedule', 'weekendSchedule'] as const).map((schedule) => (
+                <div key={schedule} className="mb-3">
+                  <p className="mb-1 text-xs text-slate-500">
+                    {schedule === 'weekdaySchedule' ? 'Weekdays' : 'Weekends'}
+                  </p>
+                  <div className="grid grid-cols-[repeat(24,minmax(0,1fr))] gap-0.5">
+                    {HOURS.map((hour) => (
+                      <button
+                        key={hour}
+                        type="button"
+                        title={`${formatHour(hour)} · ${PERIOD_META[tariff[schedule][hour]].label}`}
+                        onClick={() => cycleSchedulePeriod(schedule, hour)}
+                        className={`h-6 rounded-sm ${PERIOD_META[tariff[schedule][hour]].cell}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <div className="flex items-center justify-between text-[11px] text-slate-400">
+                <span>12am</span>
+                <span>6am</span>
+                <span>12pm</span>
+                <span>6pm</span>
+                <span>12am</span>
+              </div>
+              <div className="mt-2 flex flex-wrap gap-3 text-xs text-slate-500">
+                {TOU_PERIODS.map((period) => (
+                  <span key={period} className="inline-flex items-center gap-1">
+                    <span className={`h-2 w-2 rounded-full ${PERIOD_META[period].dot}`} />
+                    {PERIOD_META[period].label}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <HourSelect
+                label="Charge from"
+                value={tariff.chargingStartHour}
+                onChange={(hour) => updateTariff({ chargingStartHour: hour })}
+              />
+              <HourSelect
+                label="Charge until"
+                value={tariff.chargingEndHour}
+                onChange={(hour) => updateTariff({ chargingEndHour: hour })}
+              />
+              <div>
+                <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Charger
+                  <Tooltip content="Charger power in kW. Level 1 is about 1.4 kW; Level 2 is usually 7–11 kW." />
+                </div>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min={0.5}
+                    step="0.1"
+                    value={tariff.chargerPowerKw}
+                    onChange={(event) =>
+                      updateTariff({
+                        chargerPowerKw: Math.max(0.5, Math.min(20, parseFloat(event.target.value) || 0)),
+                      })
+                    }
+                    className="form-input-shell pr-10"
+                  />
+                  <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                    kW
+                  </span>
+                </div>
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              A typical weekday draws {dailyKwh.toFixed(1)} kWh from the meter:{' '}
+              {TOU_PERIODS.filter((period) => weekdayEnergy[period] > 0)
+                .map(
+                  (period) =>
+                    `${weekdayEnergy[period].toFixed(1)} kWh ${PERIOD_META[period].label.toLowerCase()}`
+                )
+                .join(' · ') || 'no charging needed'}
+              .
+            </p>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function TieredTariffEditor({
+  tariff,
+  evMonthlyKwh,
+  currency,
+  onChange,
+}: {
+  tariff: TieredTariff;
+  evMonthlyKwh: number;
+  currency: CurrencyCode;
+  onChange: (tariff: TieredTariff) => void;
+}) {
+  const currencySymbol = getCurrencySymbol(currency);
+  const billWithoutEv = calculateTieredMonthlyBill(tariff, tariff.householdKwh);
+  const billWithEv = calculateTieredMonthlyBill(
+    tariff,
+    tariff.householdKwh + evMonthlyKwh,
+    true
+  );
+  const averageRate =
+    tariff.householdKwh + evMonthlyKwh > 0
+      ? billWithEv / (tariff.householdKwh + evMonthlyKwh)
+      : 0;
+
+  const updateTier = (index: number, updates: Partial<RateTier>) => {
+    onChange({
+      ...tariff,
+      tiers: tariff.tiers.map((tier, tierIndex) =>
+        tierIndex === index ? { ...tier, ...updates } : tier
+      ),
+    });
+  };
+
+  const addTier = () => {
+    const lastTier = tariff.tiers[tariff.tiers.length - 1];
+    const previousCeiling = tariff.tiers
+      .map((tier) => tier.upToKwh ?? 0)
+      .reduce((max, value) => Math.max(max, value), 0);
+    const tiers = tariff.tiers.map((tier, index) =>
+      index === tariff.tiers.length - 1 && tier.upToKwh === null
+        ? { ...tier, upToKwh: previousCeiling + 500 }
+        : tier
+    );
+    onChange({
+      ...tariff,
+      tiers: [...tiers, { upToKwh: null, rate: lastTier ? lastTier.rate + 0.05 : 0.15 }],
+    });
+  };
+
+  const removeTier = (index: number) => {
+    const tiers = tariff.tiers.filter((_, tierIndex) => tierIndex !== index);
+    if (tiers.length) {
+      tiers[tiers.length - 1] = { ...tiers[tiers.length - 1], upToKwh: null };
+    }
+    onChange({ ...tariff, tiers });
+  };
+
+  const updateNumber = (
+    field: 'householdKwh' | 'fixedMonthlyCharge' | 'evPlanMonthlyFee',
+    value: number
+  ) => {
+    onChange({ ...tariff, [field]: Math.max(0, value) });
+  };
+
+  return (
+    <div className="mt-6 grid gap-4 lg:grid-cols-2">
+      <div className="space-y-3 rounded-3xl border border-slate-100 bg-white/80 p-5 shadow-sm shadow-slate-900/5">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Tiers
+            <Tooltip content="Each tier's rate applies to monthly usage up to its ceiling. The last tier covers everything above." />
+          </div>
+          <button
+            type="button"
+            onClick={addTier}
+            className="rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 hover:border-slate-300 hover:bg-slate-50"
+          >
+            Add tier
+          </button>
+        </div>
+        {tariff.tiers.map((tier, index) => {
+          const isLast = index === tariff.tiers.length - 1;
+          return (
+            <div key={index} className="grid grid-cols-[1fr,1fr,auto] items-end gap-2">
+              <div>
+                <label className="mb-1 block text-[11px] font-semibold text-slate-500">
+                  Tier {index + 1} up to
+                </label>
+                {isLast ? (
+                  <p className="form-input-shell text-slate-400">No limit</p>
+                ) : (
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min={0}
+                      step="50"
+                      value={tier.upToKwh ?? 0}
+                      onChange={(event) =>
+                        updateTier(index, { upToKwh: Math.max(0, parseFloat(event.target.value) || 0) })
+                      }
+                      className="form-input-shell pr-20"
+                    />
+                    <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                      kWh/mo
+                    </span>
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="mb-1 block text-[11px] font-semibold text-slate-500">Rate</label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={tier.rate}
+                    onChange={(event) =>
+                      updateTier(index, { rate: Math.max(0, Math.min(2, parseFloat(event.target.value) || 0)) })
+                    }
+                    className="form-input-shell pr-20"
+                  />
+                  <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                    {currencySymbol} / kWh
+                  </span>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => removeTier(index)}
+                disabled={tariff.tiers.length <= 1}
+                className="mb-1 rounded-full border border-slate-200 px-2 py-1 text-xs font-semibold text-slate-500 hover:border-slate-300 disabled:cursor-not-allowed disabled:opacity-40"
+                aria-label={`Remove tier ${index + 1}`}
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-4 rounded-3xl border border-slate-100 bg-white/80 p-5 shadow-sm shadow-slate-900/5">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <TariffNumberField
+            label="Household use"
+            tooltip="Monthly usage without the EV, from your utility bill."
+            suffix="kWh/mo"
+            step="50"
+            value={tariff.householdKwh}
+            onChange={(value) => updateNumber('householdKwh', value)}
+          />
+          <TariffNumberField
+            label="Fixed charge"
+            tooltip="Monthly customer or service charge. You pay it with or without the EV."
+            suffix={`${currencySymbol}/mo`}
+            step="1"
+            value={tariff.fixedMonthlyCharge}
+            onChange={(value) => updateNumber('fixedMonthlyCharge', value)}
+          />
+          <TariffNumberField
+            label="EV plan fee"
+            tooltip="Extra monthly fee for an EV rate plan or separate EV meter. Counted against EV charging."
+            suffix={`${currencySymbol}/mo`}
+            step="1"
+            value={tariff.evPlanMonthlyFee}
+            onChange={(value) => updateNumber('evPlanMonthlyFee', value)}
+          />
+        </div>
+        <dl className="space-y-1 text-sm text-slate-600">
+          <div className="flex items-center justify-between gap-2">
+            <dt>Bill without EV</dt>
+            <dd className="font-semibold text-slate-900">{formatCurrency(billWithoutEv, currency)}</dd>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <dt>Bill with EV (+{evMonthlyKwh.toFixed(0)} kWh)</dt>
+            <dd className="font-semibold text-slate-900">{formatCurrency(billWithEv, currency)}</dd>
+          </div>
+          <div className="flex items-center justify-between gap-2 border-t border-slate-200 pt-1">
+            <dt>Average rate on the bill</dt>
+            <dd className="font-semibold text-slate-900">
+              {formatCurrency(averageRate, currency, 3)}/kWh
+            </dd>
+          </div>
+        </dl>
+        <p className="text-xs text-slate-500">
+          The average rate blends cheap baseline usage into every kWh. EV charging is priced at
+          the marginal rate instead, since it is the usage that lands in the upper tiers.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function TariffNumberField({
+  label,
+  tooltip,
+  suffix,
+  step,
+  value,
+  onChange,
+}: {
+  label: string;
+  tooltip: string;
+  suffix: string;
+  step: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div>
+      <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+        {label}
+        <Tooltip content={tooltip} />
+      </div>
+      <div className="relative">
+        <input
+          type="number"
+          min={0}
+          step={step}
+          value={value}
+          onChange={(event) => onChange(parseFloat(event.target.value) || 0)}
+          className="form-input-shell pr-20"
+        />
+        <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+          {suffix}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function RateRow({
+  label,
+  rates,
+  onChange,
+}: {
+  label: string;
+  rates: Record<TouPeriod, number>;
+  onChange: (period: TouPeriod, value: number) => void;
+}) {
+  return (
+    <>
+      <span className="pr-2 font-semibold text-slate-600">{label}</span>
+      {TOU_PERIODS.map((period) => (
+        <input
+          key={period}
+          type="number"
+          min={0}
+          step="0.01"
+          value={rates[period]}
+          onChange={(event) => onChange(period, parseFloat(event.target.value) || 0)}
+          className="form-input-shell"
+          aria-label={`${label} ${PERIOD_META[period].label} rate`}
+        />
+      ))}
+    </>
+  );
+}
+
+function HourSelect({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (hour: number) => void;
+}) {
+  return (
+    <div>
+      <label className="mb-1 block text-xs font-semibold uppercase tracking-wide text-slate-500">
+        {label}
+      </label>
+      <select
+        value={value}
+        onChange={(event) => onChange(parseInt(event.target.value, 10))}
+        className="w-full rounded-2xl border border-slate-200 bg-white/80 px-3 py-2 text-sm text-slate-800"
+      >
+        {HOURS.map((hour) => (
+          <option key={hour} value={hour}>
+            {formatHour(hour)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import { CalculatorInputs, CostOption, CostOptionKey, HouseholdVehicle } from '@/types';
+import { formatCurrency } from '@/lib/calculations';
+import {
+  MAX_HOUSEHOLD_VEHICLES,
+  calculateHousehold,
+  createHouseholdVehicle,
+} from '@/lib/household';
+import { getCostOptions } from '@/lib/vehicles';
+import {
+  UNIT_LABELS,
+  fromDisplayDistance,
+  roundForInput,
+  toDisplayDistance,
+} from '@/lib/units';
+import Tooltip from './Tooltip';
+
+interface HouseholdSectionProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+// Value of the replacement select when the vehicle is kept
+const KEEP = '';
+
+export default function HouseholdSection({ inputs, onChange }: HouseholdSectionProps) {
+  const household = inputs.household;
+  const { currency, unitSystem } = inputs;
+  const options = getCostOptions(inputs);
+  const result = calculateHousehold(inputs);
+  const energyChange = result.plannedEnergyCost - result.currentEnergyCost;
+  const totalChange = result.plannedTotalCost - result.currentTotalCost;
+  const canAdd = household.length < MAX_HOUSEHOLD_VEHICLES;
+
+  const updateVehicle = (id: string, updates: Partial<HouseholdVehicle>) => {
+    onChange({
+      ...inputs,
+      household: household.map((vehicle) =>
+        vehicle.id === id ? { ...vehicle, ...updates } : vehicle
+      ),
+    });
+  };
+
+  const addVehicle = () => {
+    onChange({ ...inputs, household: [...household, createHouseholdVehicle(inputs)] });
+  };
+
+  const removeVehicle = (id: string) => {
+    onChange({ ...inputs, household: household.filter((vehicle) => vehicle.id !== id) });
+  };
+
+  const formatChange = (change: number) =>
+    `${change > 0 ? '+' : change < 0 ? '−' : ''}${formatCurrency(Math.abs(change), currency, 0)}`;
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">Household</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">
+            Replace one car, not all of them
+          </h2>
+          <p className="text-sm text-slate-500">
+            List the vehicles your household drives, how far each goes in a year and how it is
+            powered today, then pick which ones to replace to see the combined energy cost.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={addVehicle}
+          disabled={!canAdd}
+          className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Add vehicle
+        </button>
+      </div>
+
+      {household.length > 0 && (
+        <div className="mt-6 space-y-5">
+          <div className="space-y-3">
+            {result.vehicles.map(({ vehicle, current, planned, currentOption, plannedOption }) => (
+              <div
+                key={vehicle.id}
+                className="grid items-end gap-4 rounded-3xl border border-slate-100 bg-white/80 p-5 shadow-sm shadow-slate-900/5 md:grid-cols-[1fr,0.8fr,1.2fr,1.2fr,auto]"
+              >
+                <div>
+                  <label className="mb-1 block text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={vehicle.name}
+                    maxLength={40}
+                    onChange={(event) => updateVehicle(vehicle.id, { name: event.target.value })}
+                    className="form-input-shell"
+                  />
+                </div>
+                <div>
+                  <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    Per year
+                    <Tooltip content="How far this vehicle is driven in a year." />
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min={0}
+                      step="500"
+                      value={roundForInput(toDisplayDistance(vehicle.annualDistance, unitSystem), 0)}
+                      onChange={(event) =>
+                        updateVehicle(vehicle.id, {
+                          annualDistance: Math.max(
+                            0,
+                            Math.min(
+                              100000,
+                              fromDisplayDistance(parseFloat(event.target.value) || 0, unitSystem)
+                            )
+                          ),
+                        })
+                      }
+                      className="form-input-shell pr-12"
+                    />
+                    <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                      {UNIT_LABELS[unitSystem].distance}
+                    </span>
+                  </div>
+                </div>
+                <OptionSelect
+                  label="Today"
+                  tooltip="The candidate closest to this vehicle and the fuel it uses. Add it under More vehicles if none fits."
+                  value={currentOption.key}
+                  options={options}
+                  onChange={(value) => updateVehicle(vehicle.id, { current: value })}
+                />
+                <OptionSelect
+                  label="Replace with"
+                  tooltip="Keep the vehicle, or the option it is replaced with."
+                  value={vehicle.replacement === null ? KEEP : plannedOption.key}
+                  options={options}
+                  keepLabel="Keep it"
+                  onChange={(value) =>
+                    updateVehicle(vehicle.id, { replacement: value === KEEP ? null : value })
+                  }
+                />
+                <button
+                  type="button"
+                  onClick={() => removeVehicle(vehicle.id)}
+                  className="mb-2 rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-500 hover:border-slate-300"
+                  aria-label={`Remove ${vehicle.name}`}
+                >
+                  ✕
+                </button>
+                <p className="text-xs text-slate-500 md:col-span-5">
+                  {currentOption.label}: {formatCurrency(current.fuelCost, currency, 0)} a year
+                  {vehicle.replacement !== null &&
+                    ` → ${plannedOption.label}: ${formatCurrency(planned.fuelCost, currency, 0)} (${formatChange(
+                      planned.fuelCost - current.fuelCost
+                    )})`}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="rounded-3xl border border-slate-100 bg-gradient-to-br from-slate-50 to-white p-5">
+            <div className="flex flex-wrap gap-6">
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Energy today
+                </p>
+                <p className="text-2xl font-semibold text-slate-900">
+                  {formatCurrency(result.currentEnergyCost, currency, 0)}
+                </p>
+                <p className="text-xs text-slate-500">a year, all vehicles</p>
+              </div>
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  After replacing
+                </p>
+                <p className="text-2xl font-semibold text-slate-900">
+                  {formatCurrency(result.plannedEnergyCost, currency, 0)}
+                </p>
+                <p className="text-xs text-slate-500">a year, all vehicles</p>
+              </div>
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Change
+                </p>
+                <p
+                  className={`text-2xl font-semibold ${
+                    energyChange < 0 ? 'text-emerald-600' : 'text-slate-900'
+                  }`}
+                >
+                  {formatChange(energyChange)}
+                </p>
+                <p className="text-xs text-slate-500">a year in energy</p>
+              </div>
+              {inputs.includeOwnershipCosts && (
+                <div>
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    With ownership
+                  </p>
+                  <p className="text-2xl font-semibold text-slate-900">
+                    {formatChange(totalChange)}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {formatCurrency(result.currentTotalCost, currency, 0)} →{' '}
+                    {formatCurrency(result.plannedTotalCost, currency, 0)} a year
+                  </p>
+                </div>
+              )}
+            </div>
+            <p className="mt-3 text-xs text-slate-500">
+              Each vehicle is priced at its own distance with the same energy prices, charging mix,
+              and seasonal efficiency as the rest of the calculator. Home charging for all of them
+              is priced together on one meter, so on time-of-use and tiered plans a new EV can
+              raise what the others pay. A shared home charger is counted once.
+            </p>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function OptionSelect({
+  label,
+  tooltip,
+  value,
+  options,
+  keepLabel,
+  onChange,
+}: {
+  label: string;
+  tooltip: string;
+  value: CostOptionKey;
+  options: CostOption[];
+  keepLabel?: string;
+  onChange: (value: CostOptionKey) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1">
+      <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+        {label}
+        <Tooltip content={tooltip} />
+      </label>
+      <select
+        value={value}
+        onChange={(event) => onChange(event.target.value as CostOptionKey)}
+        className="rounded-2xl border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-900"
+      >
+        {keepLabel && <option value={KEEP}>{keepLabel}</option>}
+        {options.map((option) => (
+          <option key={option.key} value={option.key}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -8,23 +8,91 @@ export default function HowItWorks() {
   const faqs = [
     {
       question: 'Are these costs accurate?',
-      answer: 'The calculator uses EPA-rated efficiency values and real-world pricing data. However, actual costs may vary based on driving habits, weather conditions, and local pricing fluctuations. This calculator focuses on fuel/charging costs only and does not include maintenance, insurance, or purchase price.',
+      answer: 'The calculator uses EPA-rated efficiency values and real-world pricing data. However, actual costs may vary based on driving habits, weather conditions, and local pricing fluctuations. By default results cover fuel/charging costs only; turn on ownership costs to include purchase price, insurance, and maintenance.',
     },
     {
       question: 'What about maintenance, insurance, and purchase price?',
-      answer: 'This calculator focuses specifically on fuel and charging costs. For a complete comparison, you should also consider: vehicle purchase price, maintenance costs (EVs typically have lower maintenance), insurance rates, tax incentives, and resale value. EVs often have higher upfront costs but lower operating costs.',
+      answer: 'Turn on "Include in results" in the Total cost of ownership section to add depreciation (purchase price minus resale value), insurance, per-mile maintenance, registration, and loan interest for each vehicle. Fixed yearly costs are prorated to the selected timeframe, so daily and weekly totals include their share. EVs often have higher upfront costs but lower operating costs.',
     },
     {
       question: 'How accurate is the home vs fast charging comparison?',
-      answer: 'Most EV owners charge 80-90% of the time at home, which is much cheaper. Fast charging is typically used for road trips or emergencies. The calculator shows both scenarios so you can see the best-case (home) and worst-case (fast charging) costs. Your actual costs will likely fall somewhere in between.',
+      answer: 'Most EV owners charge 80-90% of the time at home, which is much cheaper. Fast charging is typically used for road trips or emergencies. The calculator shows both scenarios so you can see the best-case (home) and worst-case (fast charging) costs. Enter your own charging mix (home, workplace, public Level 2, and DC fast) to get the "EV (Your mix)" cost, which weights each rate by how much energy you get there.',
+    },
+    {
+      question: 'What about diesel and flex-fuel vehicles?',
+      answer: 'Pick the fuel your gas vehicle uses. Diesel vehicles are priced with diesel only. Flex-fuel vehicles are compared on regular gas and on E85, using the lower E85 mpg from FuelEconomy.gov, since E85 is cheaper per gallon but carries less energy. Looking up a vehicle sets its fuel automatically. Price lookups fill in midgrade and diesel from AAA; when a table has no E85 column, E85 is estimated from the regular price.',
+    },
+    {
+      question: 'How are plug-in hybrids handled?',
+      answer: 'Turn on the plug-in hybrid section to add a PHEV as its own option. It uses the charge-depleting efficiency (mi/kWh) for electric miles and the charge-sustaining mpg for the rest. By default the share of electric miles comes from the EPA utility factor for its electric range; if you know how often you plug in, enter your own share instead. Electric miles are priced at your home charging rate and gas miles at the price of the gas grade you pick for it, regular by default.',
+    },
+    {
+      question: 'Can I compare more than one EV or gas car?',
+      answer: 'Yes. Use the More vehicles section to add other EVs or gas vehicles you are considering, up to six. Each one gets its own efficiency, fuel type, and ownership costs, and is priced with the same energy prices, charging mix, and driving distance as your main vehicles. The payback and break-even views let you pick which EV and gas vehicle to compare.',
+    },
+    {
+      question: 'How sure is the result?',
+      answer: 'Turn on Show ranges under the summary to add uncertainty bands. Give a ± % range for fuel prices, electricity prices, efficiency, and yearly distance, and pick how values spread across each range. The calculator draws 5,000 samples and shows the P10, P50, and P90 yearly cost for every option, plus the share of samples where the EV option you pick, your charging mix by default, beats the best gas option. Fixed ownership costs like insurance and depreciation are held constant.',
+    },
+    {
+      question: 'What if we only replace one of our cars?',
+      answer: 'Use the household section. Add each vehicle your household drives with how far it goes in a year and the option closest to how it runs today, such as the gas car on regular, then pick what to replace it with or keep it. Add a vehicle under More vehicles first if none of the options fits. Each vehicle is priced for a year at its own distance with the same prices and settings as the rest of the calculator, and the section adds them up to show the combined energy cost before and after. Home charging is priced once for the household\'s combined kWh, so on time-of-use and tiered plans every vehicle pays the rate their shared meter lands on. With ownership costs included it shows those totals too, counting a shared home charger once.',
+    },
+    {
+      question: 'Do road trips erase the savings?',
+      answer: 'The road trip section plans a one-off trip for the EV and gas vehicle you pick. The EV leaves home at your departure charge and drives down to your arrival level, then fast charges up to your charge-to level as often as needed; the last stop only adds what the rest of the trip takes. Each stop is timed along the same charging curve and billed with the same tariff as the fast charging section, and the charge used from home is priced at your home rate. The gas vehicle leaves with a full tank. Multiply the difference by your trips a year to see how much of the everyday savings they give back.',
+    },
+    {
+      question: 'Is a charging network membership worth it?',
+      answer: 'Under the fast charging section, enter the membership\'s monthly fee and member rate per kWh. The member rate replaces the pay-as-you-go tariff for the same typical stop, with session and idle fees still charged, and the difference in effective rate sets how many kWh a month it takes to recover the fee. Your monthly fast-charging kWh come from your daily distance, EV efficiency, and the fast-charging share of your charging mix. The card recommends joining when you use more than that; it does not change the results.',
+    },
+    {
+      question: 'How is per-minute fast charging priced?',
+      answer: 'The fast charging section describes a typical stop: battery size, the most power your EV and the station handle, and the state of charge you arrive and leave at. A generic charging curve ramps up, holds peak power to about 50%, then tapers, so the stop is timed 1% at a time. Per-minute networks bill each minute at the tier for the power being drawn; per-kWh networks bill metered energy at the fast charging rate. A membership discount comes off either, and session and idle fees are added. The session cost divided by metered kWh is the effective rate used for fast charging everywhere, including the break-even explorer.',
+    },
+    {
+      question: 'Do costs change as the vehicles get older?',
+      answer: 'Turn on the vehicle aging section to set, per vehicle, how much efficiency is lost each year and, for EVs and plug-in hybrids, how much battery capacity fades. Both compound from the first year. Lower efficiency raises energy cost, and a plug-in hybrid\'s shrinking electric range moves miles onto gas. You can also plan a battery replacement at a chosen year or odometer reading: its cost lands in that year, and the new pack restores capacity and efficiency. Aging shows up in the multi-year projection and payback; the single-year scenarios stay at year-one values.',
+    },
+    {
+      question: 'What about the cost of installing a home charger?',
+      answer: 'Turn on the home charger section and enter the charger, installation, and any panel upgrade, less rebates. With incentive matching on, matched utility and federal charger rebates come off too. The net cost is spread evenly over a set number of years or over the projection horizon and shows as its own line on home charging and on the charging mix when it includes home charging. Payback adds the whole net cost to the EV\'s premium, since it is paid up front, and the break-even explorer lowers the home break-even rate by the charger\'s cost per mile.',
+    },
+    {
+      question: 'How does home solar change the charging cost?',
+      answer: 'Turn on the home solar section and give your system size, how much of its output the rest of the house uses, and how much of your home charging happens while the panels produce. Monthly production comes from bundled regional profiles by latitude band for a south-facing array, so nearby states share the same yields. Solar covers the overlapping charging up to what the house leaves over, and each solar kWh is priced at what exporting it would have earned: the full retail rate under net metering, or your export rate otherwise. The blend of solar and grid kWh becomes the home charging rate everywhere in the results.',
+    },
+    {
+      question: 'How are loans and leases handled?',
+      answer: 'Each vehicle in the ownership section can be paid in cash, financed with a loan, or leased. Loans use a standard amortized payment on the price less incentives and the down payment, and their interest counts only while the loan runs. Leases use the usual depreciation fee plus rent charge, where the money factor sets the rent and incentives and the amount due at signing lower the capitalized cost. With ownership costs included, lease fees replace depreciation, rent replaces loan interest, and driving past the mileage allowance adds overage fees. The true monthly cost table under the summary adds each payment to the monthly energy cost.',
+    },
+    {
+      question: 'Which incentives do I qualify for?',
+      answer: 'The incentives section checks a bundled list of federal tax credits, state rebates, and utility charger rebates against your state, utility, new or used purchase, EV price, model year, household income, and purchase date. The price lookup fills in your state and the vehicle lookup fills in your EV. With Include in results on, eligible amounts come off the purchase price of every EV and plug-in hybrid in ownership costs and payback, checked against the model picked in each vehicle\'s lookup, and matched charger rebates come off the home charger\'s install cost. The list is dated and programs change often, so confirm with each provider before you buy.',
+    },
+    {
+      question: 'Which input matters most?',
+      answer: 'The sensitivity chart moves each input down and up by 10, 20, or 30% while holding everything else fixed, and measures how the yearly gap in the hero figure changes. Inputs are sorted by how far they swing the gap, so the top bar is the one worth pinning down first. Gas price scales every fuel, home electricity scales every rate in your home plan, and purchase price and maintenance only show up when ownership costs are included.',
+    },
+    {
+      question: 'Can I use kilometres, litres, or another currency?',
+      answer: 'Yes. The unit switch at the top of the inputs shows distances in kilometres, fuel economy in L/100km, EV efficiency in kWh/100km, and fuel prices per litre, and the currency menu sets the symbol used for every price. The currency setting does not convert amounts, so enter prices in the currency you picked. The price lookup fills in U.S. ZIP codes in U.S. dollars and Canadian postal codes in Canadian dollars, and a Canadian lookup switches the display to CAD and metric units.',
+    },
+    {
+      question: 'Does this include charging losses?',
+      answer: 'Yes. Some energy is lost as heat between the wall and the battery, and you pay for what the meter records. By default the calculator assumes 15% loss on Level 1, 10% on Level 2, and 7% on DC fast charging. Pick your home charger level and adjust the loss percentages under Charging; cost per mile and break-even electricity rates account for them.',
     },
     {
       question: 'Does this account for cold weather impact on EVs?',
-      answer: 'The calculator uses EPA-rated efficiency values, which are tested under standard conditions. In cold weather, EV efficiency can drop by 20-40% due to battery heating needs. Gas vehicles also see reduced efficiency in cold weather, typically 10-20%. For accurate cold-weather comparisons, you may want to adjust efficiency values manually.',
+      answer: 'Yes, if you turn on seasonal efficiency. EPA ratings are measured under mild conditions. In cold weather, EV efficiency can drop by 20-40% due to cabin and battery heating, while gas vehicles typically lose 10-20%. The calculator derates both vehicles month by month using statewide temperature normals for your location (set automatically by the ZIP price lookup) and uses the resulting seasonal averages in every scenario.',
     },
     {
       question: 'What about time-of-use electricity rates?',
-      answer: 'Many utilities offer time-of-use rates where electricity is cheaper during off-peak hours (often overnight). The calculator uses average residential rates. If you have time-of-use rates and charge during off-peak hours, your actual costs may be even lower than shown.',
+      answer: 'Many utilities offer time-of-use rates where electricity is cheaper during off-peak hours (often overnight). Switch the home rate plan to time-of-use and enter your peak, off-peak, and super off-peak rates, weekday and weekend schedules, summer months, and charging window. The calculator works out how many kWh your car draws in each period and prices home charging at the resulting effective rate. Only the charging done at home counts, with each vehicle\'s own efficiency: the home share of the charging mix, all of it for home charging only, or a plug-in hybrid\'s electric miles.',
+    },
+    {
+      question: 'What if my utility bills in tiers?',
+      answer: 'On tiered plans the first block of usage each month is cheap and usage above it costs more. Because EV charging is added on top of your household usage, it lands in the upper tiers. Choose the tiered home rate plan and enter your tiers, household usage, and any fixed or EV plan fees; the calculator prices charging at the marginal cost of the extra kWh rather than the state average rate returned by the price lookup.',
     },
   ];
 
@@ -68,6 +136,9 @@ export default function HowItWorks() {
               <li>
                 <strong>Cost calculation:</strong> (Distance ÷ Efficiency) × Price per unit = Total Cost. Cost per mile = Price ÷ Efficiency.
               </li>
+              <li>
+                <strong>Ownership costs:</strong> Optionally add depreciation, insurance, maintenance, registration, and loan interest to see total cost of ownership.
+              </li>
               <li>
                 <strong>Break-even explorer:</strong> Interactive chart shows when EV charging costs match gas prices. Use sliders to test different electricity rates.
               </li>
@@ -94,7 +165,7 @@ export default function HowItWorks() {
                 <strong>Price sources:</strong> Electricity rates from EIA state averages (with fallbacks). Gas prices from AAA state/national averages.
               </li>
               <li>
-                <strong>Gap analysis:</strong> Compare EV home charging costs against any baseline (EV fast, gas regular, or gas premium).
+                <strong>Gap analysis:</strong> Compare EV home charging costs against any baseline (EV fast, your charging mix, gas regular, or gas premium).
               </li>
               <li>
                 <strong>Break-even visualization:</strong> Interactive chart with zoom, pan, and price testing sliders to find cost parity points.
@@ -0,0 +1,317 @@
+'use client';
+
+import { CalculatorInputs, IncentiveSettings, TaxFilingStatus, VehicleCondition } from '@/types';
+import { formatCurrency } from '@/lib/calculations';
+import { CLIMATE_REGIONS } from '@/lib/climate';
+import { calculateChargerGrossCost } from '@/lib/home-charger';
+import {
+  INCENTIVE_DATA_VERSION,
+  INCENTIVE_LEVEL_LABELS,
+  IncentiveMatch,
+  IncentiveStatus,
+  TAX_FILING_STATUS_LABELS,
+  getUtilitiesForState,
+  summarizeEvIncentives,
+} from '@/lib/incentives';
+import { CANADIAN_PROVINCE_NAMES } from '@/lib/postal-codes';
+import { getCurrencySymbol } from '@/lib/units';
+import Tooltip from './Tooltip';
+
+interface IncentivesSectionProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+const STATE_OPTIONS = Object.entries(CLIMATE_REGIONS)
+  .filter(([code]) => code !== 'US')
+  .sort(([, a], [, b]) => a.name.localeCompare(b.name));
+
+const CONDITIONS: { value: VehicleCondition; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'used', label: 'Used' },
+];
+
+const STATUS_STYLES: Record<IncentiveStatus, { label: string; className: string }> = {
+  eligible: { label: 'Eligible', className: 'bg-emerald-50 text-emerald-700' },
+  needsInfo: { label: 'Needs info', className: 'bg-amber-50 text-amber-700' },
+  ineligible: { label: 'Not eligible', className: 'bg-slate-100 text-slate-500' },
+};
+
+const STATUS_ORDER: IncentiveStatus[] = ['eligible', 'needsInfo', 'ineligible'];
+
+function formatVehicle(vehicle: IncentiveSettings['vehicle']): string | null {
+  if (!vehicle) return null;
+  const name = [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ');
+  return name || null;
+}
+
+export default function IncentivesSection({ inputs, onChange }: IncentivesSectionProps) {
+  const settings = inputs.incentives;
+  const { currency } = inputs;
+  const summary = summarizeEvIncentives(inputs);
+  const utilities = getUtilitiesForState(settings.state);
+  const matches = [...summary.matches].sort(
+    (a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+  );
+  const total = summary.vehicleTotal + summary.chargerTotal;
+  const vehicleName = formatVehicle(settings.vehicle);
+  const stateName = settings.state
+    ? CLIMATE_REGIONS[settings.state]?.name ?? CANADIAN_PROVINCE_NAMES[settings.state]
+    : null;
+
+  const handleChange = (updates: Partial<IncentiveSettings>) => {
+    onChange({ ...inputs, incentives: { ...settings, ...updates } });
+  };
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">Incentives</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">What do you get back?</h2>
+          <p className="text-sm text-slate-500">
+            Match federal credits, state rebates and utility charger rebates to your EV, location
+            and household, then take them off the EV&apos;s price in ownership and payback.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(event) => handleChange({ enabled: event.target.checked })}
+            className="accent-emerald-500"
+          />
+          Include in results
+        </label>
+      </div>
+
+      <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        <div>
+          <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            State
+            <Tooltip content="Where the vehicle will be registered. The ZIP price lookup sets this automatically." />
+          </label>
+          <select
+            value={settings.state ?? ''}
+            onChange={(event) =>
+              handleChange({ state: event.target.value || null, utility: null })
+            }
+            className="w-full rounded-2xl border border-slate-200 bg-white/80 px-3 py-2 text-sm text-slate-800"
+          >
+            <option value="">Not set</option>
+            {settings.state && !CLIMATE_REGIONS[settings.state] && (
+              <option value={settings.state}>{stateName ?? settings.state}</option>
+            )}
+            {STATE_OPTIONS.map(([code, region]) => (
+              <option key={code} value={code}>
+                {region.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Utility
+            <Tooltip content="Only utilities with a charger program in the bundled data are listed." />
+          </label>
+          <select
+            value={settings.utility ?? ''}
+            onChange={(event) => handleChange({ utility: event.target.value || null })}
+            disabled={!utilities.length}
+            className="w-full rounded-2xl border border-slate-200 bg-white/80 px-3 py-2 text-sm text-slate-800 disabled:opacity-60"
+          >
+            <option value="">{utilities.length ? 'Other or not listed' : 'No programs listed'}</option>
+            {utilities.map(([id, utility]) => (
+              <option key={id} value={id}>
+                {utility.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Vehicle
+            <Tooltip content="Price caps are checked against the EV purchase price in ownership costs." />
+          </div>
+          <div className="segmented-control">
+            {CONDITIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                className={`segmented-control__item ${
+                  settings.condition === value ? 'is-active' : ''
+                }`}
+                onClick={() => handleChange({ condition: value })}
+                aria-pressed={settings.condition === value}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Tax filing status
+          </label>
+          <select
+            value={settings.filingStatus}
+            onChange={(event) =>
+              handleChange({ filingStatus: event.target.value as TaxFilingStatus })
+            }
+            className="w-full rounded-2xl border border-slate-200 bg-white/80 px-3 py-2 text-sm text-slate-800"
+          >
+            {Object.entries(TAX_FILING_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Household income
+            <Tooltip content="Modified adjusted gross income for the year. Leave blank to see which programs have income limits." />
+          </label>
+          <div className="relative">
+            <input
+              type="number"
+              min={0}
+              step="5000"
+              value={settings.householdIncome ?? ''}
+              placeholder="Not given"
+              onChange={(event) =>
+                handleChange({
+                  householdIncome:
+                    event.target.value === ''
+                      ? null
+                      : Math.max(0, parseFloat(event.target.value) || 0),
+                })
+              }
+              className="form-input-shell pr-16"
+            />
+            <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+              {getCurrencySymbol(currency)}/yr
+            </span>
+          </div>
+        </div>
+        <div>
+          <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Purchase date
+            <Tooltip content="Programs are checked against this date. Leave blank for today." />
+          </label>
+          <input
+            type="date"
+            value={settings.purchaseDate ?? ''}
+            onChange={(event) => handleChange({ purchaseDate: event.target.value || null })}
+            className="form-input-shell"
+          />
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            checked={inputs.homeCharger.enabled}
+            onChange={(event) =>
+              onChange({
+                ...inputs,
+                homeCharger: { ...inputs.homeCharger, enabled: event.target.checked },
+              })
+            }
+            className="accent-emerald-500"
+          />
+          Installing a home charger
+        </label>
+        {inputs.homeCharger.enabled && (
+          <p className="text-sm text-slate-500">
+            Charger rebates are checked against the{' '}
+            {formatCurrency(calculateChargerGrossCost(inputs.homeCharger), currency, 0)} install
+            cost from the home charger section.
+          </p>
+        )}
+      </div>
+
+      <div className="mt-6 rounded-3xl border border-slate-100 bg-gradient-to-br from-slate-50 to-white p-5">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Matched for {vehicleName ?? 'your EV'}
+              {stateName ? ` in ${stateName}` : ''}
+            </p>
+            <p className="text-2xl font-semibold text-emerald-600">
+              {formatCurrency(total, currency, 0)}
+            </p>
+          </div>
+          {total > 0 && (
+            <p className="text-sm text-slate-500">
+              {formatCurrency(summary.vehicleTotal, currency, 0)} on the vehicle ·{' '}
+              {formatCurrency(summary.chargerTotal, currency, 0)} on the charger
+            </p>
+          )}
+        </div>
+
+        {matches.length ? (
+          <ul className="mt-4 divide-y divide-slate-100">
+            {matches.map((match) => (
+              <IncentiveRow key={match.program.id} match={match} currency={currency} />
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-4 text-sm text-slate-500">
+            No programs in the bundled data cover {stateName ?? 'this location'}.
+          </p>
+        )}
+
+        <p className="mt-4 text-xs text-slate-500">
+          Incentive data as of {INCENTIVE_DATA_VERSION}, amounts in U.S. dollars. Programs change
+          often and some run out of funds, so confirm with the provider before you buy.
+          {!settings.state && ' Set a state to see state and utility programs.'}
+          {!vehicleName && ' Pick your EV in the vehicle lookup to check model-year rules.'}
+        </p>
+      </div>
+    </section>
+  );
+}
+
+function IncentiveRow({
+  match,
+  currency,
+}: {
+  match: IncentiveMatch;
+  currency: CalculatorInputs['currency'];
+}) {
+  const { program, status, amount, reason } = match;
+  const style = STATUS_STYLES[status];
+  return (
+    <li className="flex flex-wrap items-start justify-between gap-3 py-3">
+      <div className="min-w-0">
+        <p className="text-sm font-semibold text-slate-800">
+          {program.name}{' '}
+          <span className="font-normal text-slate-500">
+            · {program.provider} ({INCENTIVE_LEVEL_LABELS[program.level].toLowerCase()})
+          </span>
+        </p>
+        {(reason || program.note) && (
+          <p className="text-xs text-slate-500">{[reason, program.note].filter(Boolean).join('. ')}</p>
+        )}
+      </div>
+      <div className="flex items-center gap-3">
+        <span
+          className={`text-sm font-semibold ${
+            status === 'eligible'
+              ? 'text-slate-900'
+              : status === 'needsInfo'
+                ? 'text-slate-500'
+                : 'text-slate-400 line-through'
+          }`}
+        >
+          {formatCurrency(amount, currency, 0)}
+        </span>
+        <span className={`rounded-full px-3 py-1 text-xs font-semibold ${style.className}`}>
+          {style.label}
+        </span>
+      </div>
+    </li>
+  );
+}
@@ -1,11 +1,36 @@
 'use client';
 
 import { useMemo, useState, useEffect, useRef } from 'react';
-import { CalculatorInputs, UsageScale } from '@/types';
+import {
+  CalculatorInputs,
+  ChargerLevel,
+  ChargingMix,
+  GasFuelOptionKey,
+  GasVehicleFuel,
+  UnitSystem,
+  UsageScale,
+} from '@/types';
+import { CHARGER_LEVEL_LABELS } from '@/lib/charging';
+import { GAS_VEHICLE_FUEL_LABELS, GAS_VEHICLE_FUEL_OPTIONS } from '@/lib/fuels';
+import { calculateSplitEfficiency } from '@/lib/fueleconomy';
+import {
+  CURRENCY_CODES,
+  UNIT_LABELS,
+  UNIT_SYSTEM_LABELS,
+  fromDisplayEvEfficiency,
+  fromDisplayFuelEconomy,
+  fromDisplayFuelPrice,
+  getCurrencySymbol,
+  roundForInput,
+  toDisplayEvEfficiency,
+  toDisplayFuelEconomy,
+  toDisplayFuelPrice,
+} from '@/lib/units';
 import Tooltip from './Tooltip';
 import PriceLookup from './PriceLookup';
 import FuelEconomyVehicleSelect, {
   EfficiencyMode,
+  RatingMode,
   VehicleSelectionSummary,
 } from './FuelEconomyVehicleSelect';
 
@@ -32,6 +57,114 @@ const MODE_LABELS: Record<EfficiencyMode, string> = {
   city: 'City',
   highway: 'Highway',
 };
+// EPA combined ratings weight highway driving at 55%
+const DEFAULT_HIGHWAY_SHARE = 55;
+
+const CHARGING_MIX_FIELDS: { field: keyof ChargingMix; label: string; tooltip: string }[] = [
+  {
+    field: 'home',
+    label: 'Home',
+    tooltip: 'Share of charging done at home at your home charging rate.',
+  },
+  {
+    field: 'workplace',
+    label: 'Workplace / free',
+    tooltip: 'Share of charging done at work or other free chargers.',
+  },
+  {
+    field: 'publicLevel2',
+    label: 'Level 2 public',
+    tooltip: 'Share of charging at public Level 2 stations (malls, garages, hotels).',
+  },
+  {
+    field: 'dcFast',
+    label: 'DC fast',
+    tooltip: 'Share of charging at DC fast chargers, typically on road trips.',
+  },
+];
+
+const GAS_VEHICLE_FUELS: GasVehicleFuel[] = ['gasoline', 'diesel', 'flexFuel'];
+
+const FUEL_PRICE_FIELDS: Record<
+  GasFuelOptionKey,
+  {
+    field: keyof Pick<
+      CalculatorInputs,
+      'regularGasPrice' | 'midgradeGasPrice' | 'premiumGasPrice' | 'dieselPrice' | 'e85Price'
+    >;
+    label: string;
+    tooltip: string;
+    placeholder: string;
+  }
+> = {
+  gasRegular: {
+    field: 'regularGasPrice',
+    label: 'Gas (regular)',
+    tooltip: 'Local regular unleaded pump price.',
+    placeholder: '3.09',
+  },
+  gasMidgrade: {
+    field: 'midgradeGasPrice',
+    label: 'Gas (midgrade)',
+    tooltip: 'Midgrade unleaded pump price.',
+    placeholder: '3.55',
+  },
+  gasPremium: {
+    field: 'premiumGasPrice',
+    label: 'Gas (premium)',
+    tooltip: 'Premium unleaded pump price.',
+    placeholder: '3.94',
+  },
+  diesel: {
+    field: 'dieselPrice',
+    label: 'Diesel',
+    tooltip: 'Local diesel pump price.',
+    placeholder: '3.75',
+  },
+  e85: {
+    field: 'e85Price',
+    label: 'E85',
+    tooltip: 'E85 (flex fuel) pump price.',
+    placeholder: '2.65',
+  },
+};
+
+const UNIT_SYSTEMS: UnitSystem[] = ['imperial', 'metric'];
+
+const EFFICIENCY_COPY: Record<
+  UnitSystem,
+  {
+    helper: string;
+    ev: { tooltip: string; placeholder: string };
+    gas: { tooltip: string; placeholder: string };
+    e85: { tooltip: string; placeholder: string };
+  }
+> = {
+  imperial: {
+    helper: 'Most EVs fall between 2.5–4.5 mi/kWh. Most gas sedans are ~30 mpg.',
+    ev: { tooltip: 'Miles per kilowatt-hour. Higher is better.', placeholder: '3.5' },
+    gas: { tooltip: 'Miles per gallon. Hybrids ~55 mpg, trucks ~20 mpg.', placeholder: '25' },
+    e85: {
+      tooltip: 'Miles per gallon on E85. Usually about a quarter lower than on gasoline.',
+      placeholder: '18',
+    },
+  },
+  metric: {
+    helper: 'Most EVs use 14–25 kWh/100km. Most gas sedans use ~8 L/100km.',
+    ev: { tooltip: 'Kilowatt-hours per 100 km. Lower is better.', placeholder: '17.8' },
+    gas: {
+      tooltip: 'Litres per 100 km. Hybrids ~4.3 L/100km, trucks ~12 L/100km.',
+      placeholder: '9.4',
+    },
+    e85: {
+      tooltip: 'Litres per 100 km on E85. Usually about a third higher than on gasoline.',
+      placeholder: '13.1',
+    },
+  },
+};
+
+const CHARGER_LEVELS: ChargerLevel[] = ['level1', 'level2', 'dcFast'];
+const HOME_CHARGER_LEVELS: CalculatorInputs['homeChargerLevel'][] = ['level1', 'level2'];
 
 const DEFAULT_EV_SELECTION = {
   year: '2025',
@@ -61,9 +194,11 @@ export default function InputSection({
   const [autoFlags, setAutoFlags] = useState({
     evEfficiency: false,
     gasEfficiency: false,
+    e85Efficiency: false,
   });
-  const [evRatingMode, setEvRatingMode] = useState<EfficiencyMode>('combined');
-  const [gasRatingMode, setGasRatingMode] = useState<EfficiencyMode>('combined');
+  const [evRatingMode, setEvRatingMode] = useState<RatingMode>('combined');
+  const [gasRatingMode, setGasRatingMode] = useState<RatingMode>('combined');
+  const [highwayShare, setHighwayShare] = useState(DEFAULT_HIGHWAY_SHARE);
   const [evLookupKey, setEvLookupKey] = useState(0);
   const [gasLookupKey, setGasLookupKey] = useState(0);
   const [localDistanceValue, setLocalDistanceValue] = useState<string>(() => {
@@ -110,14 +245,20 @@ export default function InputSection({
           constrainedValue = Math.max(0.1, Math.min(10.0, value));
           break;
         case 'gasEfficiency':
+        case 'e85Efficiency':
           constrainedValue = Math.max(1, Math.min(100, value));
           break;
         case 'regularGasPrice':
+        case 'midgradeGasPrice':
         case 'premiumGasPrice':
+        case 'dieselPrice':
+        case 'e85Price':
           constrainedValue = Math.max(0, Math.min(20, value));
           break;
         case 'homeElectricityPrice':
         case 'fastChargingPrice':
+        case 'publicChargingPrice':
+        case 'workplaceChargingPrice':
           constrainedValue = Math.max(0, Math.min(2, value));
           break;
         case 'baseDistance':
@@ -131,7 +272,7 @@ export default function InputSection({
       [field]: constrainedValue,
     });
 
-    if (field === 'evEfficiency' || field === 'gasEfficiency') {
+    if (field === 'evEfficiency' || field === 'gasEfficiency' || field === 'e85Efficiency') {
       setAutoFlags((prev) => ({
         ...prev,
         [field]: fromPreset,
@@ -139,6 +280,42 @@ export default function InputSection({
     }
   };
 
+  const handleMixChange = (field: keyof ChargingMix, value: number) => {
+    onChange({
+      ...inputs,
+      chargingMix: {
+        ...inputs.chargingMix,
+        [field]: Math.max(0, Math.min(100, value)),
+      },
+    });
+  };
+
+  const handleLossChange = (level: ChargerLevel, value: number) => {
+    onChange({
+      ...inputs,
+      chargingLosses: {
+        ...inputs.chargingLosses,
+        [level]: Math.max(0, Math.min(50, value)),
+      },
+    });
+  };
+
+  // Regular is always shown since the plug-in hybrid burns it too
+  const fuelPriceKeys: GasFuelOptionKey[] = [
+    'gasRegular',
+    ...GAS_VEHICLE_FUEL_OPTIONS[inputs.gasVehicleFuel].filter((key) => key !== 'gasRegular'),
+  ];
+
+  const { unitSystem, currency } = inputs;
+  const unitLabels = UNIT_LABELS[unitSystem];
+  const currencySymbol = getCurrencySymbol(currency);
+  const efficiencyCopy = EFFICIENCY_COPY[unitSystem];
+
+  const mixTotal = CHARGING_MIX_FIELDS.reduce(
+    (sum, { field }) => sum + inputs.chargingMix[field],
+    0
+  );
+
   const handleDistanceInput = (value: string) => {
     // Update local state only while typing - don't update parent yet
     setLocalDistanceValue(value);
@@ -172,40 +349,65 @@ export default function InputSection({
   const applySelectionEfficiency = (
     field: 'evEfficiency' | 'gasEfficiency',
     selection: VehicleSelectionSummary,
-    mode: EfficiencyMode
+    mode: RatingMode
   ) => {
-    const value = selection.efficiencies[mode];
+    const value = getSelectionEfficiency(selection.efficiencies, mode, highwayShare);
     if (isValidEfficiencyValue(value)) {
       handleChange(field, value as number, true);
     }
   };
 
+  // Gas lookups also set the vehicle's fuel and E85 rating, so apply them in one update
+  const applyGasSelection = (selection: VehicleSelectionSummary, mode: RatingMode) => {
+    const updates = getGasSelectionUpdates(selection, mode, highwayShare);
+    onChange({ ...inputs, ...updates });
+    setAutoFlags((prev) => ({
+      ...prev,
+      gasEfficiency: updates.gasEfficiency !== undefined,
+      e85Efficiency: updates.e85Efficiency !== undefined,
+    }));
+  };
+
   const handleVehicleSelection = (
     type: 'ev' | 'gas',
     selection: VehicleSelectionSummary | null
   ) => {
     if (type === 'ev') {
       setSelectedEV(selection);
+      // Incentive matching checks the model year, so keep the pick and efficiency in one update
+      const updates: Partial<CalculatorInputs> = {
+        incentives: {
+          ...inputs.incentives,
+          vehicle: selection
+            ? { year: selection.year, make: selection.make, model: selection.model }
+            : null,
+        },
+      };
       if (selection) {
         const mode = resolvePreferredMode(selection, evRatingMode);
         setEvRatingMode(mode);
-        applySelectionEfficiency('evEfficiency', selection, mode);
-      } else {
-        setAutoFlags((prev) => ({ ...prev, evEfficiency: false }));
+        const value = getSelectionEfficiency(selection.efficiencies, mode, highwayShare);
+        if (isValidEfficiencyValue(value)) {
+          updates.evEfficiency = Math.max(0.1, Math.min(10.0, value as number));
+        }
+      }
+      onChange({ ...inputs, ...updates });
+      if (updates.evEfficiency !== undefined || !selection) {
+        setAutoFlags((prev) => ({ ...prev, evEfficiency: Boolean(selection) }));
       }
     } else {
       setSelectedGas(selection);
       if (selection) {
         const mode = resolvePreferredMode(selection, gasRatingMode);
         setGasRatingMode(mode);
-        applySelectionEfficiency('gasEfficiency', selection, mode);
+        applyGasSelection(selection, mode);
       } else {
-        setAutoFlags((prev) => ({ ...prev, gasEfficiency: false }));
+        setAutoFlags((prev) => ({ ...prev, gasEfficiency: false, e85Efficiency: false }));
       }
     }
   };
 
-  const handleRatingModeChange = (type: 'ev' | 'gas', mode: EfficiencyMode) => {
+  const handleRatingModeChange = (type: 'ev' | 'gas', mode: RatingMode) => {
     if (type === 'ev') {
       setEvRatingMode(mode);
       if (selectedEV) {
@@ -218,12 +420,42 @@ export default function InputSection({
       if (selectedGas) {
         const resolved = resolvePreferredMode(selectedGas, mode);
         setGasRatingMode(resolved);
-        applySelectionEfficiency('gasEfficiency', selectedGas, resolved);
+        applyGasSelection(selectedGas, resolved);
       }
     }
   };
 
-  const clearAuto = (field: 'evEfficiency' | 'gasEfficiency') => {
+  const handleHighwayShareChange = (value: number) => {
+    const share = Math.max(0, Math.min(100, value));
+    setHighwayShare(share);
+
+    // Re-apply the split to both vehicles in one update so neither overwrites the other
+    const updates: Partial<CalculatorInputs> = {};
+    if (selectedEV && evRatingMode === 'split') {
+      const efficiency = getSelectionEfficiency(selectedEV.efficiencies, 'split', share);
+      if (isValidEfficiencyValue(efficiency)) {
+        updates.evEfficiency = Math.max(0.1, Math.min(10.0, efficiency as number));
+      }
+    }
+    if (selectedGas && gasRatingMode === 'split') {
+      Object.assign(updates, getGasSelectionUpdates(selectedGas, 'split', share));
+    }
+    if (Object.keys(updates).length) {
+      onChange({ ...inputs, ...updates });
+      setAutoFlags((prev) => ({
+        evEfficiency: updates.evEfficiency !== undefined || prev.evEfficiency,
+        gasEfficiency: updates.gasEfficiency !== undefined || prev.gasEfficiency,
+        e85Efficiency: updates.e85Efficiency !== undefined || prev.e85Efficiency,
+      }));
+    }
+  };
+
+  const getModeLabel = (mode: RatingMode) =>
+    mode === 'split'
+      ? `${highwayShare}% highway / ${100 - highwayShare}% city`
+      : MODE_LABELS[mode];
+
+  const clearAuto = (field: 'evEfficiency' | 'gasEfficiency' | 'e85Efficiency') => {
     setAutoFlags((prev) => ({ ...prev, [field]: false }));
   };
 
@@ -234,7 +466,8 @@ export default function InputSection({
     setGasLookupKey((prev) => prev + 1);
     setEvRatingMode('combined');
     setGasRatingMode('combined');
-    setAutoFlags({ evEfficiency: false, gasEfficiency: false });
+    setHighwayShare(DEFAULT_HIGHWAY_SHARE);
+    setAutoFlags({ evEfficiency: false, gasEfficiency: false, e85Efficiency: false });
     onResetInputs();
   };
 
@@ -251,75 +484,273 @@ export default function InputSection({
             enter your local fuel prices.
           </p>
         </div>
-        <button
-          type="button"
-          onClick={handleReset}
-          className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50"
-        >
-          Reset inputs
-        </button>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="segmented-control">
+            {UNIT_SYSTEMS.map((system) => (
+              <button
+                key={system}
+                type="button"
+                className={`segmented-control__item ${
+                  unitSystem === system ? 'is-active' : ''
+                }`}
+                onClick={() => onChange({ ...inputs, unitSystem: system })}
+                aria-pressed={unitSystem === system}
+              >
+                {UNIT_SYSTEM_LABELS[system]}
+              </button>
+            ))}
+          </div>
+          <select
+            value={currency}
+            onChange={(event) =>
+              onChange({ ...inputs, currency: event.target.value as CalculatorInputs['currency'] })
+            }
+            className="rounded-full border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700"
+            aria-label="Currency"
+            title="Changes how amounts are shown. Enter prices in this currency; they are not converted."
+          >
+            {CURRENCY_CODES.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50"
+          >
+            Reset inputs
+          </button>
+        </div>
       </div>
 
       <div className="mt-6 space-y-4">
         <CollapsibleSection
           title="Vehicle"
           description="Choose presets and fine-tune efficiency."
-          helper="Most EVs fall between 2.5–4.5 mi/kWh. Most gas sedans are ~30 mpg."
+          helper={efficiencyCopy.helper}
         >
             <div className="grid gap-4 sm:grid-cols-2">
               <FuelEconomyVehicleSelect
                 key={`ev-selector-${evLookupKey}`}
+                unitSystem={unitSystem}
                 label="EV lookup"
                 kind="ev"
                 selected={selectedEV}
                 ratingMode={evRatingMode}
                 availableModes={getAvailableModesForSelection(selectedEV)}
                 onRatingModeChange={(mode) => handleRatingModeChange('ev', mode)}
+                highwayShare={highwayShare}
                 defaultSelection={DEFAULT_EV_SELECTION}
                 onVehicleResolved={(selection) => handleVehicleSelection('ev', selection)}
               />
               <FuelEconomyVehicleSelect
                 key={`gas-selector-${gasLookupKey}`}
+                unitSystem={unitSystem}
                 label="Gas / hybrid lookup"
                 kind="gas"
                 selected={selectedGas}
                 ratingMode={gasRatingMode}
                 availableModes={getAvailableModesForSelection(selectedGas)}
                 onRatingModeChange={(mode) => handleRatingModeChange('gas', mode)}
+                highwayShare={highwayShare}
                 defaultSelection={DEFAULT_GAS_SELECTION}
                 onVehicleResolved={(selection) => handleVehicleSelection('gas', selection)}
               />
             </div>
+            {(evRatingMode === 'split' || gasRatingMode === 'split') && (
+              <div className="mt-5 rounded-2xl border border-slate-100 bg-slate-50/80 p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <label
+                    htmlFor="highway-share"
+                    className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500"
+                  >
+                    City / highway split
+                    <Tooltip content="Share of your miles driven on the highway. Efficiency is blended from the EPA city and highway ratings, weighted by fuel used per mile." />
+                  </label>
+                  <span className="text-sm font-semibold text-slate-700">
+                    {highwayShare}% highway · {100 - highwayShare}% city
+                  </span>
+                </div>
+                <input
+                  id="highway-share"
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={highwayShare}
+                  onChange={(event) => handleHighwayShareChange(parseInt(event.target.value, 10))}
+                  className="mt-3 w-full accent-indigo-500"
+                />
+              </div>
+            )}
             <div className="mt-5 grid gap-4 sm:grid-cols-2">
               <EfficiencyField
                 label="EV efficiency"
-                tooltip="Miles per kilowatt-hour. Higher is better."
-                value={inputs.evEfficiency}
-                placeholder="3.5"
-                suffix="mi/kWh"
+                tooltip={efficiencyCopy.ev.tooltip}
+                value={roundForInput(toDisplayEvEfficiency(inputs.evEfficiency, unitSystem))}
+                placeholder={efficiencyCopy.ev.placeholder}
+                suffix={unitLabels.evEfficiency}
                 isAuto={autoFlags.evEfficiency}
                 autoSource={selectedEV?.description}
-                autoModeLabel={MODE_LABELS[evRatingMode]}
+                autoModeLabel={getModeLabel(evRatingMode)}
                 onChange={(val) =>
-                  handleChange('evEfficiency', parseFloat(val) || 0)
+                  handleChange(
+                    'evEfficiency',
+                    fromDisplayEvEfficiency(parseFloat(val) || 0, unitSystem)
+                  )
                 }
                 onEdit={() => clearAuto('evEfficiency')}
               />
               <EfficiencyField
-                label="Gas efficiency"
-                tooltip="Miles per gallon. Hybrids ~55 mpg, trucks ~20 mpg."
-                value={inputs.gasEfficiency}
-                placeholder="25"
-                suffix="mpg"
+                label={inputs.gasVehicleFuel === 'diesel' ? 'Diesel efficiency' : 'Gas efficiency'}
+                tooltip={efficiencyCopy.gas.tooltip}
+                value={roundForInput(toDisplayFuelEconomy(inputs.gasEfficiency, unitSystem))}
+                placeholder={efficiencyCopy.gas.placeholder}
+                suffix={unitLabels.fuelEconomy}
                 isAuto={autoFlags.gasEfficiency}
                 autoSource={selectedGas?.description}
-                autoModeLabel={MODE_LABELS[gasRatingMode]}
+                autoModeLabel={getModeLabel(gasRatingMode)}
                 onChange={(val) =>
-                  handleChange('gasEfficiency', parseFloat(val) || 0)
+                  handleChange(
+                    'gasEfficiency',
+                    fromDisplayFuelEconomy(parseFloat(val) || 0, unitSystem)
+                  )
                 }
                 onEdit={() => clearAuto('gasEfficiency')}
               />
             </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="flex flex-col gap-2">
+                <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Gas vehicle fuel
+                  <Tooltip content="Diesel vehicles are priced with diesel. Flex-fuel vehicles can also run on E85, which is cheaper at the pump but goes less far on each tank." />
+                </label>
+                <div className="segmented-control">
+                  {GAS_VEHICLE_FUELS.map((fuel) => (
+                    <button
+                      key={fuel}
+                      type="button"
+                      className={`segmented-control__item ${
+                        inputs.gasVehicleFuel === fuel ? 'is-active' : ''
+                      }`}
+                      onClick={() => onChange({ ...inputs, gasVehicleFuel: fuel })}
+                      aria-pressed={inputs.gasVehicleFuel === fuel}
+                    >
+                      {GAS_VEHICLE_FUEL_LABELS[fuel]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {inputs.gasVehicleFuel === 'flexFuel' && (
+                <EfficiencyField
+                  label="E85 efficiency"
+                  tooltip={efficiencyCopy.e85.tooltip}
+                  value={roundForInput(toDisplayFuelEconomy(inputs.e85Efficiency, unitSystem))}
+                  placeholder={efficiencyCopy.e85.placeholder}
+                  suffix={unitLabels.fuelEconomy}
+                  isAuto={autoFlags.e85Efficiency}
+                  autoSource={selectedGas?.description}
+                  autoModeLabel={getModeLabel(gasRatingMode)}
+                  onChange={(val) =>
+                    handleChange(
+                      'e85Efficiency',
+                      fromDisplayFuelEconomy(parseFloat(val) || 0, unitSystem)
+                    )
+                  }
+                  onEdit={() => clearAuto('e85Efficiency')}
+                />
+              )}
+            </div>
+        </CollapsibleSection>
+
+        <CollapsibleSection
+          title="Charging"
+          description="Where and how do you charge?"
+          helper="Most drivers charge mostly at home with occasional public and fast charging. Shares are normalized if they don't add up to 100%."
+        >
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {CHARGING_MIX_FIELDS.map(({ field, label, tooltip }) => (
+              <div key={field}>
+                <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {label}
+                  <Tooltip content={tooltip} />
+                </div>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="5"
+                    value={inputs.chargingMix[field]}
+                    onChange={(event) =>
+                      handleMixChange(field, parseFloat(event.target.value) || 0)
+                    }
+                    className="form-input-shell pr-10"
+                  />
+                  <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-xs font-semibold text-slate-400">
+                    %
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+          <p
+            className={`text-xs font-semibold ${
+              Math.round(mixTotal) === 100 ? 'text-slate-500' : 'text-amber-600'
+            }`}
+          >
+            Total: {Math.round(mixTotal)}%
+            {Math.round(mixTotal) !== 100 && ' · shares will be scaled to 100%'}
+          </p>
+          <div className="flex flex-wrap items-end gap-6 border-t border-slate-100 pt-5">
+            <div className="flex flex-col gap-2">
+              <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                Home charger
+                <Tooltip content="Level 1 uses a standard 120V outlet; Level 2 uses a 240V wall charger." />
+              </label>
+              <div className="segmented-control">
+                {HOME_CHARGER_LEVELS.map((level) => (
+                  <button
+                    key={level}
+                    type="button"
+                    className={`segmented-control__item ${
+                      inputs.homeChargerLevel === level ? 'is-active' : ''
+                    }`}
+                    onClick={() => onChange({ ...inputs, homeChargerLevel: level })}
+                    aria-pressed={inputs.homeChargerLevel === level}
+                  >
+                    {CHARGER_LEVEL_LABELS[level]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {CHARGER_LEVELS.map((level) => (
+              <div key={level} className="w-[150px]">
+                <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {CHARGER_LEVEL_LABELS[level]} loss
+                  <Tooltip content="Share of energy lost between the meter and the battery. You pay for metered kWh, so losses raise the cost per mile." />
+                </div>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min={0}
+                    max={50}
+                    step="1"
+                    value={inputs.chargingLosses[level]}
+                    onChange={(event) =>
+                      handleLossChange(level, parseFloat(event.target.value) || 0)
+                    }
+                    className="form-input-shell pr-10"
+                  />
+                  <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-xs font-semibold text-slate-400">
+                    %
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
         </CollapsibleSection>
 
         <div className="grid gap-4 lg:grid-cols-[2fr,2fr,1fr]">
@@ -333,7 +764,7 @@ export default function InputSection({
                 label="Home charging rate"
                 tooltip="¢/kWh from your utility bill."
                 value={inputs.homeElectricityPrice}
-                suffix="$ / kWh"
+                suffix={`${currencySymbol} / kWh`}
                 step="0.01"
                 onChange={(value) =>
                   handleChange(
@@ -345,9 +776,13 @@ export default function InputSection({
               />
               <LabeledInput
                 label="Fast charging rate"
-                tooltip="Public DC fast charging price per kWh."
+                tooltip={
+                  inputs.fastChargingTariff.pricing === 'perMinute'
+                    ? 'Not used while the fast-charging tariff bills per minute.'
+                    : 'Public DC fast charging price per kWh, before session fees.'
+                }
                 value={inputs.fastChargingPrice}
-                suffix="$ / kWh"
+                suffix={`${currencySymbol} / kWh`}
                 step="0.01"
                 onChange={(value) =>
                   handleChange('fastChargingPrice', parseFloat(value) || 0)
@@ -355,31 +790,50 @@ export default function InputSection({
                 placeholder="0.50"
               />
               <LabeledInput
-                label="Gas (regular)"
-                tooltip="Local regular unleaded price per gallon."
-                value={inputs.regularGasPrice}
-                suffix="$ / gal"
+                label="Public L2 rate"
+                tooltip="Public Level 2 charging price per kWh."
+                value={inputs.publicChargingPrice}
+                suffix={`${currencySymbol} / kWh`}
                 step="0.01"
                 onChange={(value) =>
-                  handleChange('regularGasPrice', parseFloat(value) || 0)
+                  handleChange('publicChargingPrice', parseFloat(value) || 0)
                 }
-                placeholder="3.09"
+                placeholder="0.30"
               />
               <LabeledInput
-                label="Gas (premium)"
-                tooltip="Premium unleaded price per gallon."
-                value={inputs.premiumGasPrice}
-                suffix="$ / gal"
+                label="Workplace rate"
+                tooltip="Workplace charging price per kWh. Leave at 0 if it's free."
+                value={inputs.workplaceChargingPrice}
+                suffix={`${currencySymbol} / kWh`}
                 step="0.01"
                 onChange={(value) =>
-                  handleChange('premiumGasPrice', parseFloat(value) || 0)
+                  handleChange('workplaceChargingPrice', parseFloat(value) || 0)
                 }
-                placeholder="3.94"
+                placeholder="0.00"
               />
+              {fuelPriceKeys.map((key) => {
+                const { field, label, tooltip, placeholder } = FUEL_PRICE_FIELDS[key];
+                return (
+                  <LabeledInput
+                    key={field}
+                    label={label}
+                    tooltip={tooltip}
+                    value={toDisplayFuelPrice(inputs[field], unitSystem)}
+                    suffix={`${currencySymbol} / ${unitLabels.volume}`}
+                    step="0.01"
+                    onChange={(value) =>
+                      handleChange(field, fromDisplayFuelPrice(parseFloat(value) || 0, unitSystem))
+                    }
+                    placeholder={placeholder}
+                  />
+                );
+              })}
             </div>
           </CollapsibleSection>
           <div>
             <PriceLookup
+              currency={inputs.currency}
+              incentives={inputs.incentives}
               onUpdate={(updates) => onChange({ ...inputs, ...updates })}
             />
           </div>
@@ -406,7 +860,7 @@ export default function InputSection({
                     placeholder="30"
                   />
                   <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-xs font-semibold text-slate-400">
-                    mi
+                    {unitLabels.distance}
                   </span>
                 </div>
               </div>
@@ -488,6 +942,10 @@ function EfficiencyField({
   onChange: (value: string) => void;
   onEdit: () => void;
 }) {
+  // Keep the typed text while focused; metric values are converted and clamped in mpg
+  // or mi/kWh, so echoing them back mid-edit would fight the user
+  const [draft, setDraft] = useState<string | null>(null);
+
   return (
     <div>
       <div className="mb-2 flex items-center justify-between">
@@ -507,10 +965,15 @@ function EfficiencyField({
         <input
           type="number"
           step="0.1"
-          value={value}
+          value={draft ?? value}
           placeholder={placeholder}
-          onChange={(event) => onChange(event.target.value)}
-          className="form-input-shell pr-16"
+          onFocus={() => setDraft(value.toString())}
+          onBlur={() => setDraft(null)}
+          onChange={(event) => {
+            setDraft(event.target.value);
+            onChange(event.target.value);
+          }}
+          className="form-input-shell pr-20"
         />
         <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-xs font-semibold text-slate-400">
           {suffix}
@@ -631,18 +1094,61 @@ function LabeledInput({
   );
 }
 
-function getAvailableModesForSelection(selection: VehicleSelectionSummary | null): EfficiencyMode[] {
+function getSelectionEfficiency(
+  efficiencies: VehicleSelectionSummary['efficiencies'],
+  mode: RatingMode,
+  highwayShare: number
+): number | null {
+  if (mode === 'split') {
+    return calculateSplitEfficiency(efficiencies, highwayShare);
+  }
+  return efficiencies[mode];
+}
+
+function getGasSelectionUpdates(
+  selection: VehicleSelectionSummary,
+  mode: RatingMode,
+  highwayShare: number
+): Partial<CalculatorInputs> {
+  const updates: Partial<CalculatorInputs> = {};
+  const efficiency = getSelectionEfficiency(selection.efficiencies, mode, highwayShare);
+  if (isValidEfficiencyValue(efficiency)) {
+    updates.gasEfficiency = Math.max(1, Math.min(100, efficiency as number));
+  }
+  if (selection.gasVehicleFuel) {
+    updates.gasVehicleFuel = selection.gasVehicleFuel;
+  }
+  const e85Efficiency = selection.e85Efficiencies
+    ? getSelectionEfficiency(selection.e85Efficiencies, mode, highwayShare)
+    : null;
+  if (isValidEfficiencyValue(e85Efficiency)) {
+    updates.e85Efficiency = Math.max(1, Math.min(100, e85Efficiency as number));
+  }
+  return updates;
+}
+
+function getAvailableModesForSelection(selection: VehicleSelectionSummary | null): RatingMode[] {
   if (!selection) return [];
-  return EFFICIENCY_MODES.filter((mode) => isValidEfficiencyValue(selection.efficiencies[mode]));
+  const modes: RatingMode[] = EFFICIENCY_MODES.filter((mode) =>
+    isValidEfficiencyValue(selection.efficiencies[mode])
+  );
+  if (calculateSplitEfficiency(selection.efficiencies, DEFAULT_HIGHWAY_SHARE) !== null) {
+    modes.push('split');
+  }
+  return modes;
 }
 
 function resolvePreferredMode(
   selection: VehicleSelectionSummary,
-  preferred: EfficiencyMode
-): EfficiencyMode {
-  const order: EfficiencyMode[] = [preferred, ...EFFICIENCY_MODES];
+  preferred: RatingMode
+): RatingMode {
+  const order: RatingMode[] = [preferred, ...EFFICIENCY_MODES];
   for (const mode of order) {
-    if (isValidEfficiencyValue(selection.efficiencies[mode])) {
+    if (
+      isValidEfficiencyValue(
+        getSelectionEfficiency(selection.efficiencies, mode, DEFAULT_HIGHWAY_SHARE)
+      )
+    ) {
       return mode;
     }
   }
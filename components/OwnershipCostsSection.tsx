@@ -0,0 +1,413 @@
+'use client';
+
+import {
+  CalculatorInputs,
+  CurrencyCode,
+  FinancingType,
+  OwnershipCostField,
+  OwnershipCosts,
+  UnitSystem,
+  VehicleKind,
+} from '@/types';
+import { calculateAnnualFixedCosts } from '@/lib/ownership';
+import { FINANCING_LABELS, calculateMonthlyPayment } from '@/lib/financing';
+import { getVehicleConfigs, updateVehicleOwnership } from '@/lib/vehicles';
+import { formatCurrency } from '@/lib/calculations';
+import {
+  UNIT_LABELS,
+  fromDisplayDistance,
+  fromDisplayPerDistance,
+  getCurrencySymbol,
+  roundForInput,
+  toDisplayDistance,
+  toDisplayPerDistance,
+} from '@/lib/units';
+import Tooltip from './Tooltip';
+
+interface OwnershipCostsSectionProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+type OwnershipField = OwnershipCostField;
+
+interface SuffixUnits {
+  currency: string;
+  distance: string;
+}
+
+const KIND_ACCENTS: Record<VehicleKind, string> = {
+  ev: 'bg-emerald-500',
+  gas: 'bg-amber-500',
+  phev: 'bg-sky-500',
+};
+
+const FINANCING_TYPES: FinancingType[] = ['cash', 'loan', 'lease'];
+
+const FIELD_CONFIG: {
+  field: OwnershipField;
+  label: string;
+  tooltip: string;
+  suffix: (units: SuffixUnits) => string;
+  step: string;
+  max: number;
+  perDistance?: boolean; // $/mile shown per display distance
+  distance?: boolean; // miles shown in display distance
+  showFor?: FinancingType[]; // every financing type when omitted
+}[] = [
+  {
+    field: 'purchasePrice',
+    label: 'Purchase price',
+    tooltip: 'Out-the-door price including taxes and fees.',
+    suffix: (units) => units.currency,
+    step: '500',
+    max: 500000,
+  },
+  {
+    field: 'incentives',
+    label: 'Incentives',
+    tooltip: 'Rebates and tax credits that lower what you effectively pay. Reduces depreciation and the amount financed by a loan or lease.',
+    suffix: (units) => units.currency,
+    step: '250',
+    max: 100000,
+  },
+  {
+    field: 'resaleValue',
+    label: 'Resale value',
+    tooltip: 'Expected value when you sell or trade in. Purchase price minus resale is depreciation.',
+    suffix: (units) => units.currency,
+    step: '500',
+    max: 500000,
+    showFor: ['cash', 'loan'],
+  },
+  {
+    field: 'ownershipYears',
+    label: 'Years owned',
+    tooltip: 'How long you plan to keep the vehicle. Depreciation and interest are spread over this period.',
+    suffix: () => 'yr',
+    step: '1',
+    max: 30,
+    showFor: ['cash', 'loan'],
+  },
+  {
+    field: 'insurance',
+    label: 'Insurance',
+    tooltip: 'Annual insurance premium.',
+    suffix: (units) => `${units.currency} / yr`,
+    step: '50',
+    max: 20000,
+  },
+  {
+    field: 'maintenance',
+    label: 'Maintenance',
+    tooltip: 'Maintenance and repairs per distance driven. EVs often cost about a third less to maintain than gas cars.',
+    suffix: (units) => `${units.currency} / ${units.distance}`,
+    step: '0.01',
+    max: 2,
+    perDistance: true,
+  },
+  {
+    field: 'registration',
+    label: 'Registration',
+    tooltip: 'Annual registration, including any EV or hybrid surcharge.',
+    suffix: (units) => `${units.currency} / yr`,
+    step: '10',
+    max: 5000,
+  },
+  {
+    field: 'downPayment',
+    label: 'Down payment',
+    tooltip: 'Cash paid upfront. The rest of the purchase price is financed.',
+    suffix: (units) => units.currency,
+    step: '500',
+    max: 500000,
+    showFor: ['loan'],
+  },
+  {
+    field: 'loanApr',
+    label: 'Loan APR',
+    tooltip: 'Annual percentage rate on the auto loan.',
+    suffix: () => '%',
+    step: '0.1',
+    max: 40,
+    showFor: ['loan'],
+  },
+  {
+    field: 'loanTermMonths',
+    label: 'Loan term',
+    tooltip: 'Length of the auto loan in months.',
+    suffix: () => 'mo',
+    step: '12',
+    max: 120,
+    showFor: ['loan'],
+  },
+  {
+    field: 'leaseTermMonths',
+    label: 'Lease term',
+    tooltip: 'Length of the lease in months. Lease costs repeat each year you keep leasing.',
+    suffix: () => 'mo',
+    step: '12',
+    max: 72,
+    showFor: ['lease'],
+  },
+  {
+    field: 'leaseMoneyFactor',
+    label: 'Money factor',
+    tooltip: 'Lease interest rate. Multiply by 2,400 for a rough APR, so 0.0025 is about 6%.',
+    suffix: () => 'MF',
+    step: '0.0001',
+    max: 0.02,
+    showFor: ['lease'],
+  },
+  {
+    field: 'leaseResidual',
+    label: 'Residual value',
+    tooltip: 'Value the lease says the vehicle keeps at the end of the term, often 50-60% of MSRP.',
+    suffix: (units) => units.currency,
+    step: '500',
+    max: 500000,
+    showFor: ['lease'],
+  },
+  {
+    field: 'leaseDueAtSigning',
+    label: 'Due at signing',
+    tooltip: 'Cash paid when the lease starts. It lowers the capitalized cost and the monthly payment.',
+    suffix: (units) => units.currency,
+    step: '500',
+    max: 100000,
+    showFor: ['lease'],
+  },
+  {
+    field: 'leaseMileageAllowance',
+    label: 'Mileage allowance',
+    tooltip: 'Distance included in the lease each year before overage fees apply.',
+    suffix: (units) => `${units.distance} / yr`,
+    step: '1000',
+    max: 100000,
+    distance: true,
+    showFor: ['lease'],
+  },
+  {
+    field: 'leaseOverageFee',
+    label: 'Overage fee',
+    tooltip: 'Charge per distance driven past the allowance, billed at the end of the lease.',
+    suffix: (units) => `${units.currency} / ${units.distance}`,
+    step: '0.05',
+    max: 5,
+    perDistance: true,
+    showFor: ['lease'],
+  },
+];
+
+export default function OwnershipCostsSection({
+  inputs,
+  onChange,
+}: OwnershipCostsSectionProps) {
+  const handleToggle = (enabled: boolean) => {
+    onChange({ ...inputs, includeOwnershipCosts: enabled });
+  };
+
+  const vehicles = getVehicleConfigs(inputs);
+  const { unitSystem, currency } = inputs;
+  const suffixUnits: SuffixUnits = {
+    currency: getCurrencySymbol(currency),
+    distance: UNIT_LABELS[unitSystem].distance,
+  };
+
+  const handleFieldChange = (
+    vehicleId: string,
+    costs: OwnershipCosts,
+    field: OwnershipField,
+    value: number
+  ) => {
+    const config = FIELD_CONFIG.find((item) => item.field === field);
+    const canonical = config?.perDistance
+      ? fromDisplayPerDistance(value, unitSystem)
+      : config?.distance
+        ? fromDisplayDistance(value, unitSystem)
+        : value;
+    const constrained = Math.max(0, Math.min(config?.max ?? canonical, canonical));
+    onChange(updateVehicleOwnership(inputs, vehicleId, { ...costs, [field]: constrained }));
+  };
+
+  const handleFinancingChange = (
+    vehicleId: string,
+    costs: OwnershipCosts,
+    financing: FinancingType
+  ) => {
+    onChange(updateVehicleOwnership(inputs, vehicleId, { ...costs, financing }));
+  };
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">Ownership</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">
+            Total cost of ownership
+          </h2>
+          <p className="text-sm text-slate-500">
+            Add depreciation, insurance, maintenance, registration, and loan interest or
+            lease charges on top of fuel to compare what each vehicle really costs to own.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            checked={inputs.includeOwnershipCosts}
+            onChange={(event) => handleToggle(event.target.checked)}
+            className="accent-emerald-500"
+          />
+          Include in results
+        </label>
+      </div>
+
+      {inputs.includeOwnershipCosts && (
+        <div
+          className={`mt-6 grid gap-4 lg:grid-cols-2 ${
+            vehicles.length > 2 ? 'xl:grid-cols-3' : ''
+          }`}
+        >
+          {vehicles.map((vehicle) => (
+            <OwnershipColumn
+              key={vehicle.id}
+              title={vehicle.name}
+              accent={KIND_ACCENTS[vehicle.kind]}
+              costs={vehicle.ownership}
+              unitSystem={unitSystem}
+              currency={currency}
+              suffixUnits={suffixUnits}
+              onFieldChange={(field, value) =>
+                handleFieldChange(vehicle.id, vehicle.ownership, field, value)
+              }
+              onFinancingChange={(financing) =>
+                handleFinancingChange(vehicle.id, vehicle.ownership, financing)
+              }
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function OwnershipColumn({
+  title,
+  accent,
+  costs,
+  unitSystem,
+  currency,
+  suffixUnits,
+  onFieldChange,
+  onFinancingChange,
+}: {
+  title: string;
+  accent: string;
+  costs: OwnershipCosts;
+  unitSystem: UnitSystem;
+  currency: CurrencyCode;
+  suffixUnits: SuffixUnits;
+  onFieldChange: (field: OwnershipField, value: number) => void;
+  onFinancingChange: (financing: FinancingType) => void;
+}) {
+  const annual = calculateAnnualFixedCosts(costs);
+  const monthlyPayment = calculateMonthlyPayment(costs);
+  const annualFixed =
+    annual.depreciation + annual.insurance + annual.registration + annual.financing;
+
+  return (
+    <div className="rounded-3xl border border-slate-100 bg-white/80 p-5 shadow-sm shadow-slate-900/5">
+      <div className="mb-4 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+          <span className={`h-2 w-2 rounded-full ${accent}`} />
+          {title}
+        </div>
+        <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-600">
+          {formatCurrency(annualFixed, currency)} / yr fixed
+        </span>
+      </div>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="segmented-control">
+          {FINANCING_TYPES.map((financing) => (
+            <button
+              key={financing}
+              type="button"
+              className={`segmented-control__item ${
+                costs.financing === financing ? 'is-active' : ''
+              }`}
+              onClick={() => onFinancingChange(financing)}
+              aria-pressed={costs.financing === financing}
+            >
+              {FINANCING_LABELS[financing]}
+            </button>
+          ))}
+        </div>
+        {costs.financing !== 'cash' && (
+          <span className="text-xs font-semibold text-slate-500">
+            {formatCurrency(monthlyPayment, currency)} / mo{' '}
+            {costs.financing === 'lease' ? 'lease payment' : 'loan payment'}
+          </span>
+        )}
+      </div>
+      <div className="grid gap-4 sm:grid-cols-3">
+        {FIELD_CONFIG.filter(
+          (config) => !config.showFor || config.showFor.includes(costs.financing)
+        ).map((config) => (
+          <NumberField
+            key={config.field}
+            label={config.label}
+            tooltip={config.tooltip}
+            suffix={config.suffix(suffixUnits)}
+            step={config.step}
+            value={
+              config.perDistance
+                ? roundForInput(toDisplayPerDistance(costs[config.field], unitSystem), 4)
+                : config.distance
+                  ? roundForInput(toDisplayDistance(costs[config.field], unitSystem), 0)
+                  : costs[config.field]
+            }
+            onChange={(value) => onFieldChange(config.field, value)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function NumberField({
+  label,
+  tooltip,
+  suffix,
+  step,
+  value,
+  onChange,
+}: {
+  label: string;
+  tooltip: string;
+  suffix: string;
+  step: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div>
+      <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+        {label}
+        <Tooltip content={tooltip} />
+      </div>
+      <div className="relative">
+        <input
+          type="number"
+          min={0}
+          step={step}
+          value={value}
+          onChange={(event) => onChange(parseFloat(event.target.value) || 0)}
+          className="form-input-shell pr-14"
+        />
+        <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+          {suffix}
+        </span>
+      </div>
+    </div>
+  );
+}
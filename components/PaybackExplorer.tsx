@@ -0,0 +1,330 @@
+'use client';
+
+import { useState } from 'react';
+import { CalculationResults, CalculatorInputs, CostOptionKey, OwnershipCosts } from '@/types';
+import { formatCurrency } from '@/lib/calculations';
+import { calculateChargerNetCost, usesHomeCharger } from '@/lib/home-charger';
+import { applyIncentives } from '@/lib/incentives';
+import { getVehicleConfigs, isPrimaryVehicle, updateVehicleOwnership } from '@/lib/vehicles';
+import { MAX_PAYBACK_MONTHS, calculatePayback, calculatePurchasePremium } from '@/lib/payback';
+import { formatAxisMoney, formatDistance, getCurrencySymbol } from '@/lib/units';
+import Tooltip from './Tooltip';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as RechartTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+interface PaybackExplorerProps {
+  inputs: CalculatorInputs;
+  results: CalculationResults;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+type PaybackSide = 'ev' | 'gas';
+
+type PriceField = keyof Pick<OwnershipCosts, 'purchasePrice' | 'incentives'>;
+
+const PRICE_FIELDS: {
+  side: PaybackSide;
+  field: PriceField;
+  label: string;
+  tooltip: string;
+}[] = [
+  {
+    side: 'ev',
+    field: 'purchasePrice',
+    label: 'price',
+    tooltip: 'Out-the-door price of the EV. Shared with the ownership cost section.',
+  },
+  {
+    side: 'ev',
+    field: 'incentives',
+    label: 'incentives',
+    tooltip: 'Rebates and tax credits you expect on the EV.',
+  },
+  {
+    side: 'gas',
+    field: 'purchasePrice',
+    label: 'price',
+    tooltip: 'Out-the-door price of the gas car you would buy instead.',
+  },
+  {
+    side: 'gas',
+    field: 'incentives',
+    label: 'incentives',
+    tooltip: 'Any rebates on the gas car, such as dealer cash.',
+  },
+];
+
+const PRIMARY_SIDE_NAMES: Record<PaybackSide, string> = {
+  ev: 'EV',
+  gas: 'Gas car',
+};
+
+function formatDuration(months: number): string {
+  if (months < 1) return 'Immediately';
+  const years = Math.floor(months / 12);
+  const remainder = Math.round(months % 12);
+  if (years === 0) return `${Math.round(months)} mo`;
+  return remainder === 0 ? `${years} yr` : `${years} yr ${remainder} mo`;
+}
+
+export default function PaybackExplorer({ inputs, results, onChange }: PaybackExplorerProps) {
+  const [selectedEvOption, setEvOption] = useState<CostOptionKey>('evMix');
+  const [selectedGasOption, setGasOption] = useState<CostOptionKey>('gasRegular');
+  const evOptions = results.options.filter((option) => option.vehicle.kind === 'ev');
+  const gasOptions = results.options.filter((option) => option.vehicle.kind === 'gas');
+  // Fall back to the first option when the chosen vehicle or fuel no longer applies
+  const evOption =
+    evOptions.find((option) => option.key === selectedEvOption) ?? evOptions[0];
+  const gasOption =
+    gasOptions.find((option) => option.key === selectedGasOption) ?? gasOptions[0];
+  const sides: Record<PaybackSide, typeof evOption> = { ev: evOption, gas: gasOption };
+  const { unitSystem, currency } = inputs;
+
+  const getSideName = (side: PaybackSide) => {
+    const vehicle = sides[side].vehicle;
+    return isPrimaryVehicle(vehicle) ? PRIMARY_SIDE_NAMES[side] : vehicle.name;
+  };
+
+  // Results carry matched incentives, so edit the entered values instead
+  const enteredVehicles = getVehicleConfigs(inputs);
+  const getEnteredOwnership = (side: PaybackSide) => {
+    const vehicle = sides[side].vehicle;
+    return enteredVehicles.find((item) => item.id === vehicle.id)?.ownership ?? vehicle.ownership;
+  };
+  const matchedIncentives =
+    evOption.vehicle.ownership.incentives - getEnteredOwnership('ev').incentives;
+
+  const handlePriceChange = (side: PaybackSide, field: PriceField, value: number) => {
+    const vehicle = sides[side].vehicle;
+    onChange(
+      updateVehicleOwnership(inputs, vehicle.id, {
+        ...getEnteredOwnership(side),
+        [field]: Math.max(0, Math.min(500000, value)),
+      })
+    );
+  };
+
+  // A home charger is paid up front, so home-charged options carry its whole net cost
+  const chargerCost = usesHomeCharger(evOption.energy, inputs.chargingMix)
+    ? calculateChargerNetCost(applyIncentives(inputs).homeCharger)
+    : 0;
+
+  const payback = calculatePayback({
+    premium:
+      calculatePurchasePremium(evOption.vehicle.ownership, gasOption.vehicle.ownership) +
+      chargerCost,
+    evAnnualFuelCost: results.yearly.options[evOption.key].fuelCost,
+    gasAnnualFuelCost: results.yearly.options[gasOption.key].fuelCost,
+    annualMiles: results.yearly.distance,
+    electricityEscalation: inputs.projection.electricityEscalation,
+    gasEscalation: inputs.projection.gasEscalation,
+    evAging: results.aging?.[evOption.key],
+    gasAging: results.aging?.[gasOption.key],
+  });
+
+  const horizonMonths = Math.min(
+    MAX_PAYBACK_MONTHS,
+    Math.max(60, Math.ceil(((payback.paybackMonths ?? 0) * 1.5) / 12) * 12)
+  );
+  const chartData = payback.points.filter((point) => point.month <= horizonMonths);
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div>
+        <p className="text-sm font-semibold text-slate-500">Payback</p>
+        <h2 className="mt-1 text-2xl font-semibold text-slate-900">
+          When does the EV pay for itself?
+        </h2>
+        <p className="text-sm text-slate-500">
+          Compare the EV&apos;s extra purchase cost, net of incentives, with the fuel you save
+          each month. Fuel prices grow at the rates set in the multi-year projection.
+        </p>
+      </div>
+
+      <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {PRICE_FIELDS.map(({ side, field, label, tooltip }) => (
+          <div key={`${side}-${field}`}>
+            <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+              {getSideName(side)} {label}
+              <Tooltip content={tooltip} />
+            </div>
+            <div className="relative">
+              <input
+                type="number"
+                min={0}
+                step="500"
+                value={getEnteredOwnership(side)[field]}
+                onChange={(event) =>
+                  handlePriceChange(side, field, parseFloat(event.target.value) || 0)
+                }
+                className="form-input-shell pr-14"
+              />
+              <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                {getCurrencySymbol(currency)}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+      {(matchedIncentives > 0 || chargerCost > 0) && (
+        <p className="mt-2 text-xs text-slate-500">
+          {matchedIncentives > 0 &&
+            `Plus ${formatCurrency(matchedIncentives, currency)} of matched incentives on the EV. `}
+          {chargerCost > 0 &&
+            `The premium includes ${formatCurrency(chargerCost, currency)} for the home charger install.`}
+        </p>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-end gap-4">
+        <OptionSelect
+          label="EV charging"
+          value={evOption.key}
+          options={evOptions}
+          onChange={setEvOption}
+        />
+        <OptionSelect
+          label="Fuel"
+          value={gasOption.key}
+          options={gasOptions}
+          onChange={setGasOption}
+        />
+      </div>
+
+      <div className="mt-6 grid gap-4 sm:grid-cols-3">
+        <StatCard label="Purchase premium" value={formatCurrency(payback.premium, currency)} />
+        <StatCard
+          label="Fuel savings (year 1)"
+          value={`${formatCurrency(payback.firstYearMonthlySavings, currency)} / mo`}
+        />
+        <StatCard
+          label="Payback"
+          value={
+            payback.paybackMonths === null
+              ? `Not within ${MAX_PAYBACK_MONTHS / 12} yr`
+              : formatDuration(payback.paybackMonths)
+          }
+          detail={
+            payback.paybackMiles !== null && payback.paybackMonths !== null && payback.paybackMonths >= 1
+              ? `${formatDistance(payback.paybackMiles, unitSystem)} of driving`
+              : undefined
+          }
+          tone={payback.paybackMonths === null ? 'text-rose-600' : 'text-emerald-600'}
+        />
+      </div>
+
+      <div className="mt-6 h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis
+              dataKey="month"
+              type="number"
+              domain={[0, horizonMonths]}
+              ticks={Array.from({ length: horizonMonths / 12 + 1 }, (_, index) => index * 12)}
+              tickFormatter={(value) => `Yr ${value / 12}`}
+              tick={{ fill: '#475569', fontSize: 12, fontWeight: 500 }}
+              tickLine={false}
+              axisLine={{ stroke: '#cbd5f5' }}
+            />
+            <YAxis
+              tickFormatter={(value: number) => formatAxisMoney(value, currency)}
+              tick={{ fill: '#475569', fontSize: 12, fontWeight: 500 }}
+              tickLine={false}
+              axisLine={{ stroke: '#cbd5f5' }}
+              width={60}
+            />
+            <RechartTooltip
+              formatter={(value: number) => formatCurrency(value, currency)}
+              labelFormatter={(value) => `Month ${value}`}
+            />
+            <Legend />
+            <Line
+              type="monotone"
+              dataKey="evCumulative"
+              name="EV: premium + charging"
+              stroke="#10b981"
+              strokeWidth={2}
+              dot={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="gasCumulative"
+              name="Gas: fuel"
+              stroke="#f59e0b"
+              strokeWidth={2}
+              dot={false}
+            />
+            {payback.paybackMonths !== null && payback.paybackMonths > 0 && (
+              <ReferenceLine
+                x={payback.paybackMonths}
+                stroke="#64748b"
+                strokeDasharray="4 4"
+                label={{ value: 'Payback', position: 'top', fill: '#475569', fontSize: 12 }}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </section>
+  );
+}
+
+function OptionSelect({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: CostOptionKey;
+  options: { key: CostOptionKey; label: string }[];
+  onChange: (value: CostOptionKey) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1">
+      <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+        {label}
+      </label>
+      <select
+        value={value}
+        onChange={(event) => onChange(event.target.value as CostOptionKey)}
+        className="rounded-2xl border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-900"
+      >
+        {options.map((option) => (
+          <option key={option.key} value={option.key}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function StatCard({
+  label,
+  value,
+  detail,
+  tone = 'text-slate-900',
+}: {
+  label: string;
+  value: string;
+  detail?: string;
+  tone?: string;
+}) {
+  return (
+    <div className="rounded-2xl border border-slate-100 bg-slate-50/80 p-4">
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">{label}</p>
+      <p className={`mt-1 text-2xl font-semibold ${tone}`}>{value}</p>
+      {detail && <p className="text-sm text-slate-500">{detail}</p>}
+    </div>
+  );
+}
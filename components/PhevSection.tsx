@@ -0,0 +1,274 @@
+'use client';
+
+import { useState } from 'react';
+import { CalculatorInputs, PhevSettings, PhevUtilityMode, UnitSystem } from '@/types';
+import {
+  PHEV_UTILITY_MODE_LABELS,
+  calculateUtilityFactor,
+  resolvePhevElectricShare,
+} from '@/lib/phev';
+import {
+  UNIT_LABELS,
+  UnitLabels,
+  formatDistance,
+  fromDisplayDistance,
+  fromDisplayEvEfficiency,
+  fromDisplayFuelEconomy,
+  roundForInput,
+  toDisplayDistance,
+  toDisplayEvEfficiency,
+  toDisplayFuelEconomy,
+} from '@/lib/units';
+import { GAS_FUEL_LABELS, GAS_VEHICLE_FUEL_OPTIONS } from '@/lib/fuels';
+import Tooltip from './Tooltip';
+import FuelEconomyVehicleSelect, { VehicleSelectionSummary } from './FuelEconomyVehicleSelect';
+
+interface PhevSectionProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+type PhevNumberField = keyof Pick<
+  PhevSettings,
+  'electricEfficiency' | 'gasEfficiency' | 'electricRange'
+>;
+
+const FIELD_CONFIG: {
+  field: PhevNumberField;
+  label: string;
+  tooltip: string;
+  unit: keyof UnitLabels;
+  step: string;
+  max: number;
+  toDisplay: (value: number, system: UnitSystem) => number;
+  fromDisplay: (value: number, system: UnitSystem) => number;
+}[] = [
+  {
+    field: 'electricEfficiency',
+    label: 'Electric efficiency',
+    tooltip: 'Efficiency while driving on the battery (charge-depleting mode).',
+    unit: 'evEfficiency',
+    step: '0.1',
+    max: 10,
+    toDisplay: toDisplayEvEfficiency,
+    fromDisplay: fromDisplayEvEfficiency,
+  },
+  {
+    field: 'gasEfficiency',
+    label: 'Hybrid economy',
+    tooltip: 'Fuel economy once the battery is depleted (charge-sustaining mode).',
+    unit: 'fuelEconomy',
+    step: '1',
+    max: 100,
+    toDisplay: toDisplayFuelEconomy,
+    fromDisplay: fromDisplayFuelEconomy,
+  },
+  {
+    field: 'electricRange',
+    label: 'Electric range',
+    tooltip: 'EPA-rated electric range. Drives the EPA utility factor.',
+    unit: 'distance',
+    step: '1',
+    max: 200,
+    toDisplay: toDisplayDistance,
+    fromDisplay: fromDisplayDistance,
+  },
+];
+
+const UTILITY_MODES: PhevUtilityMode[] = ['epa', 'custom'];
+
+export default function PhevSection({ inputs, onChange }: PhevSectionProps) {
+  const [selection, setSelection] = useState<VehicleSelectionSummary | null>(null);
+  // Metric efficiencies convert through mpg or mi/kWh, so hold the typed text while editing
+  const [draft, setDraft] = useState<{ field: PhevNumberField; text: string } | null>(null);
+  const phev = inputs.phev;
+  const { unitSystem } = inputs;
+  const electricShare = resolvePhevElectricShare(phev);
+
+  const updatePhev = (updates: Partial<PhevSettings>) => {
+    onChange({ ...inputs, phev: { ...phev, ...updates } });
+  };
+
+  const handleFieldChange = (field: PhevNumberField, value: number) => {
+    const config = FIELD_CONFIG.find((item) => item.field === field);
+    const canonical = config ? config.fromDisplay(value, unitSystem) : value;
+    updatePhev({ [field]: Math.max(0, Math.min(config?.max ?? canonical, canonical)) });
+  };
+
+  const handleVehicleResolved = (resolved: VehicleSelectionSummary | null) => {
+    setSelection(resolved);
+    if (!resolved) {
+      updatePhev({ vehicle: null });
+      return;
+    }
+    // Incentive matching checks the model year
+    const updates: Partial<PhevSettings> = {
+      vehicle: { year: resolved.year, make: resolved.make, model: resolved.model },
+    };
+    if (resolved.electricEfficiencies?.combined) {
+      updates.electricEfficiency = resolved.electricEfficiencies.combined;
+    }
+    if (resolved.efficiencies.combined) {
+      updates.gasEfficiency = resolved.efficiencies.combined;
+    }
+    if (resolved.electricRange) {
+      updates.electricRange = resolved.electricRange;
+    }
+    updatePhev(updates);
+  };
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">Plug-in hybrid</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">Compare a PHEV</h2>
+          <p className="text-sm text-slate-500">
+            A PHEV drives its first miles on electricity, then runs as a hybrid. Costs blend
+            home charging with the gas grade it burns by the share of miles driven
+            electrically.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            checked={phev.enabled}
+            onChange={(event) => updatePhev({ enabled: event.target.checked })}
+            className="accent-emerald-500"
+          />
+          Include in results
+        </label>
+      </div>
+
+      {phev.enabled && (
+        <div className="mt-6 grid gap-6 lg:grid-cols-[1fr,1.4fr]">
+          <FuelEconomyVehicleSelect
+            label="PHEV lookup"
+            unitSystem={inputs.unitSystem}
+            kind="phev"
+            selected={selection}
+            onVehicleResolved={handleVehicleResolved}
+          />
+          <div className="space-y-5">
+            <div className="grid gap-4 sm:grid-cols-3">
+              {FIELD_CONFIG.map((config) => {
+                const value = roundForInput(config.toDisplay(phev[config.field], unitSystem));
+                return (
+                  <div key={config.field}>
+                    <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      {config.label}
+                      <Tooltip content={config.tooltip} />
+                    </div>
+                    <div className="relative">
+                      <input
+                        type="number"
+                        min={0}
+                        step={unitSystem === 'metric' && config.unit !== 'distance' ? '0.1' : config.step}
+                        value={draft?.field === config.field ? draft.text : value}
+                        onFocus={() => setDraft({ field: config.field, text: value.toString() })}
+                        onBlur={() => setDraft(null)}
+                        onChange={(event) => {
+                          setDraft({ field: config.field, text: event.target.value });
+                          handleFieldChange(config.field, parseFloat(event.target.value) || 0);
+                        }}
+                        className="form-input-shell pr-20"
+                      />
+                      <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                        {UNIT_LABELS[unitSystem][config.unit]}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-6">
+              <div className="flex flex-col gap-2">
+                <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Gas grade
+                  <Tooltip content="Pump grade the PHEV burns once the battery is depleted, priced like the gas vehicle's fuel." />
+                </label>
+                <div className="segmented-control">
+                  {GAS_VEHICLE_FUEL_OPTIONS.gasoline.map((fuel) => (
+                    <button
+                      key={fuel}
+                      type="button"
+                      className={`segmented-control__item ${
+                        phev.gasFuel === fuel ? 'is-active' : ''
+                      }`}
+                      onClick={() => updatePhev({ gasFuel: fuel })}
+                      aria-pressed={phev.gasFuel === fuel}
+                    >
+                      {GAS_FUEL_LABELS[fuel]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-col gap-2">
+                <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Electric driving
+                  <Tooltip content="The EPA utility factor estimates the share of driving a typical driver covers on electricity from the electric range. Enter your own share if you know it." />
+                </label>
+                <div className="segmented-control">
+                  {UTILITY_MODES.map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      className={`segmented-control__item ${
+                        phev.utilityMode === mode ? 'is-active' : ''
+                      }`}
+                      onClick={() => updatePhev({ utilityMode: mode })}
+                      aria-pressed={phev.utilityMode === mode}
+                    >
+                      {PHEV_UTILITY_MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {phev.utilityMode === 'custom' && (
+                <div className="w-[150px]">
+                  <div className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    Electric share
+                  </div>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="5"
+                      value={phev.electricShare}
+                      onChange={(event) =>
+                        updatePhev({
+                          electricShare: Math.max(
+                            0,
+                            Math.min(100, parseFloat(event.target.value) || 0)
+                          ),
+                        })
+                      }
+                      className="form-input-shell pr-10"
+                    />
+                    <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-xs font-semibold text-slate-400">
+                      %
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <p className="text-sm text-slate-600">
+              <span className="font-semibold text-slate-900">
+                {Math.round(electricShare * 100)}% of driving
+              </span>{' '}
+              on electricity
+              {phev.utilityMode === 'custom' &&
+                ` (EPA utility factor for ${formatDistance(phev.electricRange, unitSystem)}: ${Math.round(
+                  calculateUtilityFactor(phev.electricRange) * 100
+                )}%)`}
+              .
+            </p>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -7,15 +7,22 @@ import {
   validateZipCode,
   reverseGeocode,
 } from '@/lib/api-services';
-import { CalculatorInputs } from '@/types';
+import { CLIMATE_REGIONS } from '@/lib/climate';
+import { CalculatorInputs, CurrencyCode, IncentiveSettings } from '@/types';
 
 interface PriceLookupProps {
   onUpdate: (updates: Partial<CalculatorInputs>) => void;
+  currency?: CurrencyCode;
+  incentives?: IncentiveSettings;
 }
 
 type LookupStatus = 'idle' | 'loading' | 'success' | 'error';
 
-export default function PriceLookup({ onUpdate }: PriceLookupProps) {
+export default function PriceLookup({
+  onUpdate,
+  currency = 'USD',
+  incentives,
+}: PriceLookupProps) {
   const [zipCode, setZipCode] = useState('');
   const [includeElectricity, setIncludeElectricity] = useState(true);
   const [includeGas, setIncludeGas] = useState(true);
@@ -38,6 +45,8 @@ export default function PriceLookup({ onUpdate }: PriceLookupProps) {
 
     const updates: Partial<CalculatorInputs> = {};
     const sources: string[] = [];
+    let stateCode: string | undefined;
+    let priceCurrency: CurrencyCode = 'USD';
 
     try {
       if (includeElectricity) {
@@ -45,6 +54,8 @@ export default function PriceLookup({ onUpdate }: PriceLookupProps) {
         if (data) {
           updates.homeElectricityPrice = data.residential;
           sources.push(`Electricity · ${data.source || 'API'}`);
+          stateCode = data.state ?? stateCode;
+          priceCurrency = data.currency ?? priceCurrency;
         }
       }
 
@@ -53,10 +64,37 @@ export default function PriceLookup({ onUpdate }: PriceLookupProps) {
         if (data) {
           updates.regularGasPrice = data.regular;
           updates.premiumGasPrice = data.premium;
+          if (data.midgrade) updates.midgradeGasPrice = data.midgrade;
+          if (data.diesel) updates.dieselPrice = data.diesel;
+          if (data.e85) updates.e85Price = data.e85;
           sources.push(`Gas · ${data.source || 'API'}`);
+          stateCode = data.state ?? stateCode;
+          priceCurrency = data.currency ?? priceCurrency;
         }
       }
 
+      const climateRegion = stateCode?.toUpperCase();
+      if (climateRegion && CLIMATE_REGIONS[climateRegion]) {
+        updates.climateRegion = climateRegion;
+        sources.push(`Climate · ${CLIMATE_REGIONS[climateRegion].name} temperature normals`);
+      }
+
+      const incentiveState = stateCode?.toUpperCase();
+      if (incentives && incentiveState && incentiveState !== incentives.state) {
+        // A new state has different utilities, so the chosen one no longer applies
+        updates.incentives = { ...incentives, state: incentiveState, utility: null };
+      }
+
+      if (priceCurrency === 'CAD' && Object.keys(updates).length) {
+        // Canadian lookups come back in CAD, so switch the display to match
+        updates.currency = 'CAD';
+        updates.unitSystem = 'metric';
+        sources.push('Display · CAD and metric units');
+      } else if (priceCurrency !== currency && Object.keys(updates).length) {
+        // Amounts are never converted, so flag prices that arrive in another currency
+        sources.push(`Prices are in ${priceCurrency}, not converted to ${currency}`);
+      }
+
       if (Object.keys(updates).length) {
         onUpdate(updates);
         setStatus('success');
@@ -66,7 +104,7 @@ export default function PriceLookup({ onUpdate }: PriceLookupProps) {
       }
 
       setStatus('error');
-      setMessage('No data returned. Try another ZIP or enter manually.');
+      setMessage('No data returned. Try another code or enter manually.');
       return false;
     } catch (error) {
       setStatus('error');
@@ -81,13 +119,13 @@ export default function PriceLookup({ onUpdate }: PriceLookupProps) {
 
     if (!trimmedZip) {
       setStatus('error');
-      setMessage('Please enter a ZIP code.');
+      setMessage('Please enter a ZIP or postal code.');
       return;
     }
 
     if (!validateZipCode(trimmedZip)) {
       setStatus('error');
-      setMessage('Invalid ZIP format. Use 5 digits or 5+4.');
+      setMessage('Invalid format. Use a 5-digit ZIP (or 5+4) or a postal code like A1A 1A1.');
       return;
     }
 
@@ -181,13 +219,13 @@ export default function PriceLookup({ onUpdate }: PriceLookupProps) {
         <div className="flex flex-wrap items-end gap-3">
           <div className="flex-1 min-w-[160px]">
             <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-              ZIP code
+              ZIP or postal code
             </label>
             <input
               type="text"
               value={zipCode}
               onChange={(event) => setZipCode(event.target.value)}
-              placeholder="12345"
+              placeholder="12345 or A1A 1A1"
               className="mt-2 form-input-shell"
               maxLength={10}
             />
@@ -0,0 +1,239 @@
+'use client';
+
+import {
+  CostOption,
+  CostOptionKey,
+  CurrencyCode,
+  EnergySource,
+  ProjectionResult,
+  ProjectionSettings,
+} from '@/types';
+import { formatCurrency } from '@/lib/calculations';
+import {
+  MAX_PROJECTION_YEARS,
+  normalizeProjectionSettings,
+} from '@/lib/projection';
+import { isPrimaryVehicle } from '@/lib/vehicles';
+import { formatAxisMoney } from '@/lib/units';
+import Tooltip from './Tooltip';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip as RechartTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+interface ProjectionChartProps {
+  projection: ProjectionResult;
+  settings: ProjectionSettings;
+  onSettingsChange: (settings: ProjectionSettings) => void;
+  options: CostOption[];
+  labels: Record<CostOptionKey, string>;
+  currency: CurrencyCode;
+  withAging: boolean;
+}
+
+const LINE_COLORS: Record<EnergySource, string> = {
+  evHome: '#10b981',
+  evFast: '#6366f1',
+  evMix: '#14b8a6',
+  phev: '#0ea5e9',
+  gasRegular: '#f59e0b',
+  gasMidgrade: '#f97316',
+  gasPremium: '#f43f5e',
+  diesel: '#78716c',
+  e85: '#84cc16',
+};
+
+const RATE_FIELDS: {
+  field: Exclude<keyof ProjectionSettings, 'years'>;
+  label: string;
+  tooltip: string;
+}[] = [
+  {
+    field: 'gasEscalation',
+    label: 'Gas price growth',
+    tooltip: 'Expected yearly change in gasoline prices. Applies to gas fuel costs from year 2.',
+  },
+  {
+    field: 'electricityEscalation',
+    label: 'Electricity growth',
+    tooltip: 'Expected yearly change in electricity and charging prices. Applies to EV fuel costs from year 2.',
+  },
+  {
+    field: 'discountRate',
+    label: 'Discount rate',
+    tooltip: 'Optional. Values future spending in today\'s money (net present value). Use 0 to skip discounting.',
+  },
+];
+
+export default function ProjectionChart({
+  projection,
+  settings,
+  onSettingsChange,
+  options,
+  labels,
+  currency,
+  withAging,
+}: ProjectionChartProps) {
+  const handleChange = (field: keyof ProjectionSettings, value: number) => {
+    onSettingsChange(normalizeProjectionSettings({ ...settings, [field]: value }));
+  };
+
+  const chartData = [
+    { year: 0, ...Object.fromEntries(options.map(({ key }) => [key, 0])) },
+    ...projection.years.map((point) => ({ year: point.year, ...point.cumulative })),
+  ];
+  const isDiscounted = settings.discountRate > 0;
+  const ranked = [...options].sort(
+    (a, b) => projection.total[a.key] - projection.total[b.key]
+  );
+
+  return (
+    <div className="mt-6 rounded-3xl border border-slate-100 bg-gradient-to-br from-slate-50 to-white p-5">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Multi-year projection
+          </p>
+          <p className="text-lg font-semibold text-slate-900">
+            Cumulative cost over {settings.years} {settings.years === 1 ? 'year' : 'years'}
+          </p>
+          <p className="text-sm text-slate-500">
+            Fuel costs grow with energy prices each year. Insurance, registration, and
+            maintenance recur; depreciation, loan interest, lease costs, and the charger install
+            stop once their periods end.
+            {withAging &&
+              ' Vehicle aging raises fuel use as efficiency drifts and adds battery replacements.'}
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <label
+            htmlFor="projection-years"
+            className="mb-1 flex items-center justify-between gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500"
+          >
+            Horizon
+            <span className="text-slate-700">{settings.years} yr</span>
+          </label>
+          <input
+            id="projection-years"
+            type="range"
+            min={1}
+            max={MAX_PROJECTION_YEARS}
+            step={1}
+            value={settings.years}
+            onChange={(event) => handleChange('years', parseInt(event.target.value, 10))}
+            className="w-full accent-indigo-500"
+          />
+        </div>
+        {RATE_FIELDS.map(({ field, label, tooltip }) => (
+          <div key={field}>
+            <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+              {label}
+              <Tooltip content={tooltip} />
+            </div>
+            <div className="relative">
+              <input
+                type="number"
+                step="0.5"
+                value={settings[field]}
+                onChange={(event) => handleChange(field, parseFloat(event.target.value) || 0)}
+                className="form-input-shell pr-14"
+              />
+              <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                % / yr
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-5 h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis
+              dataKey="year"
+              type="number"
+              domain={[0, settings.years]}
+              allowDecimals={false}
+              tickFormatter={(value) => `Yr ${value}`}
+              tick={{ fill: '#475569', fontSize: 12, fontWeight: 500 }}
+              tickLine={false}
+              axisLine={{ stroke: '#cbd5f5' }}
+            />
+            <YAxis
+              tickFormatter={(value: number) => formatAxisMoney(value, currency)}
+              tick={{ fill: '#475569', fontSize: 12, fontWeight: 500 }}
+              tickLine={false}
+              axisLine={{ stroke: '#cbd5f5' }}
+              width={60}
+            />
+            <RechartTooltip
+              formatter={(value: number, name: string) => [
+                formatCurrency(value, currency),
+                labels[name as CostOptionKey] ?? name,
+              ]}
+              labelFormatter={(value) => `After year ${value}`}
+            />
+            <Legend formatter={(value: string) => labels[value as CostOptionKey] ?? value} />
+            {options.map((option) => (
+              <Line
+                key={option.key}
+                type="monotone"
+                dataKey={option.key}
+                stroke={LINE_COLORS[option.energy]}
+                // Extra vehicles share colors with the primary vehicle's fuels, so dash them
+                strokeDasharray={isPrimaryVehicle(option.vehicle) ? undefined : '6 4'}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-slate-500">
+              <th className="py-2 font-semibold">Option</th>
+              <th className="py-2 text-right font-semibold">Total</th>
+              {isDiscounted && <th className="py-2 text-right font-semibold">NPV</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.map(({ key, energy }) => (
+              <tr key={key} className="border-t border-slate-100 text-slate-700">
+                <td className="py-2">
+                  <span className="flex items-center gap-2 font-semibold">
+                    <span
+                      className="h-2 w-2 rounded-full"
+                      style={{ backgroundColor: LINE_COLORS[energy] }}
+                    />
+                    {labels[key]}
+                  </span>
+                </td>
+                <td className="py-2 text-right font-semibold text-slate-900">
+                  {formatCurrency(projection.total[key], currency)}
+                </td>
+                {isDiscounted && (
+                  <td className="py-2 text-right font-semibold text-slate-900">
+                    {formatCurrency(projection.npv[key], currency)}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
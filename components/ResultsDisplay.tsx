@@ -10,10 +10,11 @@ interface ResultsDisplayProps {
 
 export default function ResultsDisplay({ scenario, scenarioName }: ResultsDisplayProps) {
   const allCosts = [
-    { name: 'EV (Home)', cost: scenario.evHomeCharging.totalCost },
-    { name: 'EV (Fast)', cost: scenario.evFastCharging.totalCost },
-    { name: 'Gas (Regular)', cost: scenario.gasRegular.totalCost },
-    { name: 'Gas (Premium)', cost: scenario.gasPremium.totalCost },
+    { name: 'EV (Home)', cost: scenario.options.evHome.totalCost },
+    { name: 'EV (Fast)', cost: scenario.options.evFast.totalCost },
+    { name: 'EV (Your mix)', cost: scenario.options.evMix.totalCost },
+    { name: 'Gas (Regular)', cost: scenario.options.gasRegular.totalCost },
+    { name: 'Gas (Premium)', cost: scenario.options.gasPremium.totalCost },
   ];
 
   const bestOption = allCosts.reduce((min, option) =>
@@ -28,28 +29,35 @@ export default function ResultsDisplay({ scenario, scenarioName }: ResultsDispla
   const optionCards = [
     {
       title: 'EV · Home charging',
-      data: scenario.evHomeCharging,
+      data: scenario.options.evHome,
       accent: 'from-emerald-50 to-white',
       border: 'border-emerald-200',
       text: 'text-emerald-900',
     },
     {
       title: 'EV · Fast charging',
-      data: scenario.evFastCharging,
+      data: scenario.options.evFast,
       accent: 'from-indigo-50 to-white',
       border: 'border-indigo-200',
       text: 'text-indigo-900',
     },
+    {
+      title: 'EV · Your mix',
+      data: scenario.options.evMix,
+      accent: 'from-teal-50 to-white',
+      border: 'border-teal-200',
+      text: 'text-teal-900',
+    },
     {
       title: 'Gas · Regular',
-      data: scenario.gasRegular,
+      data: scenario.options.gasRegular,
       accent: 'from-amber-50 to-white',
       border: 'border-amber-200',
       text: 'text-amber-900',
     },
     {
       title: 'Gas · Premium',
-      data: scenario.gasPremium,
+      data: scenario.options.gasPremium,
       accent: 'from-rose-50 to-white',
       border: 'border-rose-200',
       text: 'text-rose-900',
@@ -0,0 +1,390 @@
+'use client';
+
+import { useState } from 'react';
+import { CalculatorInputs, RoadTripSettings, VehicleConfig } from '@/types';
+import { calculateOptionCostPerMile, formatCurrency } from '@/lib/calculations';
+import { applyClimateAdjustment } from '@/lib/climate';
+import { GAS_VEHICLE_FUEL_OPTIONS } from '@/lib/fuels';
+import { calculateRoadTrip } from '@/lib/road-trip';
+import { PRIMARY_VEHICLE_IDS, getCostOptions, getVehicleConfigs } from '@/lib/vehicles';
+import {
+  UNIT_LABELS,
+  formatDistance,
+  fromDisplayDistance,
+  fromDisplayVolume,
+  roundForInput,
+  toDisplayDistance,
+  toDisplayVolume,
+} from '@/lib/units';
+import Tooltip from './Tooltip';
+
+interface RoadTripSectionProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+type TripField = keyof Omit<RoadTripSettings, 'batteryKwh'>;
+
+const TRIP_FIELDS: {
+  key: TripField;
+  label: string;
+  tooltip: string;
+  suffix: (units: { distance: string; volume: string }) => string;
+  step: string;
+  max: number;
+  convert?: 'distance' | 'volume';
+}[] = [
+  {
+    key: 'distance',
+    label: 'Trip length',
+    tooltip: 'One-way driving distance of the trip.',
+    suffix: (units) => units.distance,
+    step: '50',
+    max: 5000,
+    convert: 'distance',
+  },
+  {
+    key: 'departureSoc',
+    label: 'Leave home at',
+    tooltip: 'State of charge when you set off, charged at home.',
+    suffix: () => '%',
+    step: '5',
+    max: 100,
+  },
+  {
+    key: 'arrivalSoc',
+    label: 'Arrive at',
+    tooltip: 'Lowest charge you are comfortable reaching a charger or the destination with.',
+    suffix: () => '%',
+    step: '5',
+    max: 100,
+  },
+  {
+    key: 'chargeToSoc',
+    label: 'Charge to',
+    tooltip: 'Charge level you unplug at on each stop. Past 80% charging slows sharply.',
+    suffix: () => '%',
+    step: '5',
+    max: 100,
+  },
+  {
+    key: 'stationKw',
+    label: 'Charger power',
+    tooltip: 'Rated power of the fast chargers along the route.',
+    suffix: () => 'kW',
+    step: '25',
+    max: 500,
+  },
+  {
+    key: 'tankGallons',
+    label: 'Gas tank',
+    tooltip: 'Fuel tank size of the gas vehicle, to count fill-ups.',
+    suffix: (units) => units.volume,
+    step: '1',
+    max: 60,
+    convert: 'volume',
+  },
+  {
+    key: 'tripsPerYear',
+    label: 'Trips a year',
+    tooltip: 'How many trips like this you take each year, on top of everyday driving.',
+    suffix: () => '/ yr',
+    step: '1',
+    max: 100,
+  },
+];
+
+function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+export default function RoadTripSection({ inputs, onChange }: RoadTripSectionProps) {
+  const trip = inputs.roadTrip;
+  const { currency, unitSystem } = inputs;
+  const [selectedEvId, setSelectedEvId] = useState<string>(PRIMARY_VEHICLE_IDS.ev);
+  const [selectedGasId, setSelectedGasId] = useState<string>(PRIMARY_VEHICLE_IDS.gas);
+  const adjusted = applyClimateAdjustment(inputs);
+  const vehicles = getVehicleConfigs(adjusted);
+  const evVehicles = vehicles.filter((vehicle) => vehicle.kind === 'ev');
+  const gasVehicles = vehicles.filter((vehicle) => vehicle.kind === 'gas');
+  // The primary vehicles always exist, so removed extras fall back to them
+  const evVehicle = evVehicles.find((vehicle) => vehicle.id === selectedEvId) ?? evVehicles[0];
+  const gasVehicle =
+    gasVehicles.find((vehicle) => vehicle.id === selectedGasId) ?? gasVehicles[0];
+  const result = calculateRoadTrip(adjusted, evVehicle, gasVehicle);
+
+  // Everyday savings use the charging mix and the vehicle's main fuel
+  const options = getCostOptions(adjusted);
+  const gasFuel = GAS_VEHICLE_FUEL_OPTIONS[gasVehicle.gasVehicleFuel][0];
+  const evOption = options.find(
+    (option) => option.vehicle.id === evVehicle.id && option.energy === 'evMix'
+  );
+  const gasOption = options.find(
+    (option) => option.vehicle.id === gasVehicle.id && option.energy === gasFuel
+  );
+  const everydaySavings =
+    evOption && gasOption
+      ? (calculateOptionCostPerMile(adjusted, gasOption) -
+          calculateOptionCostPerMile(adjusted, evOption)) *
+        inputs.baseDistance *
+        365
+      : 0;
+  const tripGap = result.evCost - result.gasCost;
+  const yearlyTripGap = tripGap * Math.max(0, trip.tripsPerYear);
+
+  const units = {
+    distance: UNIT_LABELS[unitSystem].distance,
+    volume: UNIT_LABELS[unitSystem].volume,
+  };
+
+  const handleChange = (updates: Partial<RoadTripSettings>) => {
+    onChange({ ...inputs, roadTrip: { ...trip, ...updates } });
+  };
+
+  const toDisplay = (config: (typeof TRIP_FIELDS)[number]) => {
+    const value = trip[config.key];
+    switch (config.convert) {
+      case 'distance':
+        return roundForInput(toDisplayDistance(value, unitSystem), 0);
+      case 'volume':
+        return roundForInput(toDisplayVolume(value, unitSystem), 1);
+      default:
+        return value;
+    }
+  };
+
+  const handleFieldChange = (config: (typeof TRIP_FIELDS)[number], value: number) => {
+    const canonical =
+      config.convert === 'distance'
+        ? fromDisplayDistance(value, unitSystem)
+        : config.convert === 'volume'
+          ? fromDisplayVolume(value, unitSystem)
+          : value;
+    handleChange({ [config.key]: Math.max(0, Math.min(config.max, canonical)) });
+  };
+
+  let verdict: string;
+  if (!result.feasible) {
+    verdict = 'Raise the charge-to level above the arrival level to plan charging stops.';
+  } else if (tripGap <= 0) {
+    verdict = `Road trips add to the savings: each one costs ${formatCurrency(
+      -tripGap,
+      currency
+    )} less by EV.`;
+  } else if (everydaySavings <= 0) {
+    verdict = 'Everyday driving already costs more by EV, and road trips widen the gap.';
+  } else if (yearlyTripGap < everydaySavings) {
+    verdict = `Road trips give back ${Math.round(
+      (yearlyTripGap / everydaySavings) * 100
+    )}% of the ${formatCurrency(everydaySavings, currency, 0)} you save each year driving day to day.`;
+  } else {
+    verdict = `Road trips erase the savings: ${formatCurrency(
+      yearlyTripGap,
+      currency,
+      0
+    )} a year in extra trip costs against ${formatCurrency(
+      everydaySavings,
+      currency,
+      0
+    )} saved day to day.`;
+  }
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">Road trip</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">
+            Do road trips erase the savings?
+          </h2>
+          <p className="text-sm text-slate-500">
+            Plan a one-off trip: how many fast-charging stops the EV needs, how long they take,
+            and what the trip costs against filling up the gas vehicle.
+          </p>
+        </div>
+        {(evVehicles.length > 1 || gasVehicles.length > 1) && (
+          <div className="flex flex-wrap gap-3">
+            <VehicleSelect
+              label="EV"
+              value={evVehicle.id}
+              vehicles={evVehicles}
+              onChange={setSelectedEvId}
+            />
+            <VehicleSelect
+              label="Gas"
+              value={gasVehicle.id}
+              vehicles={gasVehicles}
+              onChange={setSelectedGasId}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6 space-y-5">
+        <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-4">
+          {TRIP_FIELDS.map((config) => (
+            <div key={config.key}>
+              <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                {config.label}
+                <Tooltip content={config.tooltip} />
+              </label>
+              <div className="relative">
+                <input
+                  type="number"
+                  min={0}
+                  max={config.max}
+                  step={config.step}
+                  value={toDisplay(config)}
+                  onChange={(event) =>
+                    handleFieldChange(config, parseFloat(event.target.value) || 0)
+                  }
+                  className="form-input-shell pr-14"
+                />
+                <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                  {config.suffix(units)}
+                </span>
+              </div>
+            </div>
+          ))}
+          <div>
+            <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Battery size
+              <Tooltip content="Usable battery capacity. Leave blank to use the battery from the fast charging section." />
+            </label>
+            <div className="relative">
+              <input
+                type="number"
+                min={0}
+                step="1"
+                value={trip.batteryKwh ?? ''}
+                placeholder={inputs.fastChargingTariff.batteryKwh.toString()}
+                onChange={(event) =>
+                  handleChange({
+                    batteryKwh:
+                      event.target.value === ''
+                        ? null
+                        : Math.max(0, Math.min(250, parseFloat(event.target.value) || 0)),
+                  })
+                }
+                className="form-input-shell pr-14"
+              />
+              <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                kWh
+              </span>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid gap-5 lg:grid-cols-2">
+          <div className="rounded-3xl border border-slate-100 bg-gradient-to-br from-slate-50 to-white p-5">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              {evVehicle.name}
+            </p>
+            <p className="text-2xl font-semibold text-slate-900">
+              {formatCurrency(result.evCost, currency)}
+            </p>
+            <p className="text-xs text-slate-500">
+              {formatCurrency(result.evHomeCost, currency)} of home charge ·{' '}
+              {formatCurrency(result.evFastCost, currency)} fast charging
+            </p>
+            <p className="mt-3 text-sm text-slate-600">
+              {result.stops.length === 0
+                ? 'No charging stops needed.'
+                : `${result.stops.length} ${
+                    result.stops.length === 1 ? 'stop' : 'stops'
+                  }, ${formatMinutes(result.chargingMinutes)} charging. About ${formatDistance(
+                    result.rangeBetweenStops,
+                    unitSystem
+                  )} between stops on a ${Math.round(result.batteryKwh)} kWh battery.`}
+            </p>
+            {result.stops.length > 0 && (
+              <ol className="mt-3 space-y-1 text-xs text-slate-500">
+                {result.stops.map((stop, index) => (
+                  <li key={index} className="flex justify-between gap-3">
+                    <span>
+                      Stop {index + 1}: {stop.arriveSoc}% → {stop.departSoc}%
+                    </span>
+                    <span>
+                      {formatMinutes(stop.minutes)} · {formatCurrency(stop.cost, currency)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+          <div className="rounded-3xl border border-slate-100 bg-gradient-to-br from-slate-50 to-white p-5">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              {gasVehicle.name}
+            </p>
+            <p className="text-2xl font-semibold text-slate-900">
+              {formatCurrency(result.gasCost, currency)}
+            </p>
+            <p className="text-xs text-slate-500">
+              {roundForInput(toDisplayVolume(result.gasGallons, unitSystem), 1)} {units.volume}{' '}
+              of fuel
+            </p>
+            <p className="mt-3 text-sm text-slate-600">
+              {result.gasStops === 0
+                ? 'Makes it on one tank.'
+                : `${result.gasStops} ${
+                    result.gasStops === 1 ? 'fill-up' : 'fill-ups'
+                  } on the way, about ${formatMinutes(result.gasMinutes)}.`}
+            </p>
+          </div>
+        </div>
+
+        <div className="rounded-3xl border border-slate-100 bg-white/80 p-5">
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Per trip
+          </p>
+          <p
+            className={`text-2xl font-semibold ${
+              tripGap <= 0 ? 'text-emerald-600' : 'text-slate-900'
+            }`}
+          >
+            EV {tripGap <= 0 ? 'saves' : 'costs'} {formatCurrency(Math.abs(tripGap), currency)}
+            {tripGap > 0 && ' more'}
+          </p>
+          <p className="mt-2 text-sm text-slate-600">{verdict}</p>
+          <p className="mt-2 text-xs text-slate-500">
+            Trip charging uses the fast-charging tariff; everyday savings use your charging mix
+            and daily distance.
+          </p>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function VehicleSelect({
+  label,
+  value,
+  vehicles,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  vehicles: VehicleConfig[];
+  onChange: (id: string) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+      {label}
+      <select
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        className="rounded-2xl border border-slate-200 bg-white px-3 py-1.5 text-sm font-semibold normal-case tracking-normal text-slate-900"
+      >
+        {vehicles.map((vehicle) => (
+          <option key={vehicle.id} value={vehicle.id}>
+            {vehicle.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
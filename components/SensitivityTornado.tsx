@@ -0,0 +1,226 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { CalculatorInputs, CostOption } from '@/types';
+import { formatCurrency } from '@/lib/calculations';
+import {
+  DEFAULT_SENSITIVITY_RANGE,
+  SENSITIVITY_RANGES,
+  SensitivityEntry,
+  SensitivityUnit,
+  calculateSensitivity,
+} from '@/lib/sensitivity';
+import {
+  DisplaySettings,
+  formatAxisMoney,
+  formatCostPerDistance,
+  formatDistance,
+  formatEvEfficiency,
+  formatFuelEconomy,
+  formatFuelPrice,
+} from '@/lib/units';
+import Tooltip from './Tooltip';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as RechartTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+type OptionRef = Pick<CostOption, 'key' | 'label'>;
+
+interface SensitivityTornadoProps {
+  inputs: CalculatorInputs;
+  ev: OptionRef;
+  baseline: OptionRef;
+}
+
+const LOW_COLOR = '#0ea5e9';
+const HIGH_COLOR = '#f59e0b';
+
+const formatInputValue = (
+  value: number,
+  unit: SensitivityUnit,
+  settings: DisplaySettings
+): string => {
+  switch (unit) {
+    case 'electricityPrice':
+      return `${formatCurrency(value, settings.currency, 3)}/kWh`;
+    case 'fuelPrice':
+      return formatFuelPrice(value, settings);
+    case 'evEfficiency':
+      return formatEvEfficiency(value, settings.unitSystem);
+    case 'fuelEconomy':
+      return formatFuelEconomy(value, settings.unitSystem);
+    case 'distance':
+      return `${formatDistance(value, settings.unitSystem, 1)}/day`;
+    case 'money':
+      return formatCurrency(value, settings.currency, 0);
+    case 'moneyPerDistance':
+      return formatCostPerDistance(value, settings, 3);
+  }
+};
+
+const formatSignedMoney = (value: number, settings: DisplaySettings, compact = false) => {
+  const formatted = compact
+    ? formatAxisMoney(Math.abs(value), settings.currency)
+    : formatCurrency(Math.abs(value), settings.currency, 0);
+  return `${value < 0 ? '-' : '+'}${formatted}`;
+};
+
+const ChartTooltip = ({ active, payload, settings }: any) => {
+  if (!active || !payload || !payload.length) return null;
+  const entry = payload[0].payload.entry as SensitivityEntry;
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white/95 px-3 py-2 text-xs text-slate-600 shadow-lg shadow-slate-900/10">
+      <p className="mb-1 font-semibold text-slate-800">{entry.label}</p>
+      <p>
+        <span style={{ color: LOW_COLOR }}>Low</span>{' '}
+        {formatInputValue(entry.low.value, entry.unit, settings)}: gap{' '}
+        {formatCurrency(entry.low.gap, settings.currency, 0)}
+      </p>
+      <p>
+        <span style={{ color: HIGH_COLOR }}>High</span>{' '}
+        {formatInputValue(entry.high.value, entry.unit, settings)}: gap{' '}
+        {formatCurrency(entry.high.gap, settings.currency, 0)}
+      </p>
+    </div>
+  );
+};
+
+export default function SensitivityTornado({ inputs, ev, baseline }: SensitivityTornadoProps) {
+  const [range, setRange] = useState(DEFAULT_SENSITIVITY_RANGE);
+  const result = useMemo(
+    () => calculateSensitivity(inputs, ev.key, baseline.key, range),
+    [inputs, ev.key, baseline.key, range]
+  );
+
+  const chartData = (result?.entries ?? []).map((entry) => ({
+    label: entry.label,
+    entry,
+    low: entry.low.gap - (result?.baseGap ?? 0),
+    high: entry.high.gap - (result?.baseGap ?? 0),
+  }));
+  const topEntry = result?.entries[0];
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">Sensitivity</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">
+            Which input moves the gap most?
+          </h2>
+          <p className="text-sm text-slate-500">
+            Each input is moved down and up on its own while everything else stays put. Bars show
+            how far the yearly gap between {baseline.label} and {ev.label} shifts.
+          </p>
+        </div>
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Change each input by
+            <Tooltip content="Every input is scaled by the same percentage in both directions. Gas price scales every fuel, and home electricity scales every rate in your home plan." />
+          </div>
+          <div className="segmented-control self-start">
+            {SENSITIVITY_RANGES.map((value) => (
+              <button
+                key={value}
+                type="button"
+                className={`segmented-control__item ${range === value ? 'is-active' : ''}`}
+                onClick={() => setRange(value)}
+                aria-pressed={range === value}
+              >
+                ±{value}%
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {result && (
+        <div className="mt-6 rounded-3xl border border-slate-100 bg-gradient-to-br from-slate-50 to-white p-5">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <p className="text-sm text-slate-600">
+              Yearly gap today:{' '}
+              <span
+                className={`font-semibold ${
+                  result.baseGap < 0 ? 'text-rose-600' : 'text-emerald-600'
+                }`}
+              >
+                {formatCurrency(result.baseGap, inputs.currency, 0)}
+              </span>
+            </p>
+            <div className="flex items-center gap-4 text-xs font-semibold text-slate-500">
+              <span className="flex items-center gap-1.5">
+                <span className="h-2.5 w-2.5 rounded-full" style={{ background: LOW_COLOR }} />
+                Input −{range}%
+              </span>
+              <span className="flex items-center gap-1.5">
+                <span className="h-2.5 w-2.5 rounded-full" style={{ background: HIGH_COLOR }} />
+                Input +{range}%
+              </span>
+            </div>
+          </div>
+
+          {chartData.length > 0 ? (
+            <>
+              <div className="mt-4" style={{ height: Math.max(200, chartData.length * 36 + 40) }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={chartData}
+                    layout="vertical"
+                    stackOffset="sign"
+                    margin={{ top: 10, right: 30, bottom: 10, left: 10 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" horizontal={false} />
+                    <XAxis
+                      type="number"
+                      tickFormatter={(value: number) => formatSignedMoney(value, inputs, true)}
+                      tick={{ fill: '#475569', fontSize: 12, fontWeight: 500 }}
+                      tickLine={false}
+                      axisLine={{ stroke: '#cbd5f5' }}
+                    />
+                    <YAxis
+                      type="category"
+                      dataKey="label"
+                      width={160}
+                      tick={{ fill: '#475569', fontSize: 12, fontWeight: 500 }}
+                      tickLine={false}
+                      axisLine={{ stroke: '#cbd5f5' }}
+                    />
+                    <RechartTooltip
+                      content={<ChartTooltip settings={inputs} />}
+                      cursor={{ fill: 'rgba(148,163,184,0.12)' }}
+                    />
+                    <ReferenceLine x={0} stroke="#334155" />
+                    <Bar dataKey="low" stackId="swing" fill={LOW_COLOR} name={`−${range}%`} />
+                    <Bar dataKey="high" stackId="swing" fill={HIGH_COLOR} name={`+${range}%`} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              {topEntry && (
+                <p className="mt-3 text-sm text-slate-600">
+                  <span className="font-semibold text-slate-900">{topEntry.label}</span> is the
+                  biggest lever: a ±{range}% change swings the gap by{' '}
+                  {formatCurrency(topEntry.swing, inputs.currency, 0)} a year.
+                </p>
+              )}
+              <p className="mt-2 text-xs text-slate-500">
+                Bars to the right widen the gap in the EV&apos;s favor; bars to the left narrow
+                it. Purchase price and maintenance only count when ownership costs are included.
+              </p>
+            </>
+          ) : (
+            <p className="mt-4 text-sm text-slate-500">
+              None of the tested inputs change the gap between these two options.
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
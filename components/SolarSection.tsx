@@ -0,0 +1,275 @@
+'use client';
+
+import { CalculatorInputs, SolarExportMode, SolarSettings } from '@/types';
+import { formatCurrency } from '@/lib/calculations';
+import { CLIMATE_REGIONS, applyClimateAdjustment, getClimateRegion } from '@/lib/climate';
+import { SOLAR_EXPORT_MODE_LABELS, calculateSolarCharging } from '@/lib/solar';
+import { getCurrencySymbol } from '@/lib/units';
+import Tooltip from './Tooltip';
+
+interface SolarSectionProps {
+  inputs: CalculatorInputs;
+  onChange: (inputs: CalculatorInputs) => void;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const REGION_OPTIONS = Object.entries(CLIMATE_REGIONS).sort(([codeA, a], [codeB, b]) =>
+  codeA === 'US' ? -1 : codeB === 'US' ? 1 : a.name.localeCompare(b.name)
+);
+
+const EXPORT_MODES = Object.entries(SOLAR_EXPORT_MODE_LABELS) as [SolarExportMode, string][];
+
+const PERCENT_FIELDS: {
+  key: 'householdSelfUse' | 'chargingOverlap';
+  label: string;
+  tooltip: string;
+}[] = [
+  {
+    key: 'householdSelfUse',
+    label: 'Used by the home',
+    tooltip: 'Share of production the rest of the house uses as it is made. Only the remainder is available for the car.',
+  },
+  {
+    key: 'chargingOverlap',
+    label: 'Charging in daylight',
+    tooltip: 'Share of home charging that happens while the panels are producing, such as weekend or work-from-home charging.',
+  },
+];
+
+export default function SolarSection({ inputs, onChange }: SolarSectionProps) {
+  const settings = inputs.solar;
+  const { currency } = inputs;
+  const region = getClimateRegion(inputs.climateRegion);
+  const result = calculateSolarCharging(applyClimateAdjustment(inputs));
+  const currencySymbol = getCurrencySymbol(currency);
+
+  const handleChange = (updates: Partial<SolarSettings>) => {
+    onChange({ ...inputs, solar: { ...settings, ...updates } });
+  };
+
+  return (
+    <section className="rounded-[28px] border border-white/20 bg-white/95 p-6 text-slate-900 shadow-lg shadow-indigo-900/5 sm:p-7">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-500">Home solar</p>
+          <h2 className="mt-1 text-2xl font-semibold text-slate-900">Charging from the roof</h2>
+          <p className="text-sm text-slate-500">
+            Cover part of home charging with rooftop solar. Solar kWh are priced at what they
+            would have earned on the grid, so the home rate becomes a blend.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(event) => handleChange({ enabled: event.target.checked })}
+            className="accent-emerald-500"
+          />
+          Include in results
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <div className="mt-6 space-y-5">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div>
+              <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                Location
+                <Tooltip content="Picks the regional production profile for your latitude band. Shared with the climate section, and the ZIP price lookup sets it automatically." />
+              </label>
+              <select
+                value={inputs.climateRegion}
+                onChange={(event) => onChange({ ...inputs, climateRegion: event.target.value })}
+                className="w-full rounded-2xl border border-slate-200 bg-white/80 px-3 py-2 text-sm text-slate-800"
+              >
+                {REGION_OPTIONS.map(([code, option]) => (
+                  <option key={code} value={code}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                System size
+                <Tooltip content="DC nameplate size of the array." />
+              </label>
+              <div className="relative">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.5"
+                  value={settings.systemSizeKw}
+                  onChange={(event) =>
+                    handleChange({
+                      systemSizeKw: Math.max(0, Math.min(50, parseFloat(event.target.value) || 0)),
+                    })
+                  }
+                  className="form-input-shell pr-12"
+                />
+                <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                  kW
+                </span>
+              </div>
+            </div>
+            {PERCENT_FIELDS.map(({ key, label, tooltip }) => (
+              <div key={key}>
+                <label className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {label}
+                  <Tooltip content={tooltip} />
+                </label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="5"
+                    value={settings[key]}
+                    onChange={(event) =>
+                      handleChange({
+                        [key]: Math.max(0, Math.min(100, parseFloat(event.target.value) || 0)),
+                      })
+                    }
+                    className="form-input-shell pr-10"
+                  />
+                  <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                    %
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                Exported solar earns
+                <Tooltip content="Net metering credits exports at the full retail rate, so charging from solar costs the same as charging from the grid. Under an export rate, solar used in the car only gives up that lower rate." />
+              </div>
+              <div className="segmented-control">
+                {EXPORT_MODES.map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    className={`segmented-control__item ${
+                      settings.exportMode === value ? 'is-active' : ''
+                    }`}
+                    onClick={() => handleChange({ exportMode: value })}
+                    aria-pressed={settings.exportMode === value}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {settings.exportMode === 'netBilling' && (
+              <div className="w-[180px]">
+                <div className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Export rate
+                </div>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={settings.exportRate}
+                    onChange={(event) =>
+                      handleChange({
+                        exportRate: Math.max(0, Math.min(2, parseFloat(event.target.value) || 0)),
+                      })
+                    }
+                    className="form-input-shell pr-16"
+                  />
+                  <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                    {currencySymbol}/kWh
+                  </span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-3xl border border-slate-100 bg-gradient-to-br from-slate-50 to-white p-5">
+            <div className="flex flex-wrap gap-6">
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Home charging from solar
+                </p>
+                <p className="text-2xl font-semibold text-amber-500">
+                  {(result.solarShare * 100).toFixed(0)}%
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Home charging rate
+                </p>
+                <p className="text-2xl font-semibold text-emerald-600">
+                  {formatCurrency(result.effectiveRate, currency, 3)}
+                  <span className="text-sm font-normal text-slate-500">/kWh</span>
+                </p>
+                <p className="text-xs text-slate-500">
+                  vs {formatCurrency(result.gridRate, currency, 3)}/kWh from the grid
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Yearly production
+                </p>
+                <p className="text-2xl font-semibold text-slate-900">
+                  {Math.round(result.annualProduction).toLocaleString()}
+                  <span className="text-sm font-normal text-slate-500"> kWh</span>
+                </p>
+              </div>
+            </div>
+
+            <div className="mt-4 overflow-x-auto">
+              <table className="w-full min-w-[640px] text-center text-xs">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th className="py-2 text-left font-semibold">{region.name} (kWh)</th>
+                    {MONTH_LABELS.map((label) => (
+                      <th key={label} className="py-2 font-semibold">
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="text-slate-700">
+                  <tr className="border-t border-slate-100">
+                    <td className="py-2 text-left font-semibold text-amber-600">Production</td>
+                    {result.months.map((month) => (
+                      <td key={month.month} className="py-2">
+                        {Math.round(month.production)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-t border-slate-100">
+                    <td className="py-2 text-left font-semibold text-slate-500">Home charging</td>
+                    {result.months.map((month) => (
+                      <td key={month.month} className="py-2">
+                        {Math.round(month.evKwh)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-t border-slate-100">
+                    <td className="py-2 text-left font-semibold text-emerald-600">From solar</td>
+                    {result.months.map((month) => (
+                      <td key={month.month} className="py-2">
+                        {Math.round(month.solarToEv)}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-3 text-xs text-slate-500">
+              Production uses a regional profile for your latitude band and a south-facing
+              fixed array, so nearby states share the same yields. The blended rate replaces
+              your home rate plan&apos;s price everywhere in the results.
+            </p>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
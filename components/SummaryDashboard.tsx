@@ -4,15 +4,45 @@ import { useState } from 'react';
 import {
   CalculationResults,
   CalculatorInputs,
+  CostBreakdown,
   UsageScale,
+  CostOption,
   CostOptionKey,
-  ScenarioResult,
+  ChargingMix,
+  EnergySource,
 } from '@/types';
-import { formatCurrency } from '@/lib/calculations';
+import {
+  calculateBlendedChargingPrice,
+  calculateDeliveredChargingPrices,
+  calculateEVCostPerMileHome,
+  calculateGasCostPerMile,
+  formatCurrency,
+  getChargingLocationPrices,
+  getOptionChargingPrices,
+} from '@/lib/calculations';
+import { getChargingEfficiency, getChargingLocationLosses } from '@/lib/charging';
+import { applyClimateAdjustment } from '@/lib/climate';
+import { applyIncentives } from '@/lib/incentives';
+import { GAS_FUEL_LABELS, getGasFuelPrice, isGasFuelOptionKey } from '@/lib/fuels';
+import { getVehicleFuelEfficiency } from '@/lib/vehicles';
+import {
+  UNIT_LABELS,
+  formatCostPerDistance,
+  formatDistance,
+  formatEvEfficiency,
+  formatFuelEconomy,
+  formatPriceUnit,
+  toDisplayFuelPrice,
+  toDisplayPerDistance,
+} from '@/lib/units';
+import ProjectionChart from './ProjectionChart';
+import UncertaintyPanel from './UncertaintyPanel';
+import TrueMonthlyCost from './TrueMonthlyCost';
 
 interface SummaryDashboardProps {
   results: CalculationResults;
   inputs: CalculatorInputs;
+  onInputsChange: (inputs: CalculatorInputs) => void;
   usageScale: UsageScale;
   onUsageScaleChange: (scale: UsageScale) => void;
   gapBaseline: CostOptionKey;
@@ -26,55 +56,95 @@ const scaleLabels: Record<UsageScale, string> = {
   yearly: 'per year',
 };
 
+const ownershipLineItems: {
+  key: keyof Omit<CostBreakdown, 'costPerMile' | 'totalCost' | 'fuelCostPerMile'>;
+  label: string;
+  leaseLabel?: string;
+}[] = [
+  { key: 'fuelCost', label: 'Fuel' },
+  { key: 'depreciationCost', label: 'Depreciation', leaseLabel: 'Lease depreciation and fees' },
+  { key: 'insuranceCost', label: 'Insurance' },
+  { key: 'maintenanceCost', label: 'Maintenance' },
+  { key: 'registrationCost', label: 'Registration' },
+  { key: 'financingCost', label: 'Loan interest', leaseLabel: 'Lease rent charge' },
+  { key: 'chargerCost', label: 'Home charger install' },
+];
+
 /**
- * Format cost per mile with higher precision to show small differences
+ * Format the share of metered energy that reaches the battery, e.g. "90% charging eff."
  */
-function formatCostPerMile(value: number): string {
-  return `$${value.toFixed(4)}`;
+function formatChargingEfficiency(lossPercent: number): string {
+  return `${Math.round(getChargingEfficiency(lossPercent) * 100)}% charging eff.`;
 }
 
-type ScenarioCostKey = keyof Omit<ScenarioResult, 'distance'>;
-
-const breakdownKey: Record<CostOptionKey, ScenarioCostKey> = {
-  evHome: 'evHomeCharging',
-  evFast: 'evFastCharging',
-  gasRegular: 'gasRegular',
-  gasPremium: 'gasPremium',
-};
+/**
+ * Describe a charging mix as a compact share list, e.g. "80% home · 10% DC fast"
+ */
+function formatMixShares(mix: ChargingMix): string {
+  const parts = [
+    { share: mix.home, label: 'home' },
+    { share: mix.workplace, label: 'workplace' },
+    { share: mix.publicLevel2, label: 'L2 public' },
+    { share: mix.dcFast, label: 'DC fast' },
+  ].filter((part) => part.share > 0);
+  return parts.length
+    ? parts.map((part) => `${Math.round(part.share)}% ${part.label}`).join(' · ')
+    : 'No charging mix set';
+}
 
 const optionMeta: Record<
-  CostOptionKey,
+  EnergySource,
   {
-    label: string;
     dot: string;
     accent: string;
   }
 > = {
   evHome: {
-    label: 'EV (Home)',
     dot: 'bg-emerald-500',
     accent: 'from-emerald-400/60 via-emerald-300/40 to-emerald-200/20',
   },
   evFast: {
-    label: 'EV (Fast)',
     dot: 'bg-indigo-500',
     accent: 'from-indigo-400/60 via-indigo-300/40 to-indigo-200/20',
   },
+  evMix: {
+    dot: 'bg-teal-500',
+    accent: 'from-teal-400/60 via-teal-300/40 to-teal-200/20',
+  },
+  phev: {
+    dot: 'bg-sky-500',
+    accent: 'from-sky-400/60 via-sky-300/40 to-sky-200/20',
+  },
   gasRegular: {
-    label: 'Gas (Regular)',
     dot: 'bg-amber-500',
     accent: 'from-amber-400/60 via-amber-300/40 to-amber-200/20',
   },
+  gasMidgrade: {
+    dot: 'bg-orange-500',
+    accent: 'from-orange-400/60 via-orange-300/40 to-orange-200/20',
+  },
   gasPremium: {
-    label: 'Gas (Premium)',
     dot: 'bg-rose-500',
     accent: 'from-rose-400/60 via-rose-300/40 to-rose-200/20',
   },
+  diesel: {
+    dot: 'bg-stone-500',
+    accent: 'from-stone-400/60 via-stone-300/40 to-stone-200/20',
+  },
+  e85: {
+    dot: 'bg-lime-500',
+    accent: 'from-lime-400/60 via-lime-300/40 to-lime-200/20',
+  },
 };
 
+const optionDots = Object.fromEntries(
+  Object.entries(optionMeta).map(([energy, meta]) => [energy, meta.dot])
+) as Record<EnergySource, string>;
+
 export default function SummaryDashboard({
   results,
   inputs,
+  onInputsChange,
   usageScale,
   onUsageScaleChange,
   gapBaseline,
@@ -91,30 +161,66 @@ export default function SummaryDashboard({
           ? results.monthly
           : results.yearly;
 
-  const optionOrder: CostOptionKey[] = [
-    'evHome',
-    'evFast',
-    'gasRegular',
-    'gasPremium',
-  ];
+  const { unitSystem, currency } = inputs;
+  const unitLabels = UNIT_LABELS[unitSystem];
+  const kwhPriceUnit = formatPriceUnit(currency, 'kWh');
+  const fuelPriceUnit = formatPriceUnit(currency, unitLabels.volume);
+  // Cost per mile with higher precision to show small differences
+  const formatCostPerMile = (value: number) => formatCostPerDistance(value, inputs);
+  const efficiencyNote = inputs.climateAdjustment ? ' (seasonal)' : '';
+  // Priced from the same seasonal, incentive-adjusted inputs as the results
+  const adjusted = applyIncentives(applyClimateAdjustment(inputs));
+  const chargingPrices = getChargingLocationPrices(adjusted);
+  const chargingLosses = getChargingLocationLosses(inputs);
+  const homeRateLabel = inputs.solar.enabled
+    ? `${kwhPriceUnit} (solar blended)`
+    : inputs.homeRatePlan === 'tou'
+      ? `${kwhPriceUnit} (TOU effective)`
+      : inputs.homeRatePlan === 'tiered'
+        ? `${kwhPriceUnit} (tiered marginal)`
+        : kwhPriceUnit;
+  const fastRateLabel =
+    inputs.fastChargingTariff.pricing === 'perMinute'
+      ? `${kwhPriceUnit} (per-minute effective)`
+      : kwhPriceUnit;
 
-  const assumptionMap: Record<CostOptionKey, string> = {
-    evHome: `${inputs.evEfficiency.toFixed(1)} mi/kWh · ${inputs.homeElectricityPrice.toFixed(2)} $/kWh`,
-    evFast: `${inputs.evEfficiency.toFixed(1)} mi/kWh · ${inputs.fastChargingPrice.toFixed(2)} $/kWh`,
-    gasRegular: `${inputs.gasEfficiency.toFixed(1)} mpg · ${inputs.regularGasPrice.toFixed(2)} $/gal`,
-    gasPremium: `${inputs.gasEfficiency.toFixed(1)} mpg · ${inputs.premiumGasPrice.toFixed(2)} $/gal`,
+  // Option vehicles come from the calculation, so their efficiencies are already seasonal
+  const getAssumption = (
+    { vehicle, energy, electricShare }: CostOption,
+    optionPrices: ChargingMix
+  ) => {
+    const evEfficiency = `${formatEvEfficiency(vehicle.efficiency, unitSystem, 1)}${efficiencyNote}`;
+    switch (energy) {
+      case 'evHome':
+        return `${evEfficiency} · ${optionPrices.home.toFixed(2)} ${homeRateLabel}`;
+      case 'evFast':
+        return `${evEfficiency} · ${chargingPrices.dcFast.toFixed(2)} ${fastRateLabel}`;
+      case 'evMix':
+        return `${evEfficiency} · ${formatMixShares(inputs.chargingMix)}`;
+      case 'phev':
+        return vehicle.phev
+          ? `${formatEvEfficiency(vehicle.phev.electricEfficiency, unitSystem, 1)} · ${formatFuelEconomy(vehicle.phev.gasEfficiency, unitSystem)}${efficiencyNote} · ${Math.round(electricShare * 100)}% electric ${unitSystem === 'metric' ? 'km' : 'miles'} · ${GAS_FUEL_LABELS[vehicle.phev.gasFuel].toLowerCase()} gas`
+          : '';
+      default:
+        return `${formatFuelEconomy(getVehicleFuelEfficiency(vehicle, energy), unitSystem)}${efficiencyNote} · ${toDisplayFuelPrice(getGasFuelPrice(inputs, energy), unitSystem).toFixed(2)} ${fuelPriceUnit}`;
+    }
   };
 
-  const optionRows = optionOrder.map((key) => {
-    const meta = optionMeta[key];
-    const breakdown = scenario[breakdownKey[key]];
+  const projectionLabels = Object.fromEntries(
+    results.options.map((option) => [option.key, option.label])
+  ) as Record<CostOptionKey, string>;
+
+  const optionRows = results.options.map((option) => {
+    const meta = optionMeta[option.energy];
+    // TOU and tiered home rates follow how much each option charges at home
+    const optionPrices = getOptionChargingPrices(adjusted, option, chargingPrices);
     return {
-      key,
-      label: meta.label,
+      ...option,
       dot: meta.dot,
       accent: meta.accent,
-      breakdown,
-      assumption: assumptionMap[key],
+      breakdown: scenario.options[option.key],
+      chargingPrices: optionPrices,
+      assumption: getAssumption(option, optionPrices),
     };
   });
 
@@ -129,7 +235,7 @@ export default function SummaryDashboard({
   // Compare EV Home vs selected baseline: negative means EV is more expensive (red), positive means EV is cheaper (green)
   const gapValue = gapTarget.breakdown.totalCost - evHomeOption.breakdown.totalCost;
 
-  const distanceLabel = `${scenario.distance.toLocaleString()} mi ${scaleLabels[usageScale]}`;
+  const distanceLabel = `${formatDistance(scenario.distance, unitSystem, 1)} ${scaleLabels[usageScale]}`;
 
   return (
     <section className="rounded-[28px] border border-slate-100 bg-white/95 p-6 shadow-lg shadow-slate-900/5 sm:p-8">
@@ -153,7 +259,7 @@ export default function SummaryDashboard({
         <div className="rounded-2xl border border-slate-100 bg-slate-50 px-4 py-3 text-sm text-slate-600">
           Best option:{' '}
           <span className="font-semibold text-slate-900">{bestOption.label}</span>{' '}
-          · {formatCurrency(bestOption.breakdown.totalCost)} {scaleLabels[usageScale]}
+          · {formatCurrency(bestOption.breakdown.totalCost, currency)} {scaleLabels[usageScale]}
         </div>
       </div>
 
@@ -166,14 +272,14 @@ export default function SummaryDashboard({
             <p className={`text-3xl font-semibold ${
               gapValue < 0 ? 'text-rose-600' : gapValue > 0 ? 'text-emerald-600' : 'text-slate-900'
             }`}>
-              {gapValue < 0 ? '-' : ''}{formatCurrency(Math.abs(gapValue))}
+              {gapValue < 0 ? '-' : ''}{formatCurrency(Math.abs(gapValue), currency)}
             </p>
             <p className="text-sm text-slate-500">
               {gapValue === 0 
                 ? `${evHomeOption.label} and ${gapTarget.label} are equal ${scaleLabels[usageScale]}`
                 : gapValue < 0
-                  ? `${gapTarget.label} is ${formatCurrency(Math.abs(gapValue))} cheaper than ${evHomeOption.label} ${scaleLabels[usageScale]}`
-                  : `${evHomeOption.label} is ${formatCurrency(gapValue)} cheaper than ${gapTarget.label} ${scaleLabels[usageScale]}`
+                  ? `${gapTarget.label} is ${formatCurrency(Math.abs(gapValue), currency)} cheaper than ${evHomeOption.label} ${scaleLabels[usageScale]}`
+                  : `${evHomeOption.label} is ${formatCurrency(gapValue, currency)} cheaper than ${gapTarget.label} ${scaleLabels[usageScale]}`
               }
             </p>
           </div>
@@ -208,7 +314,7 @@ export default function SummaryDashboard({
           const deltaLabel =
             delta === 0
               ? 'Best price'
-              : `${delta > 0 ? '+' : '-'}${formatCurrency(Math.abs(delta))} vs ${bestOption.label}`;
+              : `${delta > 0 ? '+' : '-'}${formatCurrency(Math.abs(delta), currency)} vs ${bestOption.label}`;
           const isExpanded = areDetailsExpanded;
           return (
             <div
@@ -247,15 +353,15 @@ export default function SummaryDashboard({
                 </div>
                 <div className="flex items-start justify-between gap-4">
                   <div className="flex flex-col gap-1">
-                    <p className="text-xs text-slate-500">Cost per mile</p>
+                    <p className="text-xs text-slate-500">Cost per {unitSystem === 'metric' ? 'km' : 'mile'}</p>
                     <p className="text-2xl font-semibold text-slate-900">
-                      {formatCurrency(option.breakdown.costPerMile)}
+                      {formatCurrency(toDisplayPerDistance(option.breakdown.costPerMile, unitSystem), currency)}
                     </p>
                   </div>
                   <div className="flex flex-col items-end gap-1">
                     <p className="text-xs text-slate-500">Total cost</p>
                     <div className="text-2xl font-semibold text-slate-900">
-                      {formatCurrency(option.breakdown.totalCost)}
+                      {formatCurrency(option.breakdown.totalCost, currency)}
                     </div>
                   </div>
                 </div>
@@ -279,28 +385,83 @@ export default function SummaryDashboard({
                 <div className="mt-4 space-y-4 rounded-2xl border border-slate-100 bg-slate-50/80 p-4 text-sm text-slate-600">
                   <div>
                     <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">
-                      Cost per mile calculation
+                      Cost per {unitSystem === 'metric' ? 'km' : 'mile'} calculation
                     </p>
                     <p className="text-base font-semibold text-slate-900">
-                      {option.key === 'evHome' && (
-                        <>{inputs.homeElectricityPrice.toFixed(2)} $/kWh ÷ {inputs.evEfficiency.toFixed(1)} mi/kWh = {formatCostPerMile(option.breakdown.costPerMile)}/mi</>
+                      {option.energy === 'evHome' && (
+                        <>{option.chargingPrices.home.toFixed(3)} {homeRateLabel} ÷ ({formatEvEfficiency(option.vehicle.efficiency, unitSystem, 1)} × {formatChargingEfficiency(chargingLosses.home)}) = {formatCostPerMile(option.breakdown.fuelCostPerMile)}</>
+                      )}
+                      {option.energy === 'evFast' && (
+                        <>{chargingPrices.dcFast.toFixed(2)} {fastRateLabel} ÷ ({formatEvEfficiency(option.vehicle.efficiency, unitSystem, 1)} × {formatChargingEfficiency(chargingLosses.dcFast)}) = {formatCostPerMile(option.breakdown.fuelCostPerMile)}</>
                       )}
-                      {option.key === 'evFast' && (
-                        <>{inputs.fastChargingPrice.toFixed(2)} $/kWh ÷ {inputs.evEfficiency.toFixed(1)} mi/kWh = {formatCostPerMile(option.breakdown.costPerMile)}/mi</>
+                      {option.energy === 'evMix' && (
+                        <>{calculateBlendedChargingPrice(
+                          inputs.chargingMix,
+                          calculateDeliveredChargingPrices(option.chargingPrices, chargingLosses)
+                        ).toFixed(3)} {kwhPriceUnit} delivered ÷ {formatEvEfficiency(option.vehicle.efficiency, unitSystem, 1)} = {formatCostPerMile(option.breakdown.fuelCostPerMile)}</>
                       )}
-                      {(option.key === 'gasRegular' || option.key === 'gasPremium') && (
-                        <>{option.key === 'gasRegular' ? inputs.regularGasPrice.toFixed(2) : inputs.premiumGasPrice.toFixed(2)} $/gal ÷ {inputs.gasEfficiency.toFixed(1)} mpg = {formatCostPerMile(option.breakdown.costPerMile)}/mi</>
+                      {option.energy === 'phev' && option.vehicle.phev && (
+                        <>{Math.round(option.electricShare * 100)}% × {formatCostPerMile(
+                          calculateEVCostPerMileHome(
+                            option.vehicle.phev.electricEfficiency,
+                            option.chargingPrices.home,
+                            chargingLosses.home
+                          )
+                        )} + {Math.round((1 - option.electricShare) * 100)}% × {formatCostPerMile(
+                          calculateGasCostPerMile(
+                            option.vehicle.phev.gasEfficiency,
+                            getGasFuelPrice(inputs, option.vehicle.phev.gasFuel)
+                          )
+                        )} = {formatCostPerMile(option.breakdown.fuelCostPerMile)}</>
+                      )}
+                      {isGasFuelOptionKey(option.energy) && (
+                        <>{toDisplayFuelPrice(getGasFuelPrice(inputs, option.energy), unitSystem).toFixed(2)} {fuelPriceUnit} ÷ {formatFuelEconomy(getVehicleFuelEfficiency(option.vehicle, option.energy), unitSystem)} = {formatCostPerMile(option.breakdown.fuelCostPerMile)}</>
                       )}
                     </p>
                   </div>
                   <div>
                     <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">
-                      Total cost calculation
+                      {inputs.includeOwnershipCosts || option.breakdown.chargerCost > 0
+                        ? 'Fuel cost calculation'
+                        : 'Total cost calculation'}
                     </p>
                     <p className="text-base font-semibold text-slate-900">
-                      {scenario.distance.toLocaleString()} mi × {formatCostPerMile(option.breakdown.costPerMile)}/mi = {formatCurrency(option.breakdown.totalCost)}
+                      {formatDistance(scenario.distance, unitSystem, 1)} × {formatCostPerMile(option.breakdown.fuelCostPerMile)} = {formatCurrency(option.breakdown.fuelCost, currency)}
                     </p>
                   </div>
+                  {(inputs.includeOwnershipCosts || option.breakdown.chargerCost > 0) && (
+                    <div>
+                      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">
+                        {inputs.includeOwnershipCosts ? 'Ownership costs' : 'Cost breakdown'}
+                      </p>
+                      <dl className="space-y-1">
+                        {ownershipLineItems
+                          .filter((item) =>
+                            item.key === 'chargerCost'
+                              ? option.breakdown.chargerCost > 0
+                              : inputs.includeOwnershipCosts || item.key === 'fuelCost'
+                          )
+                          .map((item) => (
+                            <div key={item.key} className="flex items-center justify-between gap-2">
+                              <dt>
+                                {option.vehicle.ownership.financing === 'lease'
+                                  ? item.leaseLabel ?? item.label
+                                  : item.label}
+                              </dt>
+                              <dd className="font-semibold text-slate-900">
+                                {formatCurrency(option.breakdown[item.key], currency)}
+                              </dd>
+                            </div>
+                          ))}
+                        <div className="flex items-center justify-between gap-2 border-t border-slate-200 pt-1">
+                          <dt className="font-semibold text-slate-700">Total cost</dt>
+                          <dd className="font-semibold text-slate-900">
+                            {formatCurrency(option.breakdown.totalCost, currency)}
+                          </dd>
+                        </div>
+                      </dl>
+                    </div>
+                  )}
                   <div>
                     <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">
                       Assumptions
@@ -315,6 +476,30 @@ export default function SummaryDashboard({
           );
         })}
       </div>
+
+      <TrueMonthlyCost
+        results={results}
+        currency={currency}
+        dots={optionDots}
+      />
+
+      <UncertaintyPanel
+        settings={inputs.uncertainty}
+        onSettingsChange={(uncertainty) => onInputsChange({ ...inputs, uncertainty })}
+        result={results.uncertainty}
+        options={results.options}
+        currency={currency}
+      />
+
+      <ProjectionChart
+        projection={results.projection}
+        settings={inputs.projection}
+        onSettingsChange={(projection) => onInputsChange({ ...inputs, projection })}
+        options={results.options}
+        labels={projectionLabels}
+        currency={currency}
+        withAging={results.aging !== null}
+      />
     </section>
   );
 }
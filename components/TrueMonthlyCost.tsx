@@ -0,0 +1,108 @@
+'use client';
+
+import { CalculationResults, CurrencyCode, EnergySource } from '@/types';
+import { formatCurrency } from '@/lib/calculations';
+import { FINANCING_LABELS, calculateTrueMonthlyCost } from '@/lib/financing';
+
+interface TrueMonthlyCostProps {
+  results: CalculationResults;
+  currency: CurrencyCode;
+  dots: Record<EnergySource, string>;
+}
+
+export default function TrueMonthlyCost({ results, currency, dots }: TrueMonthlyCostProps) {
+  const rows = results.options.map((option) => {
+    const { ownership } = option.vehicle;
+    return {
+      key: option.key,
+      label: option.label,
+      dot: dots[option.energy],
+      financing: ownership.financing,
+      termMonths:
+        ownership.financing === 'lease'
+          ? ownership.leaseTermMonths
+          : ownership.financing === 'loan'
+            ? ownership.loanTermMonths
+            : 0,
+      ...calculateTrueMonthlyCost(
+        ownership,
+        results.monthly.options[option.key].fuelCost,
+        results.monthly.distance
+      ),
+    };
+  });
+  const maxTotal = Math.max(...rows.map((row) => row.total), 0);
+  const cheapest = rows.reduce((min, row) => (row.total < min.total ? row : min), rows[0]);
+
+  return (
+    <div className="mt-6 rounded-3xl border border-slate-100 bg-gradient-to-br from-slate-50 to-white p-5">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          True monthly cost
+        </p>
+        <p className="text-lg font-semibold text-slate-900">Payment plus energy, per month</p>
+        <p className="text-sm text-slate-500">
+          Loan or lease payment from the ownership section plus energy for the monthly
+          scenario. Insurance, maintenance and up-front cash are left out.
+        </p>
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-slate-500">
+              <th className="py-2 font-semibold">Option</th>
+              <th className="py-2 text-right font-semibold">Payment</th>
+              <th className="py-2 text-right font-semibold">Energy</th>
+              <th className="py-2 text-right font-semibold">Total / mo</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t border-slate-100 text-slate-700">
+                <td className="py-2">
+                  <div className="flex items-center gap-2 font-semibold">
+                    <span className={`h-2 w-2 rounded-full ${row.dot}`} />
+                    {row.label}
+                  </div>
+                  <div className="mt-1 h-1.5 rounded-full bg-slate-100">
+                    <div
+                      className="h-full rounded-full bg-slate-400"
+                      style={{ width: `${maxTotal > 0 ? (row.total / maxTotal) * 100 : 0}%` }}
+                    />
+                  </div>
+                </td>
+                <td className="py-2 text-right">
+                  {formatCurrency(row.payment, currency)}
+                  <p className="text-xs text-slate-400">
+                    {FINANCING_LABELS[row.financing]}
+                    {row.termMonths > 0 ? ` · ${row.termMonths} mo` : ''}
+                  </p>
+                </td>
+                <td className="py-2 text-right">
+                  {formatCurrency(row.energy, currency)}
+                  {row.overage > 0 && (
+                    <p className="text-xs text-rose-500">
+                      +{formatCurrency(row.overage, currency)} overage
+                    </p>
+                  )}
+                </td>
+                <td
+                  className={`py-2 text-right font-semibold ${
+                    row.key === cheapest?.key ? 'text-emerald-600' : 'text-slate-900'
+                  }`}
+                >
+                  {formatCurrency(row.total, currency)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-slate-500">
+        Loan payments stop when the loan is paid off; lease payments continue for as long as
+        you keep leasing.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+'use client';
+
+import {
+  CostOption,
+  CurrencyCode,
+  UncertaintyDistribution,
+  UncertaintyResult,
+  UncertaintySettings,
+  VehicleKind,
+} from '@/types';
+import { formatCurrency } from '@/lib/calculations';
+import {
+  UNCERTAINTY_DISTRIBUTION_LABELS,
+  UNCERTAINTY_SAMPLES,
+  normalizeUncertaintySettings,
+  resolveUncertaintyEvOption,
+} from '@/lib/uncertainty';
+import { formatAxisMoney } from '@/lib/units';
+import Tooltip from './Tooltip';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ErrorBar,
+  ResponsiveContainer,
+  Tooltip as RechartTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+interface UncertaintyPanelProps {
+  settings: UncertaintySettings;
+  onSettingsChange: (settings: UncertaintySettings) => void;
+  result: UncertaintyResult | null;
+  options: CostOption[];
+  currency: CurrencyCode;
+}
+
+type RangeField = Exclude<keyof UncertaintySettings, 'enabled' | 'distribution'>;
+
+const RANGE_FIELDS: { field: RangeField; label: string; tooltip: string }[] = [
+  {
+    field: 'gasPriceRange',
+    label: 'Fuel price',
+    tooltip: 'How far gas, diesel and E85 prices could move from what you entered, in either direction.',
+  },
+  {
+    field: 'electricityPriceRange',
+    label: 'Electricity price',
+    tooltip: 'How far home, workplace, public and fast charging prices could move from what you entered.',
+  },
+  {
+    field: 'efficiencyRange',
+    label: 'Efficiency',
+    tooltip: 'Real-world efficiency against the rating. EV and gas efficiency are sampled separately.',
+  },
+  {
+    field: 'distanceRange',
+    label: 'Distance',
+    tooltip: 'How much your yearly driving could differ from the daily distance you entered.',
+  },
+];
+
+const DISTRIBUTIONS: UncertaintyDistribution[] = ['uniform', 'triangular', 'normal'];
+
+const KIND_COLORS: Record<VehicleKind, string> = {
+  ev: '#10b981',
+  phev: '#0ea5e9',
+  gas: '#f59e0b',
+};
+
+export default function UncertaintyPanel({
+  settings,
+  onSettingsChange,
+  result,
+  options,
+  currency,
+}: UncertaintyPanelProps) {
+  const handleChange = (updates: Partial<UncertaintySettings>) => {
+    onSettingsChange(normalizeUncertaintySettings({ ...settings, ...updates }));
+  };
+
+  const chartData = result
+    ? options.map((option) => {
+        const { p10, p50, p90 } = result.options[option.key];
+        return {
+          key: option.key,
+          label: option.label,
+          kind: option.vehicle.kind,
+          p10,
+          p50,
+          p90,
+          range: [p50 - p10, p90 - p50],
+        };
+      })
+    : [];
+  const probability = result?.evCheaperProbability ?? null;
+  const evOptions = options.filter((option) => option.vehicle.kind === 'ev');
+  const evOption = resolveUncertaintyEvOption(options, settings.evOption);
+
+  return (
+    <div className="mt-6 rounded-3xl border border-slate-100 bg-gradient-to-br from-slate-50 to-white p-5">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Uncertainty
+          </p>
+          <p className="text-lg font-semibold text-slate-900">How confident is the yearly cost?</p>
+          <p className="text-sm text-slate-500">
+            Sample prices, efficiency and distance across their likely ranges and show where
+            yearly cost lands 80% of the time.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(event) => handleChange({ enabled: event.target.checked })}
+            className="accent-emerald-500"
+          />
+          Show ranges
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="mt-4 flex flex-col gap-2">
+            <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Distribution
+              <Tooltip content="Uniform treats every value in a range as equally likely. Triangular favors values near your inputs. Normal treats each range as two standard deviations, so a few samples land outside it." />
+            </div>
+            <div className="segmented-control self-start">
+              {DISTRIBUTIONS.map((distribution) => (
+                <button
+                  key={distribution}
+                  type="button"
+                  className={`segmented-control__item ${
+                    settings.distribution === distribution ? 'is-active' : ''
+                  }`}
+                  onClick={() => handleChange({ distribution })}
+                  aria-pressed={settings.distribution === distribution}
+                >
+                  {UNCERTAINTY_DISTRIBUTION_LABELS[distribution]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {RANGE_FIELDS.map(({ field, label, tooltip }) => (
+              <div key={field}>
+                <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {label}
+                  <Tooltip content={tooltip} />
+                </div>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min={0}
+                    step="5"
+                    value={settings[field]}
+                    onChange={(event) =>
+                      handleChange({ [field]: parseFloat(event.target.value) || 0 })
+                    }
+                    className="form-input-shell pr-12"
+                  />
+                  <span className="pointer-events-none absolute inset-y-0 right-4 flex items-center text-[11px] font-semibold text-slate-400">
+                    ± %
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {result && (
+            <>
+              {probability !== null && evOption && (
+                <div className="mt-5 flex flex-wrap items-center gap-2 rounded-2xl border border-slate-100 bg-white px-4 py-3 text-sm text-slate-600">
+                  <select
+                    value={evOption.key}
+                    onChange={(event) => handleChange({ evOption: event.target.value })}
+                    aria-label="EV option"
+                    className="rounded-xl border border-slate-200 bg-white px-3 py-1 text-sm font-semibold text-slate-900"
+                  >
+                    {evOptions.map((option) => (
+                      <option key={option.key} value={option.key}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <span>
+                    is cheaper than the best gas option in{' '}
+                    <span
+                      className={`font-semibold ${
+                        probability >= 0.5 ? 'text-emerald-600' : 'text-rose-600'
+                      }`}
+                    >
+                      {Math.round(probability * 100)}%
+                    </span>{' '}
+                    of {result.samples.toLocaleString()} samples.
+                  </span>
+                </div>
+              )}
+
+              <div className="mt-5" style={{ height: Math.max(200, chartData.length * 40 + 40) }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={chartData}
+                    layout="vertical"
+                    margin={{ top: 10, right: 30, bottom: 10, left: 10 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" horizontal={false} />
+                    <XAxis
+                      type="number"
+                      tickFormatter={(value: number) => formatAxisMoney(value, currency)}
+                      tick={{ fill: '#475569', fontSize: 12, fontWeight: 500 }}
+                      tickLine={false}
+                      axisLine={{ stroke: '#cbd5f5' }}
+                    />
+                    <YAxis
+                      type="category"
+                      dataKey="label"
+                      width={150}
+                      tick={{ fill: '#475569', fontSize: 12, fontWeight: 500 }}
+                      tickLine={false}
+                      axisLine={{ stroke: '#cbd5f5' }}
+                    />
+                    <RechartTooltip
+                      formatter={(value: number, _name, item) => [
+                        `${formatCurrency(item.payload.p10, currency)} – ${formatCurrency(
+                          item.payload.p90,
+                          currency
+                        )} (median ${formatCurrency(value, currency)})`,
+                        'P10 – P90',
+                      ]}
+                    />
+                    <Bar dataKey="p50" radius={[0, 6, 6, 0]} fillOpacity={0.75}>
+                      {chartData.map((entry) => (
+                        <Cell key={entry.key} fill={KIND_COLORS[entry.kind]} />
+                      ))}
+                      <ErrorBar dataKey="range" direction="x" width={6} stroke="#334155" />
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="mt-4 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs uppercase tracking-wide text-slate-500">
+                      <th className="py-2 font-semibold">Option</th>
+                      <th className="py-2 text-right font-semibold">P10</th>
+                      <th className="py-2 text-right font-semibold">P50</th>
+                      <th className="py-2 text-right font-semibold">P90</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {chartData.map((row) => (
+                      <tr key={row.key} className="border-t border-slate-100 text-slate-700">
+                        <td className="py-2 font-semibold">{row.label}</td>
+                        <td className="py-2 text-right">{formatCurrency(row.p10, currency)}</td>
+                        <td className="py-2 text-right font-semibold text-slate-900">
+                          {formatCurrency(row.p50, currency)}
+                        </td>
+                        <td className="py-2 text-right">{formatCurrency(row.p90, currency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-2 text-xs text-slate-500">
+                Yearly cost per option from {UNCERTAINTY_SAMPLES.toLocaleString()} samples. P10
+                and P90 bound the middle 80% of outcomes; P50 is the median.
+              </p>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
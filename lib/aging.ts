@@ -0,0 +1,128 @@
+import {
+  BatteryReplacementTrigger,
+  VehicleAging,
+  VehicleConfig,
+  VehicleKind,
+} from '@/types';
+
+// Long enough for the longest projection and payback horizons
+export const MAX_AGING_YEARS = 20;
+export const MAX_AGING_RATE = 20; // % per year
+
+export const DEFAULT_EV_AGING: VehicleAging = {
+  efficiencyDrift: 0.5,
+  capacityLoss: 2,
+  batteryReplacement: false,
+  batteryReplacementCost: 15000,
+  replacementTrigger: 'year',
+  replacementYear: 10,
+  replacementMileage: 150000,
+};
+
+export const DEFAULT_GAS_AGING: VehicleAging = {
+  efficiencyDrift: 0.7,
+  capacityLoss: 0,
+  batteryReplacement: false,
+  batteryReplacementCost: 0,
+  replacementTrigger: 'year',
+  replacementYear: 10,
+  replacementMileage: 150000,
+};
+
+export const DEFAULT_PHEV_AGING: VehicleAging = {
+  efficiencyDrift: 0.6,
+  capacityLoss: 2,
+  batteryReplacement: false,
+  batteryReplacementCost: 8000,
+  replacementTrigger: 'year',
+  replacementYear: 10,
+  replacementMileage: 150000,
+};
+
+export const BATTERY_REPLACEMENT_TRIGGER_LABELS: Record<BatteryReplacementTrigger, string> = {
+  year: 'At a year',
+  mileage: 'At a mileage',
+};
+
+export interface AgingYear {
+  year: number; // 1 for the first year of ownership
+  efficiency: number; // share of rated mi/kWh or mpg left, 0-1
+  capacity: number; // share of battery capacity left, 0-1
+  batteryReplaced: boolean; // a new battery goes in at the start of this year
+}
+
+const clampRate = (value: number) => Math.max(0, Math.min(MAX_AGING_RATE, value)) / 100;
+
+/**
+ * Plug-in vehicles have a traction battery that fades and can be replaced
+ */
+export function hasTractionBattery(kind: VehicleKind): boolean {
+  return kind !== 'gas';
+}
+
+/**
+ * Year the battery is replaced in, or null when it is not. A mileage trigger fires in
+ * the first year that starts past the mileage.
+ */
+export function resolveReplacementYear(
+  aging: VehicleAging,
+  kind: VehicleKind,
+  annualMiles: number
+): number | null {
+  if (!hasTractionBattery(kind) || !aging.batteryReplacement) return null;
+  if (aging.replacementTrigger === 'year') return Math.max(1, Math.round(aging.replacementYear));
+  if (annualMiles <= 0) return null;
+  return Math.floor(Math.max(0, aging.replacementMileage) / annualMiles) + 1;
+}
+
+/**
+ * Efficiency and battery capacity left in each year of ownership. Both compound from
+ * year 1. A replacement battery restores capacity and, for plug-ins, the efficiency
+ * lost with the old pack; gas engines keep drifting.
+ */
+export function calculateAgingSchedule(
+  aging: VehicleAging,
+  kind: VehicleKind,
+  annualMiles: number,
+  years = MAX_AGING_YEARS
+): AgingYear[] {
+  const replacementYear = resolveReplacementYear(aging, kind, annualMiles);
+  const drift = clampRate(aging.efficiencyDrift);
+  const capacityLoss = hasTractionBattery(kind) ? clampRate(aging.capacityLoss) : 0;
+
+  return Array.from({ length: years }, (_, index) => {
+    const year = index + 1;
+    const batteryAge =
+      replacementYear !== null && year >= replacementYear ? year - replacementYear : year - 1;
+    const efficiencyAge = hasTractionBattery(kind) ? batteryAge : year - 1;
+    return {
+      year,
+      efficiency: Math.pow(1 - drift, efficiencyAge),
+      capacity: Math.pow(1 - capacityLoss, batteryAge),
+      batteryReplaced: year === replacementYear,
+    };
+  });
+}
+
+/**
+ * The vehicle as it drives in a given year. A PHEV's faded battery shortens its
+ * electric range, so fewer miles run on electricity.
+ */
+export function ageVehicle(vehicle: VehicleConfig, year: AgingYear): VehicleConfig {
+  const aged = {
+    ...vehicle,
+    efficiency: vehicle.efficiency * year.efficiency,
+    e85Efficiency: vehicle.e85Efficiency * year.efficiency,
+  };
+  if (!vehicle.phev) return aged;
+  return {
+    ...aged,
+    phev: {
+      ...vehicle.phev,
+      electricEfficiency: vehicle.phev.electricEfficiency * year.efficiency,
+      gasEfficiency: vehicle.phev.gasEfficiency * year.efficiency,
+      electricRange: vehicle.phev.electricRange * year.capacity,
+      electricShare: vehicle.phev.electricShare * year.capacity,
+    },
+  };
+}
@@ -1,24 +1,33 @@
+import { CurrencyCode } from '@/types';
 import { logger } from './logger';
+import { isValidPostalCode } from './postal-codes';
 
 export interface GasPriceData {
   regular: number;
+  midgrade?: number;
   premium: number;
+  diesel?: number;
+  e85?: number;
   source?: string;
+  state?: string;
+  currency?: CurrencyCode;
 }
 
 export interface ElectricityRateData {
   residential: number;
   source?: string;
+  state?: string;
+  currency?: CurrencyCode;
 }
 
 /**
- * Fetch gas prices by ZIP code
+ * Fetch gas prices by US ZIP or Canadian postal code
  * Uses multiple free APIs as fallback
  */
 export async function fetchGasPricesByZip(zipCode: string): Promise<GasPriceData | null> {
   try {
     // Try using Next.js API route (server-side)
-    const response = await fetch(`/api/gas-prices?zip=${zipCode}`);
+    const response = await fetch(`/api/gas-prices?zip=${encodeURIComponent(zipCode)}`);
     
     if (response.ok) {
       const data = await response.json();
@@ -53,12 +62,12 @@ export async function fetchNationalGasPrices(): Promise<GasPriceData | null> {
 }
 
 /**
- * Fetch electricity rates by ZIP code
+ * Fetch electricity rates by US ZIP or Canadian postal code
  */
 export async function fetchElectricityRatesByZip(zipCode: string): Promise<ElectricityRateData | null> {
   try {
     // Try using Next.js API route (server-side)
-    const response = await fetch(`/api/electricity-rates?zip=${zipCode}`);
+    const response = await fetch(`/api/electricity-rates?zip=${encodeURIComponent(zipCode)}`);
     
     if (response.ok) {
       const data = await response.json();
@@ -73,11 +82,10 @@ export async function fetchElectricityRatesByZip(zipCode: string): Promise<Elect
 }
 
 /**
- * Validate ZIP code format (US ZIP codes)
+ * Validate ZIP code format (US ZIP codes or Canadian postal codes)
  */
 export function validateZipCode(zipCode: string): boolean {
-  const zipRegex = /^\d{5}(-\d{4})?$/;
-  return zipRegex.test(zipCode);
+  return isValidPostalCode(zipCode);
 }
 
 /**
@@ -1,25 +1,173 @@
-import { CalculatorInputs, CostBreakdown, ScenarioResult, CalculationResults } from '@/types';
+import {
+  AgingAdjustment,
+  CalculatorInputs,
+  ChargingMix,
+  PhevSettings,
+  CostBreakdown,
+  CostOption,
+  CostOptionKey,
+  CurrencyCode,
+  ScenarioResult,
+  CalculationResults,
+} from '@/types';
+import {
+  EMPTY_OWNERSHIP_LINE_ITEMS,
+  OwnershipLineItems,
+  calculateOwnershipLineItems,
+  calculateOwnershipLineItemsForYear,
+  getShareOfYearWithin,
+} from './ownership';
+import { resolveHomeChargingPrice } from './solar';
+import { resolveFastChargingPrice } from './fast-charging';
+import {
+  HomeChargingLoad,
+  getChargingEfficiency,
+  getChargingLocationLosses,
+  getChargingMixShares,
+} from './charging';
+import { MAX_AGING_YEARS, ageVehicle, calculateAgingSchedule } from './aging';
+import { applyClimateAdjustment } from './climate';
+import { applyIncentives } from './incentives';
+import {
+  calculateAnnualChargerCost,
+  resolveChargerAmortizationYears,
+  usesHomeCharger,
+} from './home-charger';
+import { calculateProjection, normalizeProjectionSettings } from './projection';
+import { calculateUncertainty, withoutFuelPrices } from './uncertainty';
+import { resolvePhevElectricShare } from './phev';
+import { getGasFuelPrice } from './fuels';
+import { getCostOptions, getVehicleFuelEfficiency } from './vehicles';
 
 /**
- * Calculate cost per mile for an EV using home charging
+ * Calculate cost per mile for an EV using home charging.
+ * Charging loss is the % of metered energy that never reaches the battery.
  */
 export function calculateEVCostPerMileHome(
   evEfficiency: number,
-  electricityPrice: number
+  electricityPrice: number,
+  chargingLoss = 0
 ): number {
   if (evEfficiency <= 0) return 0;
-  return electricityPrice / evEfficiency;
+  return electricityPrice / (evEfficiency * getChargingEfficiency(chargingLoss));
 }
 
 /**
- * Calculate cost per mile for an EV using fast charging
+ * Calculate cost per mile for an EV using fast charging, from the effective $/kWh
+ * that resolveFastChargingPrice gives for per-minute tariffs and session fees
  */
 export function calculateEVCostPerMileFast(
   evEfficiency: number,
-  fastChargingPrice: number
+  fastChargingPrice: number,
+  chargingLoss = 0
 ): number {
   if (evEfficiency <= 0) return 0;
-  return fastChargingPrice / evEfficiency;
+  return fastChargingPrice / (evEfficiency * getChargingEfficiency(chargingLoss));
+}
+
+/**
+ * Calculate the energy-weighted electricity price for a charging mix.
+ * Shares are normalized so they do not need to add up to exactly 100%.
+ */
+export function calculateBlendedChargingPrice(
+  mix: ChargingMix,
+  prices: ChargingMix
+): number {
+  const shares = getChargingMixShares(mix);
+  return (
+    shares.home * prices.home +
+    shares.workplace * prices.workplace +
+    shares.publicLevel2 * prices.publicLevel2 +
+    shares.dcFast * prices.dcFast
+  );
+}
+
+/**
+ * Convert metered prices at each charging location into $ per kWh delivered to the battery
+ */
+export function calculateDeliveredChargingPrices(
+  prices: ChargingMix,
+  losses: ChargingMix
+): ChargingMix {
+  return {
+    home: prices.home / getChargingEfficiency(losses.home),
+    workplace: prices.workplace / getChargingEfficiency(losses.workplace),
+    publicLevel2: prices.publicLevel2 / getChargingEfficiency(losses.publicLevel2),
+    dcFast: prices.dcFast / getChargingEfficiency(losses.dcFast),
+  };
+}
+
+/**
+ * Calculate cost per mile for an EV using a blend of charging locations.
+ * Mix shares are shares of energy delivered to the battery.
+ */
+export function calculateEVCostPerMileMix(
+  evEfficiency: number,
+  mix: ChargingMix,
+  prices: ChargingMix,
+  losses?: ChargingMix
+): number {
+  if (evEfficiency <= 0) return 0;
+  const deliveredPrices = losses ? calculateDeliveredChargingPrices(prices, losses) : prices;
+  return calculateBlendedChargingPrice(mix, deliveredPrices) / evEfficiency;
+}
+
+/**
+ * Collect the $/kWh paid at each charging location, using the effective
+ * home rate for the selected home rate plan, blended with rooftop solar when on,
+ * and the effective fast-charging rate for the fast-charging tariff
+ */
+export function getChargingLocationPrices(inputs: CalculatorInputs): ChargingMix {
+  return {
+    home: resolveHomeChargingPrice(inputs),
+    workplace: inputs.workplaceChargingPrice,
+    publicLevel2: inputs.publicChargingPrice,
+    dcFast: resolveFastChargingPrice(inputs),
+  };
+}
+
+/**
+ * How much one cost option charges at home, with its own vehicle's efficiency: all of
+ * its charging for home-only, the home share of the mix, or a PHEV's electric miles
+ */
+export function getOptionHomeChargingLoad(
+  inputs: CalculatorInputs,
+  option: CostOption
+): HomeChargingLoad {
+  const { vehicle, energy } = option;
+  switch (energy) {
+    case 'evHome':
+      return { efficiency: vehicle.efficiency, homeShare: 1 };
+    case 'evMix':
+      return {
+        efficiency: vehicle.efficiency,
+        homeShare: getChargingMixShares(inputs.chargingMix).home,
+      };
+    case 'phev':
+      return vehicle.phev
+        ? {
+            efficiency: vehicle.phev.electricEfficiency,
+            homeShare: resolvePhevElectricShare(vehicle.phev),
+          }
+        : { efficiency: vehicle.efficiency, homeShare: 0 };
+    default:
+      return { efficiency: vehicle.efficiency, homeShare: 0 };
+  }
+}
+
+/**
+ * Charging prices for one cost option. TOU and tiered home rates depend on how much is
+ * charged at home, so the home rate follows the option's own home charging load.
+ */
+export function getOptionChargingPrices(
+  inputs: CalculatorInputs,
+  option: CostOption,
+  sharedPrices: ChargingMix = getChargingLocationPrices(inputs)
+): ChargingMix {
+  return {
+    ...sharedPrices,
+    home: resolveHomeChargingPrice(inputs, getOptionHomeChargingLoad(inputs, option)),
+  };
 }
 
 /**
@@ -33,94 +181,309 @@ export function calculateGasCostPerMile(
   return gasPrice / mpg;
 }
 
+/**
+ * Calculate cost per mile for a plug-in hybrid, blending home-charged electric miles
+ * with charge-sustaining gas miles by the electric share of driving
+ */
+export function calculatePhevCostPerMile(
+  phev: PhevSettings,
+  electricityPrice: number,
+  gasPrice: number,
+  chargingLoss = 0
+): number {
+  const electricShare = resolvePhevElectricShare(phev);
+  return (
+    electricShare *
+      calculateEVCostPerMileHome(phev.electricEfficiency, electricityPrice, chargingLoss) +
+    (1 - electricShare) * calculateGasCostPerMile(phev.gasEfficiency, gasPrice)
+  );
+}
+
 /**
  * Calculate total cost breakdown for a given distance
  */
 export function calculateCostBreakdown(
   costPerMile: number,
-  distance: number
+  distance: number,
+  ownership: OwnershipLineItems = EMPTY_OWNERSHIP_LINE_ITEMS,
+  chargerCost = 0
 ): CostBreakdown {
-  const totalCost = costPerMile * distance;
+  const fuelCost = costPerMile * distance;
+  const totalCost =
+    fuelCost +
+    ownership.depreciationCost +
+    ownership.insuranceCost +
+    ownership.maintenanceCost +
+    ownership.registrationCost +
+    ownership.financingCost +
+    chargerCost;
   return {
-    costPerMile,
+    costPerMile: distance > 0 ? totalCost / distance : costPerMile,
     totalCost,
-    fuelCost: totalCost,
+    fuelCostPerMile: costPerMile,
+    fuelCost,
+    ...ownership,
+    chargerCost,
   };
 }
 
 /**
- * Calculate scenario result for a given distance
+ * Energy cost per mile for one cost option, using the option's vehicle efficiency
+ */
+export function calculateOptionCostPerMile(
+  inputs: CalculatorInputs,
+  option: CostOption,
+  chargingPrices: ChargingMix = getOptionChargingPrices(inputs, option),
+  chargingLosses: ChargingMix = getChargingLocationLosses(inputs)
+): number {
+  const { vehicle, energy } = option;
+  switch (energy) {
+    case 'evHome':
+      return calculateEVCostPerMileHome(vehicle.efficiency, chargingPrices.home, chargingLosses.home);
+    case 'evFast':
+      return calculateEVCostPerMileFast(
+        vehicle.efficiency,
+        chargingPrices.dcFast,
+        chargingLosses.dcFast
+      );
+    case 'evMix':
+      return calculateEVCostPerMileMix(
+        vehicle.efficiency,
+        inputs.chargingMix,
+        chargingPrices,
+        chargingLosses
+      );
+    case 'phev':
+      return vehicle.phev
+        ? calculatePhevCostPerMile(
+            vehicle.phev,
+            chargingPrices.home,
+            getGasFuelPrice(inputs, vehicle.phev.gasFuel),
+            chargingLosses.home
+          )
+        : 0;
+    default:
+      return calculateGasCostPerMile(
+        getVehicleFuelEfficiency(vehicle, energy),
+        getGasFuelPrice(inputs, energy)
+      );
+  }
+}
+
+/**
+ * Calculate scenario result for a given distance.
+ * Days defaults to the time it takes to drive the distance at the base daily distance.
+ * The amortized home charger cost is prorated by days, like other fixed costs.
+ * A given home charging price replaces each option's own home rate, for vehicles that
+ * share a meter with others.
  */
 export function calculateScenario(
   inputs: CalculatorInputs,
-  distance: number
+  distance: number,
+  days: number = inputs.baseDistance > 0 ? distance / inputs.baseDistance : 0,
+  options: CostOption[] = getCostOptions(inputs),
+  homeChargingPrice: number | null = null
 ): ScenarioResult {
-  const evHomeCostPerMile = calculateEVCostPerMileHome(
-    inputs.evEfficiency,
-    inputs.homeElectricityPrice
-  );
-  const evFastCostPerMile = calculateEVCostPerMileFast(
-    inputs.evEfficiency,
-    inputs.fastChargingPrice
-  );
-  const gasRegularCostPerMile = calculateGasCostPerMile(
-    inputs.gasEfficiency,
-    inputs.regularGasPrice
-  );
-  const gasPremiumCostPerMile = calculateGasCostPerMile(
-    inputs.gasEfficiency,
-    inputs.premiumGasPrice
-  );
+  const chargingPrices = getChargingLocationPrices(inputs);
+  const chargingLosses = getChargingLocationLosses(inputs);
+  const chargerCost = (calculateAnnualChargerCost(inputs) * Math.max(0, days)) / 365;
+  const ownershipByVehicle = new Map<string, OwnershipLineItems>();
+  const getOwnership = (option: CostOption) => {
+    if (!inputs.includeOwnershipCosts) return EMPTY_OWNERSHIP_LINE_ITEMS;
+    let ownership = ownershipByVehicle.get(option.vehicle.id);
+    if (!ownership) {
+      ownership = calculateOwnershipLineItems(option.vehicle.ownership, distance, days);
+      ownershipByVehicle.set(option.vehicle.id, ownership);
+    }
+    return ownership;
+  };
 
   return {
     distance,
-    evHomeCharging: calculateCostBreakdown(evHomeCostPerMile, distance),
-    evFastCharging: calculateCostBreakdown(evFastCostPerMile, distance),
-    gasRegular: calculateCostBreakdown(gasRegularCostPerMile, distance),
-    gasPremium: calculateCostBreakdown(gasPremiumCostPerMile, distance),
+    options: Object.fromEntries(
+      options.map((option) => [
+        option.key,
+        calculateCostBreakdown(
+          calculateOptionCostPerMile(
+            inputs,
+            option,
+            homeChargingPrice === null
+              ? getOptionChargingPrices(inputs, option, chargingPrices)
+              : { ...chargingPrices, home: homeChargingPrice },
+            chargingLosses
+          ),
+          distance,
+          getOwnership(option),
+          usesHomeCharger(option.energy, inputs.chargingMix) ? chargerCost : 0
+        ),
+      ])
+    ),
   };
 }
 
 /**
- * Calculate all scenarios (base, daily, weekly, monthly, yearly)
+ * Year-by-year aging for every option: energy cost relative to year 1 as its vehicle's
+ * efficiency drifts and a PHEV's fading battery moves miles onto gas, plus the cost of
+ * any battery replacement in its year
+ */
+export function calculateOptionAging(
+  inputs: CalculatorInputs,
+  options: CostOption[],
+  annualDistance: number,
+  years = MAX_AGING_YEARS
+): Record<CostOptionKey, AgingAdjustment[]> {
+  const chargingPrices = getChargingLocationPrices(inputs);
+  const chargingLosses = getChargingLocationLosses(inputs);
+  return Object.fromEntries(
+    options.map((option) => {
+      const { vehicle } = option;
+      const optionPrices = getOptionChargingPrices(inputs, option, chargingPrices);
+      const base = calculateOptionCostPerMile(inputs, option, optionPrices, chargingLosses);
+      const schedule = calculateAgingSchedule(vehicle.aging, vehicle.kind, annualDistance, years);
+      return [
+        option.key,
+        schedule.map((year): AgingAdjustment => {
+          const aged = calculateOptionCostPerMile(
+            inputs,
+            { ...option, vehicle: ageVehicle(vehicle, year) },
+            optionPrices,
+            chargingLosses
+          );
+          return {
+            fuelFactor: base > 0 ? aged / base : 1,
+            extraCost: year.batteryReplaced ? Math.max(0, vehicle.aging.batteryReplacementCost) : 0,
+          };
+        }),
+      ];
+    })
+  );
+}
+
+/**
+ * Non-fuel costs in each projection year for every option, index 0 for year 1: ownership
+ * line items that end with the ownership period, loan, or lease, and the home charger
+ * install only over its amortization period
+ */
+export function calculateOptionFixedCosts(
+  inputs: CalculatorInputs,
+  options: CostOption[],
+  annualDistance: number,
+  years: number
+): Record<CostOptionKey, number[]> {
+  const annualChargerCost = calculateAnnualChargerCost(inputs);
+  const chargerYears = resolveChargerAmortizationYears(inputs);
+  return Object.fromEntries(
+    options.map((option) => {
+      const chargerCost = usesHomeCharger(option.energy, inputs.chargingMix)
+        ? annualChargerCost
+        : 0;
+      return [
+        option.key,
+        Array.from({ length: years }, (_, index) => {
+          const year = index + 1;
+          const ownership = inputs.includeOwnershipCosts
+            ? calculateOwnershipLineItemsForYear(option.vehicle.ownership, annualDistance, year)
+            : EMPTY_OWNERSHIP_LINE_ITEMS;
+          return calculateCostBreakdown(
+            0,
+            annualDistance,
+            ownership,
+            chargerCost * getShareOfYearWithin(year, chargerYears)
+          ).totalCost;
+        }),
+      ];
+    })
+  );
+}
+
+/**
+ * Calculate all scenarios (base, daily, weekly, monthly, yearly), the multi-year projection
+ * with vehicle aging when it is on, and the yearly uncertainty bands when uncertainty mode is on.
+ * With the climate adjustment on, every scenario uses seasonally averaged efficiencies,
+ * and with incentive matching on, matched incentives reduce the EV's purchase price
+ * and the home charger's install cost.
  */
 export function calculateAllScenarios(
-  inputs: CalculatorInputs
+  calculatorInputs: CalculatorInputs
 ): CalculationResults {
+  const inputs = applyIncentives(applyClimateAdjustment(calculatorInputs));
   const baseDistance = inputs.baseDistance;
-  
+  const options = getCostOptions(inputs);
+
+  const yearly = calculateScenario(inputs, baseDistance * 365, 365, options);
+  // Electric part of each option's energy cost, so electricity and fuel move separately
+  const electricOnly = calculateScenario(withoutFuelPrices(inputs), yearly.distance, 365, options);
+  const aging = inputs.includeAging
+    ? calculateOptionAging(inputs, options, yearly.distance)
+    : null;
+  const fixedCosts = calculateOptionFixedCosts(
+    inputs,
+    options,
+    yearly.distance,
+    normalizeProjectionSettings(inputs.projection).years
+  );
+
   return {
-    baseScenario: calculateScenario(inputs, baseDistance),
-    daily: calculateScenario(inputs, baseDistance),
-    weekly: calculateScenario(inputs, baseDistance * 7),
-    monthly: calculateScenario(inputs, baseDistance * 30),
-    yearly: calculateScenario(inputs, baseDistance * 365),
+    baseScenario: calculateScenario(inputs, baseDistance, 1, options),
+    daily: calculateScenario(inputs, baseDistance, 1, options),
+    weekly: calculateScenario(inputs, baseDistance * 7, 7, options),
+    monthly: calculateScenario(inputs, baseDistance * 30, 30, options),
+    yearly,
+    options,
+    projection: calculateProjection(
+      yearly,
+      electricOnly,
+      options,
+      inputs.projection,
+      aging,
+      fixedCosts
+    ),
+    aging,
+    uncertainty: inputs.uncertainty.enabled
+      ? calculateUncertainty(
+          yearly,
+          electricOnly,
+          options,
+          inputs.uncertainty
+        )
+      : null,
   };
 }
 
 /**
- * Calculate the electricity price (per kWh) where EV charging
- * reaches parity with a given gas price.
+ * Calculate the metered electricity price (per kWh) where EV charging
+ * reaches parity with a given gas price. A fixed EV cost per mile, such as an
+ * amortized home charger, leaves less room for electricity.
  */
 export function calculateElectricityParityRate(
   gasPrice: number,
   gasEfficiency: number,
-  evEfficiency: number
+  evEfficiency: number,
+  chargingLoss = 0,
+  evFixedCostPerMile = 0
 ): number {
   if (gasEfficiency <= 0 || evEfficiency <= 0) return 0;
   const gasCostPerMile = calculateGasCostPerMile(gasEfficiency, gasPrice);
-  return gasCostPerMile * evEfficiency;
+  return (
+    Math.max(0, gasCostPerMile - evFixedCostPerMile) *
+    evEfficiency *
+    getChargingEfficiency(chargingLoss)
+  );
 }
 
 /**
  * Format currency value
  */
-export function formatCurrency(value: number): string {
+export function formatCurrency(
+  value: number,
+  currency: CurrencyCode = 'USD',
+  fractionDigits = 2
+): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
   }).format(value);
 }
 
@@ -0,0 +1,101 @@
+import { CalculatorInputs, ChargerLevel, ChargingLosses, ChargingMix } from '@/types';
+
+export const DEFAULT_CHARGING_LOSSES: ChargingLosses = {
+  level1: 15,
+  level2: 10,
+  dcFast: 7,
+};
+
+export const CHARGER_LEVEL_LABELS: Record<ChargerLevel, string> = {
+  level1: 'Level 1',
+  level2: 'Level 2',
+  dcFast: 'DC fast',
+};
+
+/**
+ * Fraction of metered energy that reaches the battery
+ */
+export function getChargingEfficiency(lossPercent: number): number {
+  const clamped = Math.max(0, Math.min(90, lossPercent));
+  return 1 - clamped / 100;
+}
+
+/**
+ * Convert energy needed at the battery into energy drawn through the meter
+ */
+export function calculateMeteredKwh(batteryKwh: number, lossPercent: number): number {
+  return batteryKwh / getChargingEfficiency(lossPercent);
+}
+
+/**
+ * Charging loss for each charging location in the charging mix
+ */
+export function getChargingLocationLosses(
+  inputs: Pick<CalculatorInputs, 'homeChargerLevel' | 'chargingLosses'>
+): ChargingMix {
+  return {
+    home: inputs.chargingLosses[inputs.homeChargerLevel],
+    workplace: inputs.chargingLosses.level2,
+    publicLevel2: inputs.chargingLosses.level2,
+    dcFast: inputs.chargingLosses.dcFast,
+  };
+}
+
+/**
+ * Fraction of charging energy from each location in a charging mix. Shares are
+ * normalized so they do not need to add up to exactly 100%; an empty mix charges at home.
+ */
+export function getChargingMixShares(mix: ChargingMix): ChargingMix {
+  const shares = {
+    home: Math.max(0, mix.home),
+    workplace: Math.max(0, mix.workplace),
+    publicLevel2: Math.max(0, mix.publicLevel2),
+    dcFast: Math.max(0, mix.dcFast),
+  };
+  const totalShare = shares.home + shares.workplace + shares.publicLevel2 + shares.dcFast;
+  if (totalShare <= 0) return { home: 1, workplace: 0, publicLevel2: 0, dcFast: 0 };
+  return {
+    home: shares.home / totalShare,
+    workplace: shares.workplace / totalShare,
+    publicLevel2: shares.publicLevel2 / totalShare,
+    dcFast: shares.dcFast / totalShare,
+  };
+}
+
+export interface HomeChargingLoad {
+  efficiency: number; // miles per kWh of the vehicle that charges
+  homeShare: number; // fraction of its charging energy drawn at home
+  dailyDistance?: number; // miles a day, the base daily distance when left out
+}
+
+/**
+ * Home charging load of the primary EV on the charging mix
+ */
+export function getPrimaryHomeChargingLoad(
+  inputs: Pick<CalculatorInputs, 'evEfficiency' | 'chargingMix'>
+): HomeChargingLoad {
+  return {
+    efficiency: inputs.evEfficiency,
+    homeShare: getChargingMixShares(inputs.chargingMix).home,
+  };
+}
+
+/**
+ * Metered kWh drawn by home charging for a day, for the share of charging a vehicle
+ * does at home. Several loads, such as a household's vehicles, share one meter and
+ * are added up.
+ */
+export function calculateDailyHomeChargingKwh(
+  inputs: Pick<
+    CalculatorInputs,
+    'baseDistance' | 'evEfficiency' | 'chargingMix' | 'homeChargerLevel' | 'chargingLosses'
+  >,
+  load: HomeChargingLoad | HomeChargingLoad[] = getPrimaryHomeChargingLoad(inputs)
+): number {
+  const batteryKwh = (Array.isArray(load) ? load : [load]).reduce((sum, item) => {
+    if (item.efficiency <= 0) return sum;
+    const distance = Math.max(0, item.dailyDistance ?? inputs.baseDistance);
+    return sum + (distance / item.efficiency) * Math.max(0, Math.min(1, item.homeShare));
+  }, 0);
+  return calculateMeteredKwh(batteryKwh, inputs.chargingLosses[inputs.homeChargerLevel]);
+}
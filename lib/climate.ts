@@ -0,0 +1,237 @@
+import { CalculatorInputs } from '@/types';
+
+export interface ClimateRegion {
+  name: string;
+  normals: number[]; // Monthly mean temperature, °F, January first
+}
+
+export interface MonthlyEfficiency {
+  month: number; // 1-12
+  days: number;
+  temperature: number; // °F
+  evEfficiency: number; // mi/kWh
+  gasEfficiency: number; // mpg
+}
+
+type ClimateInputs = Pick<
+  CalculatorInputs,
+  'evEfficiency' | 'gasEfficiency' | 'climateAdjustment' | 'climateRegion'
+> &
+  Partial<Pick<CalculatorInputs, 'phev' | 'e85Efficiency' | 'extraVehicles'>>;
+
+export const DEFAULT_CLIMATE_REGION = 'US';
+
+export const DAYS_PER_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Monthly mean temperatures by state, rounded from NOAA 1991-2020 statewide climate normals
+ */
+export const CLIMATE_REGIONS: Record<string, ClimateRegion> = {
+  US: { name: 'U.S. average', normals: [32, 36, 44, 53, 62, 71, 75, 74, 66, 55, 43, 34] },
+  AL: { name: 'Alabama', normals: [46, 50, 57, 64, 72, 79, 82, 81, 76, 65, 55, 48] },
+  AK: { name: 'Alaska', normals: [5, 8, 13, 25, 39, 50, 54, 51, 42, 27, 14, 8] },
+  AZ: { name: 'Arizona', normals: [42, 45, 51, 58, 67, 76, 81, 79, 73, 62, 50, 42] },
+  AR: { name: 'Arkansas', normals: [40, 44, 53, 61, 70, 78, 82, 81, 74, 62, 51, 42] },
+  CA: { name: 'California', normals: [46, 48, 52, 56, 63, 70, 76, 75, 70, 61, 51, 45] },
+  CO: { name: 'Colorado', normals: [24, 27, 35, 41, 51, 61, 67, 65, 57, 45, 33, 24] },
+  CT: { name: 'Connecticut', normals: [27, 29, 37, 48, 59, 67, 73, 71, 64, 52, 42, 32] },
+  DE: { name: 'Delaware', normals: [35, 37, 44, 54, 64, 73, 78, 76, 70, 58, 48, 39] },
+  DC: { name: 'District of Columbia', normals: [37, 40, 48, 58, 67, 76, 81, 79, 72, 61, 50, 41] },
+  FL: { name: 'Florida', normals: [59, 62, 66, 71, 77, 81, 82, 82, 80, 74, 67, 62] },
+  GA: { name: 'Georgia', normals: [46, 49, 56, 63, 71, 78, 81, 80, 75, 65, 55, 48] },
+  HI: { name: 'Hawaii', normals: [68, 68, 69, 70, 72, 74, 75, 76, 75, 74, 72, 70] },
+  ID: { name: 'Idaho', normals: [24, 28, 36, 43, 51, 59, 68, 67, 57, 45, 33, 24] },
+  IL: { name: 'Illinois', normals: [26, 30, 40, 52, 62, 72, 75, 73, 66, 54, 41, 30] },
+  IN: { name: 'Indiana', normals: [28, 32, 41, 53, 63, 72, 75, 74, 67, 55, 43, 33] },
+  IA: { name: 'Iowa', normals: [20, 24, 36, 49, 60, 70, 74, 72, 64, 51, 37, 25] },
+  KS: { name: 'Kansas', normals: [31, 35, 44, 54, 64, 74, 79, 77, 69, 56, 43, 32] },
+  KY: { name: 'Kentucky', normals: [34, 38, 46, 57, 66, 74, 77, 76, 70, 58, 46, 38] },
+  LA: { name: 'Louisiana', normals: [51, 55, 61, 67, 75, 81, 83, 83, 79, 69, 59, 53] },
+  ME: { name: 'Maine', normals: [16, 19, 28, 40, 52, 61, 67, 65, 57, 45, 34, 23] },
+  MD: { name: 'Maryland', normals: [34, 36, 44, 54, 64, 72, 77, 75, 68, 57, 46, 37] },
+  MA: { name: 'Massachusetts', normals: [27, 29, 36, 47, 57, 66, 72, 71, 63, 52, 42, 32] },
+  MI: { name: 'Michigan', normals: [22, 23, 32, 44, 55, 65, 69, 68, 61, 49, 38, 27] },
+  MN: { name: 'Minnesota', normals: [10, 14, 27, 42, 55, 65, 70, 68, 59, 45, 30, 16] },
+  MS: { name: 'Mississippi', normals: [47, 51, 58, 65, 73, 79, 82, 82, 77, 66, 56, 49] },
+  MO: { name: 'Missouri', normals: [31, 35, 45, 56, 65, 74, 78, 77, 69, 57, 45, 34] },
+  MT: { name: 'Montana', normals: [21, 24, 32, 41, 51, 59, 67, 66, 56, 43, 31, 21] },
+  NE: { name: 'Nebraska', normals: [26, 29, 39, 49, 60, 70, 75, 73, 64, 51, 38, 27] },
+  NV: { name: 'Nevada', normals: [31, 35, 42, 48, 57, 67, 75, 73, 63, 51, 39, 30] },
+  NH: { name: 'New Hampshire', normals: [19, 22, 31, 43, 55, 63, 69, 67, 59, 47, 36, 25] },
+  NJ: { name: 'New Jersey', normals: [32, 34, 41, 52, 62, 71, 76, 75, 68, 57, 46, 37] },
+  NM: { name: 'New Mexico', normals: [35, 39, 45, 52, 61, 70, 74, 72, 66, 55, 43, 35] },
+  NY: { name: 'New York', normals: [22, 24, 33, 45, 57, 65, 70, 68, 61, 49, 38, 28] },
+  NC: { name: 'North Carolina', normals: [40, 43, 50, 59, 67, 75, 78, 77, 71, 60, 50, 42] },
+  ND: { name: 'North Dakota', normals: [9, 13, 26, 41, 54, 64, 70, 68, 58, 44, 28, 15] },
+  OH: { name: 'Ohio', normals: [28, 31, 40, 52, 62, 70, 74, 72, 66, 54, 43, 33] },
+  OK: { name: 'Oklahoma', normals: [38, 42, 51, 60, 69, 78, 82, 82, 73, 61, 49, 39] },
+  OR: { name: 'Oregon', normals: [34, 37, 41, 45, 52, 58, 65, 65, 59, 49, 40, 34] },
+  PA: { name: 'Pennsylvania', normals: [27, 29, 38, 49, 60, 68, 72, 71, 64, 52, 41, 31] },
+  RI: { name: 'Rhode Island', normals: [30, 32, 38, 48, 58, 67, 73, 72, 65, 54, 44, 35] },
+  SC: { name: 'South Carolina', normals: [46, 49, 56, 63, 71, 78, 81, 80, 75, 65, 55, 48] },
+  SD: { name: 'South Dakota', normals: [18, 22, 32, 44, 56, 66, 73, 71, 61, 47, 33, 21] },
+  TN: { name: 'Tennessee', normals: [39, 43, 51, 60, 68, 76, 79, 78, 72, 61, 49, 41] },
+  TX: { name: 'Texas', normals: [46, 50, 58, 65, 73, 80, 83, 83, 77, 67, 56, 48] },
+  UT: { name: 'Utah', normals: [26, 31, 39, 46, 55, 66, 74, 72, 62, 49, 36, 27] },
+  VT: { name: 'Vermont', normals: [17, 19, 29, 42, 55, 63, 68, 66, 58, 46, 35, 23] },
+  VA: { name: 'Virginia', normals: [35, 38, 46, 56, 65, 73, 77, 75, 69, 57, 47, 38] },
+  WA: { name: 'Washington', normals: [32, 35, 40, 45, 52, 58, 65, 65, 58, 47, 38, 32] },
+  WV: { name: 'West Virginia', normals: [32, 35, 43, 54, 63, 70, 74, 73, 66, 55, 44, 35] },
+  WI: { name: 'Wisconsin', normals: [16, 20, 30, 43, 55, 65, 70, 68, 60, 47, 34, 21] },
+  WY: { name: 'Wyoming', normals: [20, 23, 31, 39, 49, 59, 67, 65, 55, 42, 29, 20] },
+};
+
+// [°F, share of rated efficiency]. Cold hurts EVs most (cabin and battery heating);
+// heat costs both vehicles some air-conditioning load.
+const EV_TEMPERATURE_CURVE: [number, number][] = [
+  [-10, 0.55],
+  [0, 0.62],
+  [20, 0.72],
+  [32, 0.8],
+  [45, 0.9],
+  [55, 0.96],
+  [65, 1],
+  [75, 1],
+  [85, 0.96],
+  [95, 0.88],
+  [105, 0.8],
+];
+
+const GAS_TEMPERATURE_CURVE: [number, number][] = [
+  [-10, 0.78],
+  [20, 0.85],
+  [32, 0.89],
+  [45, 0.94],
+  [60, 0.99],
+  [65, 1],
+  [75, 1],
+  [85, 0.98],
+  [95, 0.95],
+  [105, 0.92],
+];
+
+function interpolateCurve(curve: [number, number][], temperature: number): number {
+  if (temperature <= curve[0][0]) return curve[0][1];
+  for (let index = 1; index < curve.length; index++) {
+    const [upperTemp, upperFactor] = curve[index];
+    if (temperature <= upperTemp) {
+      const [lowerTemp, lowerFactor] = curve[index - 1];
+      const position = (temperature - lowerTemp) / (upperTemp - lowerTemp);
+      return lowerFactor + (upperFactor - lowerFactor) * position;
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+/**
+ * Share of rated EV efficiency achieved at a given mean temperature
+ */
+export function getEvTemperatureFactor(temperature: number): number {
+  return interpolateCurve(EV_TEMPERATURE_CURVE, temperature);
+}
+
+/**
+ * Share of rated gas mileage achieved at a given mean temperature
+ */
+export function getGasTemperatureFactor(temperature: number): number {
+  return interpolateCurve(GAS_TEMPERATURE_CURVE, temperature);
+}
+
+/**
+ * Look up a climate region by state code, falling back to the U.S. average
+ */
+export function getClimateRegion(code: string): ClimateRegion {
+  return CLIMATE_REGIONS[code.toUpperCase()] ?? CLIMATE_REGIONS[DEFAULT_CLIMATE_REGION];
+}
+
+/**
+ * Derate rated efficiencies month by month using the region's temperature normals
+ */
+export function calculateMonthlyEfficiencies(
+  inputs: Pick<CalculatorInputs, 'evEfficiency' | 'gasEfficiency' | 'climateRegion'>
+): MonthlyEfficiency[] {
+  const { normals } = getClimateRegion(inputs.climateRegion);
+  return normals.map((temperature, index) => ({
+    month: index + 1,
+    days: DAYS_PER_MONTH[index],
+    temperature,
+    evEfficiency: inputs.evEfficiency * getEvTemperatureFactor(temperature),
+    gasEfficiency: inputs.gasEfficiency * getGasTemperatureFactor(temperature),
+  }));
+}
+
+/**
+ * Average efficiency over a year of equal daily driving.
+ * Energy adds up month by month, so this is a day-weighted harmonic mean.
+ */
+export function calculateSeasonalEfficiency(
+  months: MonthlyEfficiency[],
+  key: 'evEfficiency' | 'gasEfficiency'
+): number {
+  const totalDays = months.reduce((sum, month) => sum + month.days, 0);
+  const energyPerMile = months.reduce(
+    (sum, month) => sum + (month[key] > 0 ? month.days / month[key] : 0),
+    0
+  );
+  return energyPerMile > 0 ? totalDays / energyPerMile : 0;
+}
+
+/**
+ * Replace rated efficiencies with their seasonal averages when the climate adjustment is on.
+ * A PHEV's electric range shrinks along with its electric efficiency, and E85 mpg
+ * follows the same seasonal swing as the gasoline rating. Extra comparison vehicles
+ * get the same seasonal factors as the primary vehicle of their powertrain.
+ */
+export function applyClimateAdjustment<T extends ClimateInputs>(inputs: T): T {
+  if (!inputs.climateAdjustment) return inputs;
+  const months = calculateMonthlyEfficiencies(inputs);
+  const adjusted = {
+    ...inputs,
+    evEfficiency: calculateSeasonalEfficiency(months, 'evEfficiency'),
+    gasEfficiency: calculateSeasonalEfficiency(months, 'gasEfficiency'),
+  };
+
+  if (inputs.e85Efficiency !== undefined && inputs.gasEfficiency > 0) {
+    adjusted.e85Efficiency =
+      (inputs.e85Efficiency * adjusted.gasEfficiency) / inputs.gasEfficiency;
+  }
+
+  if (inputs.extraVehicles) {
+    const unitMonths = calculateMonthlyEfficiencies({
+      evEfficiency: 1,
+      gasEfficiency: 1,
+      climateRegion: inputs.climateRegion,
+    });
+    const evFactor = calculateSeasonalEfficiency(unitMonths, 'evEfficiency');
+    const gasFactor = calculateSeasonalEfficiency(unitMonths, 'gasEfficiency');
+    adjusted.extraVehicles = inputs.extraVehicles.map((vehicle) =>
+      vehicle.kind === 'ev'
+        ? { ...vehicle, efficiency: vehicle.efficiency * evFactor }
+        : {
+            ...vehicle,
+            efficiency: vehicle.efficiency * gasFactor,
+            e85Efficiency: vehicle.e85Efficiency * gasFactor,
+          }
+    );
+  }
+
+  if (inputs.phev) {
+    const phevMonths = calculateMonthlyEfficiencies({
+      evEfficiency: inputs.phev.electricEfficiency,
+      gasEfficiency: inputs.phev.gasEfficiency,
+      climateRegion: inputs.climateRegion,
+    });
+    const electricEfficiency = calculateSeasonalEfficiency(phevMonths, 'evEfficiency');
+    adjusted.phev = {
+      ...inputs.phev,
+      electricEfficiency,
+      gasEfficiency: calculateSeasonalEfficiency(phevMonths, 'gasEfficiency'),
+      electricRange:
+        inputs.phev.electricEfficiency > 0
+          ? (inputs.phev.electricRange * electricEfficiency) / inputs.phev.electricEfficiency
+          : inputs.phev.electricRange,
+    };
+  }
+
+  return adjusted;
+}
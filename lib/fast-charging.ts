@@ -0,0 +1,229 @@
+import {
+  CalculatorInputs,
+  ChargingMembership,
+  FastChargingPricing,
+  FastChargingTariff,
+  PowerTier,
+} from '@/types';
+import { calculateMeteredKwh } from './charging';
+
+/**
+ * Typical 75 kWh EV stopping from 10% to 80% at a 150 kW station. Per-minute tiers
+ * follow the common split at 60 and 150 kW.
+ */
+export const DEFAULT_FAST_CHARGING_TARIFF: FastChargingTariff = {
+  pricing: 'perKwh',
+  powerTiers: [
+    { maxKw: 60, rate: 0.28 },
+    { maxKw: 150, rate: 0.56 },
+    { maxKw: 350, rate: 0.85 },
+  ],
+  sessionFee: 0,
+  idleFee: 0.4,
+  idleMinutes: 0,
+  membershipDiscount: 0,
+  batteryKwh: 75,
+  vehiclePeakKw: 150,
+  stationKw: 150,
+  startSoc: 10,
+  endSoc: 80,
+};
+
+// A typical network plan: a monthly fee for about a quarter off the per-kWh rate
+export const DEFAULT_CHARGING_MEMBERSHIP: ChargingMembership = {
+  monthlyFee: 12.99,
+  memberRate: 0.36,
+};
+
+export const FAST_CHARGING_PRICING_LABELS: Record<FastChargingPricing, string> = {
+  perKwh: 'Per kWh',
+  perMinute: 'Per minute',
+};
+
+// Share of peak power accepted at each state of charge: a short ramp, a plateau,
+// then a taper that gets steep past 80%
+const CHARGING_CURVE: [soc: number, share: number][] = [
+  [0, 0.75],
+  [10, 1],
+  [50, 1],
+  [80, 0.45],
+  [90, 0.25],
+  [100, 0.1],
+];
+
+export interface CurvePoint {
+  soc: number; // %
+  kw: number;
+}
+
+export interface FastChargingSession {
+  minutes: number; // time spent charging, not idling
+  batteryKwh: number; // energy added to the battery
+  meteredKwh: number; // energy drawn at the station
+  cost: number; // $ for the whole session
+  pricePerKwh: number; // effective $ per metered kWh
+  curve: CurvePoint[];
+}
+
+/**
+ * Power the session draws at a state of charge: the vehicle's curve, capped by the station
+ */
+export function calculateChargingPower(
+  tariff: Pick<FastChargingTariff, 'vehiclePeakKw' | 'stationKw'>,
+  soc: number
+): number {
+  const clamped = Math.max(0, Math.min(100, soc));
+  const upper = CHARGING_CURVE.findIndex(([point]) => point >= clamped);
+  const [socHigh, shareHigh] = CHARGING_CURVE[Math.max(0, upper)];
+  const [socLow, shareLow] = CHARGING_CURVE[Math.max(0, upper - 1)];
+  const share =
+    socHigh === socLow
+      ? shareHigh
+      : shareLow + ((clamped - socLow) / (socHigh - socLow)) * (shareHigh - shareLow);
+  return Math.max(0, Math.min(tariff.stationKw, tariff.vehiclePeakKw * share));
+}
+
+/**
+ * Per-minute rate for the power being drawn; power above every tier bills at the top one
+ */
+export function getPowerTierRate(tiers: PowerTier[], kw: number): number {
+  if (!tiers.length) return 0;
+  const tier = tiers.find((item) => kw <= item.maxKw) ?? tiers[tiers.length - 1];
+  return Math.max(0, tier.rate);
+}
+
+/**
+ * Walk one charging stop along the curve in 1% steps of state of charge. Per-kWh
+ * pricing bills metered energy and per-minute pricing bills time at the tier for the
+ * power drawn; the membership discount comes off either, and session and idle fees
+ * are added on top.
+ */
+export function simulateFastChargingSession(
+  tariff: FastChargingTariff,
+  pricePerKwh: number,
+  lossPercent: number
+): FastChargingSession {
+  const start = Math.max(0, Math.min(100, Math.round(tariff.startSoc)));
+  const end = Math.max(start, Math.min(100, Math.round(tariff.endSoc)));
+  const stepKwh = Math.max(0, tariff.batteryKwh) / 100;
+  const curve: CurvePoint[] = [];
+  let minutes = 0;
+  let timeCharges = 0;
+
+  for (let soc = start; soc < end; soc++) {
+    const kw = calculateChargingPower(tariff, soc + 0.5);
+    curve.push({ soc, kw });
+    if (kw <= 0) continue;
+    const stepMinutes = (stepKwh / kw) * 60;
+    minutes += stepMinutes;
+    timeCharges += stepMinutes * getPowerTierRate(tariff.powerTiers, kw);
+  }
+  if (end > start) curve.push({ soc: end, kw: calculateChargingPower(tariff, end) });
+
+  const batteryKwh = stepKwh * (end - start);
+  const meteredKwh = calculateMeteredKwh(batteryKwh, lossPercent);
+  const charges = tariff.pricing === 'perMinute' ? timeCharges : meteredKwh * pricePerKwh;
+  const discount = Math.max(0, Math.min(100, tariff.membershipDiscount)) / 100;
+  const cost =
+    charges * (1 - discount) +
+    Math.max(0, tariff.sessionFee) +
+    Math.max(0, tariff.idleFee) * Math.max(0, tariff.idleMinutes);
+
+  return {
+    minutes,
+    batteryKwh,
+    meteredKwh,
+    cost,
+    pricePerKwh: meteredKwh > 0 ? cost / meteredKwh : pricePerKwh,
+    curve,
+  };
+}
+
+/**
+ * Effective $ per metered kWh at DC fast chargers, folding per-minute billing and fees
+ * into the same unit as a flat per-kWh price
+ */
+export function resolveFastChargingPrice(
+  inputs: Pick<CalculatorInputs, 'fastChargingPrice' | 'fastChargingTariff' | 'chargingLosses'>
+): number {
+  return simulateFastChargingSession(
+    inputs.fastChargingTariff,
+    inputs.fastChargingPrice,
+    inputs.chargingLosses.dcFast
+  ).pricePerKwh;
+}
+
+type MembershipInputs = Pick<
+  CalculatorInputs,
+  | 'fastChargingPrice'
+  | 'fastChargingTariff'
+  | 'chargingMembership'
+  | 'chargingLosses'
+  | 'evEfficiency'
+  | 'baseDistance'
+>;
+
+export interface MembershipAnalysis {
+  payAsYouGoPrice: number; // effective $/kWh without the membership
+  memberPrice: number; // effective $/kWh with it, before the monthly fee
+  monthlyKwh: number; // metered fast-charging kWh per month
+  breakEvenKwh: number | null; // null when the member rate saves nothing
+  monthlySavings: number; // $ saved per month net of the fee; negative when it costs more
+  recommended: boolean;
+}
+
+/**
+ * Effective fast-charging $/kWh for members: energy bills at the member rate in place of
+ * the pay-as-you-go tariff, and session and idle fees still apply
+ */
+export function resolveMemberFastChargingPrice(
+  inputs: Pick<CalculatorInputs, 'fastChargingTariff' | 'chargingMembership' | 'chargingLosses'>
+): number {
+  return simulateFastChargingSession(
+    { ...inputs.fastChargingTariff, pricing: 'perKwh', membershipDiscount: 0 },
+    Math.max(0, inputs.chargingMembership.memberRate),
+    inputs.chargingLosses.dcFast
+  ).pricePerKwh;
+}
+
+/**
+ * Metered kWh drawn from fast chargers each month at the base daily distance, for a
+ * share (%) of charging done at fast chargers
+ */
+export function calculateMonthlyFastChargingKwh(
+  inputs: Pick<CalculatorInputs, 'baseDistance' | 'evEfficiency' | 'chargingLosses'>,
+  fastSharePercent: number
+): number {
+  if (inputs.evEfficiency <= 0) return 0;
+  const share = Math.max(0, Math.min(100, fastSharePercent)) / 100;
+  const monthlyDistance = (inputs.baseDistance * 365) / 12;
+  return calculateMeteredKwh(
+    (monthlyDistance * share) / inputs.evEfficiency,
+    inputs.chargingLosses.dcFast
+  );
+}
+
+/**
+ * Compare a network membership with pay-as-you-go: the monthly fee is recovered once
+ * the per-kWh saving on monthly fast-charging kWh exceeds it
+ */
+export function analyzeChargingMembership(
+  inputs: MembershipInputs,
+  fastSharePercent: number
+): MembershipAnalysis {
+  const payAsYouGoPrice = resolveFastChargingPrice(inputs);
+  const memberPrice = resolveMemberFastChargingPrice(inputs);
+  const monthlyFee = Math.max(0, inputs.chargingMembership.monthlyFee);
+  const monthlyKwh = calculateMonthlyFastChargingKwh(inputs, fastSharePercent);
+  const saving = payAsYouGoPrice - memberPrice;
+  const monthlySavings = monthlyKwh * saving - monthlyFee;
+
+  return {
+    payAsYouGoPrice,
+    memberPrice,
+    monthlyKwh,
+    breakEvenKwh: saving > 0 ? monthlyFee / saving : null,
+    monthlySavings,
+    recommended: saving > 0 && monthlySavings > 0,
+  };
+}
@@ -0,0 +1,165 @@
+import { FinancingType, OwnershipCosts } from '@/types';
+
+export const FINANCING_LABELS: Record<FinancingType, string> = {
+  cash: 'Cash',
+  loan: 'Loan',
+  lease: 'Lease',
+};
+
+// Days in the monthly scenario, so true monthly cost lines up with it
+export const MONTHLY_SCENARIO_DAYS = 30;
+
+export interface LeasePayment {
+  depreciationFee: number; // $/month
+  rentCharge: number; // $/month
+  payment: number; // $/month
+}
+
+export interface TrueMonthlyCost {
+  payment: number; // loan or lease payment
+  energy: number; // electricity and fuel
+  overage: number; // lease mileage overage accrued this month
+  total: number;
+}
+
+/**
+ * Calculate the fixed monthly payment for an amortized loan
+ */
+export function calculateLoanPayment(
+  principal: number,
+  aprPercent: number,
+  termMonths: number
+): number {
+  if (principal <= 0 || termMonths <= 0) return 0;
+  const monthlyRate = aprPercent / 100 / 12;
+  if (monthlyRate <= 0) return principal / termMonths;
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -termMonths));
+}
+
+/**
+ * Amount borrowed: the purchase price less incentives and the down payment.
+ * Incentives count as applied at purchase on every path, so they lower a loan's
+ * principal the same way they lower a lease's capitalized cost.
+ */
+export function calculateLoanPrincipal(costs: OwnershipCosts): number {
+  return Math.max(
+    0,
+    costs.purchasePrice - Math.max(0, costs.incentives) - Math.max(0, costs.downPayment)
+  );
+}
+
+/**
+ * Calculate total interest paid over the life of the purchase loan.
+ * Cash purchases and leases pay no loan interest.
+ */
+export function calculateFinancingInterest(costs: OwnershipCosts): number {
+  if (costs.financing !== 'loan') return 0;
+  const principal = calculateLoanPrincipal(costs);
+  const payment = calculateLoanPayment(principal, costs.loanApr, costs.loanTermMonths);
+  return Math.max(0, payment * costs.loanTermMonths - principal);
+}
+
+/**
+ * Loan interest paid in each year of the loan, from the amortization schedule.
+ * Index 0 is year 1; a term that is not a whole number of years ends in a partial year.
+ */
+export function calculateLoanInterestByYear(costs: OwnershipCosts): number[] {
+  const term = Math.round(costs.loanTermMonths);
+  if (costs.financing !== 'loan' || term <= 0) return [];
+  const principal = calculateLoanPrincipal(costs);
+  const monthlyRate = Math.max(0, costs.loanApr) / 100 / 12;
+  const payment = calculateLoanPayment(principal, costs.loanApr, term);
+  const years: number[] = [];
+  let balance = principal;
+
+  for (let month = 0; month < term; month++) {
+    const interest = balance * monthlyRate;
+    balance -= payment - interest;
+    const index = Math.floor(month / 12);
+    years[index] = (years[index] ?? 0) + interest;
+  }
+  return years;
+}
+
+/**
+ * Standard lease payment. Incentives and the amount due at signing reduce the
+ * capitalized cost; the depreciation fee spreads the drop to the residual over the
+ * term, and the rent charge is the money factor on capitalized cost plus residual.
+ */
+export function calculateLeasePayment(costs: OwnershipCosts): LeasePayment {
+  const term = costs.leaseTermMonths;
+  if (term <= 0) return { depreciationFee: 0, rentCharge: 0, payment: 0 };
+  const capitalizedCost = Math.max(
+    0,
+    costs.purchasePrice - Math.max(0, costs.incentives) - Math.max(0, costs.leaseDueAtSigning)
+  );
+  const residual = Math.max(0, costs.leaseResidual);
+  const depreciationFee = Math.max(0, capitalizedCost - residual) / term;
+  const rentCharge = (capitalizedCost + residual) * Math.max(0, costs.leaseMoneyFactor);
+  return { depreciationFee, rentCharge, payment: depreciationFee + rentCharge };
+}
+
+/**
+ * Yearly lease cost split like a purchase: depreciation fees plus the amount due at
+ * signing spread over the term, and rent charges in place of loan interest
+ */
+export function calculateAnnualLeaseCosts(costs: OwnershipCosts) {
+  const term = costs.leaseTermMonths;
+  if (term <= 0) return { depreciation: 0, rent: 0 };
+  const lease = calculateLeasePayment(costs);
+  return {
+    depreciation:
+      ((lease.depreciationFee * term + Math.max(0, costs.leaseDueAtSigning)) * 12) / term,
+    rent: lease.rentCharge * 12,
+  };
+}
+
+/**
+ * Overage fees for driving past the lease allowance, prorated by days
+ */
+export function calculateLeaseOverageCost(
+  costs: OwnershipCosts,
+  distance: number,
+  days: number
+): number {
+  if (costs.financing !== 'lease') return 0;
+  const allowance = (Math.max(0, costs.leaseMileageAllowance) * Math.max(0, days)) / 365;
+  return Math.max(0, distance - allowance) * Math.max(0, costs.leaseOverageFee);
+}
+
+/**
+ * Monthly loan or lease payment; zero for cash purchases
+ */
+export function calculateMonthlyPayment(costs: OwnershipCosts): number {
+  switch (costs.financing) {
+    case 'cash':
+      return 0;
+    case 'loan':
+      return calculateLoanPayment(
+        calculateLoanPrincipal(costs),
+        costs.loanApr,
+        costs.loanTermMonths
+      );
+    case 'lease':
+      return calculateLeasePayment(costs).payment;
+  }
+}
+
+/**
+ * What leaves the bank account each month: the payment plus energy for the monthly
+ * scenario, and any lease overage that distance builds up
+ */
+export function calculateTrueMonthlyCost(
+  costs: OwnershipCosts,
+  monthlyEnergyCost: number,
+  monthlyDistance: number
+): TrueMonthlyCost {
+  const payment = calculateMonthlyPayment(costs);
+  const overage = calculateLeaseOverageCost(costs, monthlyDistance, MONTHLY_SCENARIO_DAYS);
+  return {
+    payment,
+    energy: monthlyEnergyCost,
+    overage,
+    total: payment + monthlyEnergyCost + overage,
+  };
+}
@@ -16,9 +16,13 @@ export interface FuelEconomyVehicleDetails {
   comb08?: string;
   city08?: string;
   highway08?: string;
+  combA08?: string;
+  cityA08?: string;
+  highwayA08?: string;
   combE?: string;
   cityE?: string;
   highwayE?: string;
+  rangeA?: string;
   youSaveSpend?: string;
 }
 
@@ -137,3 +141,17 @@ export function parseFuelEconomyNumber(value?: string | number | null) {
   return Number.isFinite(numeric) ? numeric : null;
 }
 
+
+/**
+ * Effective efficiency for a custom city/highway split. Fuel adds up per mile,
+ * so the rates combine harmonically rather than as a simple average.
+ */
+export function calculateSplitEfficiency(
+  efficiencies: { city: number | null; highway: number | null },
+  highwaySharePercent: number
+) {
+  const { city, highway } = efficiencies;
+  if (!city || !highway || city <= 0 || highway <= 0) return null;
+  const highwayShare = Math.max(0, Math.min(100, highwaySharePercent)) / 100;
+  return 1 / (highwayShare / highway + (1 - highwayShare) / city);
+}
@@ -0,0 +1,77 @@
+import { CalculatorInputs, CostOptionKey, GasFuelOptionKey, GasVehicleFuel } from '@/types';
+
+type FuelPriceInputs = Pick<
+  CalculatorInputs,
+  'regularGasPrice' | 'midgradeGasPrice' | 'premiumGasPrice' | 'dieselPrice' | 'e85Price'
+>;
+
+type FuelEfficiencyInputs = Pick<CalculatorInputs, 'gasEfficiency' | 'e85Efficiency'>;
+
+export const GAS_FUEL_OPTION_KEYS: GasFuelOptionKey[] = [
+  'gasRegular',
+  'gasMidgrade',
+  'gasPremium',
+  'diesel',
+  'e85',
+];
+
+export const GAS_FUEL_LABELS: Record<GasFuelOptionKey, string> = {
+  gasRegular: 'Regular',
+  gasMidgrade: 'Midgrade',
+  gasPremium: 'Premium',
+  diesel: 'Diesel',
+  e85: 'E85',
+};
+
+export const GAS_VEHICLE_FUEL_LABELS: Record<GasVehicleFuel, string> = {
+  gasoline: 'Gasoline',
+  diesel: 'Diesel',
+  flexFuel: 'Flex fuel',
+};
+
+/**
+ * Fuels each kind of gas vehicle can be priced with, in display order
+ */
+export const GAS_VEHICLE_FUEL_OPTIONS: Record<GasVehicleFuel, GasFuelOptionKey[]> = {
+  gasoline: ['gasRegular', 'gasMidgrade', 'gasPremium'],
+  diesel: ['diesel'],
+  flexFuel: ['gasRegular', 'e85'],
+};
+
+export function isGasFuelOptionKey(key: CostOptionKey): key is GasFuelOptionKey {
+  return (GAS_FUEL_OPTION_KEYS as CostOptionKey[]).includes(key);
+}
+
+/**
+ * Pump price in $/gallon for a gas-side cost option
+ */
+export function getGasFuelPrice(inputs: FuelPriceInputs, key: GasFuelOptionKey): number {
+  switch (key) {
+    case 'gasMidgrade':
+      return inputs.midgradeGasPrice;
+    case 'gasPremium':
+      return inputs.premiumGasPrice;
+    case 'diesel':
+      return inputs.dieselPrice;
+    case 'e85':
+      return inputs.e85Price;
+    default:
+      return inputs.regularGasPrice;
+  }
+}
+
+/**
+ * Fuel economy in mpg for a gas-side cost option; flex-fuel vehicles go fewer miles on E85
+ */
+export function getGasFuelEfficiency(inputs: FuelEfficiencyInputs, key: GasFuelOptionKey): number {
+  return key === 'e85' ? inputs.e85Efficiency : inputs.gasEfficiency;
+}
+
+/**
+ * Classify a FuelEconomy.gov vehicle from its primary and secondary fuel types
+ */
+export function detectGasVehicleFuel(fuelType1?: string, fuelType2?: string): GasVehicleFuel {
+  if (fuelType1?.toLowerCase().includes('diesel')) return 'diesel';
+  if (fuelType2?.toLowerCase().includes('e85')) return 'flexFuel';
+  return 'gasoline';
+}
@@ -0,0 +1,80 @@
+import {
+  CalculatorInputs,
+  ChargerAmortization,
+  ChargingMix,
+  EnergySource,
+  HomeChargerSettings,
+} from '@/types';
+import { normalizeProjectionSettings } from './projection';
+
+export const MAX_CHARGER_AMORTIZATION_YEARS = 20;
+
+export const DEFAULT_HOME_CHARGER_SETTINGS: HomeChargerSettings = {
+  enabled: false,
+  hardwareCost: 600,
+  installationCost: 900,
+  panelUpgradeCost: 0,
+  rebates: 0,
+  amortization: 'years',
+  amortizationYears: 10,
+};
+
+export const CHARGER_AMORTIZATION_LABELS: Record<ChargerAmortization, string> = {
+  years: 'Set period',
+  projection: 'Projection horizon',
+};
+
+type ChargerInputs = Pick<CalculatorInputs, 'homeCharger' | 'projection'>;
+
+/**
+ * Charger, installation and panel work before any rebates
+ */
+export function calculateChargerGrossCost(settings: HomeChargerSettings): number {
+  return (
+    Math.max(0, settings.hardwareCost) +
+    Math.max(0, settings.installationCost) +
+    Math.max(0, settings.panelUpgradeCost)
+  );
+}
+
+/**
+ * Up-front cost of the home charger after rebates; zero when no charger is installed
+ */
+export function calculateChargerNetCost(settings: HomeChargerSettings): number {
+  if (!settings.enabled) return 0;
+  return Math.max(0, calculateChargerGrossCost(settings) - Math.max(0, settings.rebates));
+}
+
+/**
+ * Years the install cost is spread over: the chosen period, or the projection horizon
+ */
+export function resolveChargerAmortizationYears(inputs: ChargerInputs): number {
+  if (inputs.homeCharger.amortization === 'projection') {
+    return normalizeProjectionSettings(inputs.projection).years;
+  }
+  return Math.max(1, Math.min(MAX_CHARGER_AMORTIZATION_YEARS, inputs.homeCharger.amortizationYears));
+}
+
+/**
+ * Net install cost spread evenly over the amortization period, per year
+ */
+export function calculateAnnualChargerCost(inputs: ChargerInputs): number {
+  return calculateChargerNetCost(inputs.homeCharger) / resolveChargerAmortizationYears(inputs);
+}
+
+/**
+ * Amortized charger cost per mile at the base daily distance
+ */
+export function calculateChargerCostPerMile(
+  inputs: ChargerInputs & Pick<CalculatorInputs, 'baseDistance'>
+): number {
+  const annualDistance = inputs.baseDistance * 365;
+  return annualDistance > 0 ? calculateAnnualChargerCost(inputs) / annualDistance : 0;
+}
+
+/**
+ * Whether an EV option charges at home and so carries the charger cost
+ */
+export function usesHomeCharger(energy: EnergySource, chargingMix: ChargingMix): boolean {
+  return energy === 'evHome' || (energy === 'evMix' && chargingMix.home > 0);
+}
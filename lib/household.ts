@@ -0,0 +1,128 @@
+import {
+  CalculatorInputs,
+  CostBreakdown,
+  CostOption,
+  CostOptionKey,
+  HouseholdVehicle,
+  VehicleKind,
+} from '@/types';
+import { calculateScenario, getOptionHomeChargingLoad } from './calculations';
+import { applyClimateAdjustment } from './climate';
+import { applyIncentives } from './incentives';
+import { resolveHomeChargingPrice } from './solar';
+import { getCostOptions } from './vehicles';
+
+export const MAX_HOUSEHOLD_VEHICLES = 4;
+
+// Two cars driven different amounts, replacing the second with an EV
+export const DEFAULT_HOUSEHOLD: HouseholdVehicle[] = [
+  { id: 'car-1', name: 'Car A', annualDistance: 12000, current: 'gasRegular', replacement: null },
+  { id: 'car-2', name: 'Car B', annualDistance: 8000, current: 'gasRegular', replacement: 'evMix' },
+];
+
+export interface HouseholdVehicleResult {
+  vehicle: HouseholdVehicle;
+  current: CostBreakdown;
+  planned: CostBreakdown; // same option as current when the vehicle is kept
+  currentOption: CostOption;
+  plannedOption: CostOption;
+}
+
+export interface HouseholdResult {
+  vehicles: HouseholdVehicleResult[];
+  currentEnergyCost: number; // $ a year for the whole household
+  plannedEnergyCost: number;
+  currentTotalCost: number; // $ a year, with ownership costs when they are included
+  plannedTotalCost: number;
+}
+
+/**
+ * The option a household vehicle runs as. Keys for removed extra vehicles fall back to
+ * the first option of the given powertrain.
+ */
+export function resolveHouseholdOption(
+  key: CostOptionKey,
+  options: CostOption[],
+  fallbackKind: VehicleKind
+): CostOption {
+  return (
+    options.find((option) => option.key === key) ??
+    options.find((option) => option.vehicle.kind === fallbackKind) ??
+    options[0]
+  );
+}
+
+/**
+ * New household vehicle, driven as much as the base daily distance and kept as it is
+ */
+export function createHouseholdVehicle(inputs: CalculatorInputs): HouseholdVehicle {
+  const nextNumber =
+    inputs.household.reduce((max, vehicle) => {
+      const match = /^car-(\d+)$/.exec(vehicle.id);
+      return match ? Math.max(max, parseInt(match[1], 10)) : max;
+    }, 0) + 1;
+  const gasOption = getCostOptions(inputs).find((option) => option.vehicle.kind === 'gas');
+  return {
+    id: `car-${nextNumber}`,
+    name: `Car ${String.fromCharCode(64 + Math.min(26, inputs.household.length + 1))}`,
+    annualDistance: Math.round(inputs.baseDistance * 365),
+    current: gasOption?.key ?? 'gasRegular',
+    replacement: null,
+  };
+}
+
+// A shared home charger is paid for once, however many vehicles charge on it
+const sumHouseholdTotals = (breakdowns: CostBreakdown[]) =>
+  breakdowns.reduce((sum, breakdown) => sum + breakdown.totalCost - breakdown.chargerCost, 0) +
+  Math.max(0, ...breakdowns.map((breakdown) => breakdown.chargerCost));
+
+/**
+ * Price each household vehicle for a year at its own distance, today and with any
+ * planned replacement, through calculateScenario, and add them up. The vehicles share
+ * one meter, so home charging is priced once for the household's combined kWh, sized
+ * from each vehicle's own distance, and every vehicle pays that rate for its share.
+ * On TOU and tiered plans a new EV can so raise what the others pay to charge.
+ */
+export function calculateHousehold(inputs: CalculatorInputs): HouseholdResult {
+  const adjusted = applyIncentives(applyClimateAdjustment(inputs));
+  const options = getCostOptions(adjusted);
+
+  const choices = inputs.household.map((vehicle) => {
+    const current = resolveHouseholdOption(vehicle.current, options, 'gas');
+    const planned =
+      vehicle.replacement === null
+        ? current
+        : resolveHouseholdOption(vehicle.replacement, options, 'ev');
+    return { vehicle, distance: Math.max(0, vehicle.annualDistance), current, planned };
+  });
+
+  const resolveHouseholdHomePrice = (side: 'current' | 'planned') =>
+    resolveHomeChargingPrice(
+      adjusted,
+      choices.map((choice) => ({
+        ...getOptionHomeChargingLoad(adjusted, choice[side]),
+        dailyDistance: choice.distance / 365,
+      }))
+    );
+  const currentHomePrice = resolveHouseholdHomePrice('current');
+  const plannedHomePrice = resolveHouseholdHomePrice('planned');
+
+  const priceYear = (option: CostOption, distance: number, homePrice: number) =>
+    calculateScenario(adjusted, distance, 365, [option], homePrice).options[option.key];
+
+  const vehicles = choices.map(({ vehicle, distance, current, planned }) => ({
+    vehicle,
+    current: priceYear(current, distance, currentHomePrice),
+    planned: priceYear(planned, distance, plannedHomePrice),
+    currentOption: current,
+    plannedOption: planned,
+  }));
+
+  return {
+    vehicles,
+    currentEnergyCost: vehicles.reduce((sum, item) => sum + item.current.fuelCost, 0),
+    plannedEnergyCost: vehicles.reduce((sum, item) => sum + item.planned.fuelCost, 0),
+    currentTotalCost: sumHouseholdTotals(vehicles.map((item) => item.current)),
+    plannedTotalCost: sumHouseholdTotals(vehicles.map((item) => item.planned)),
+  };
+}
@@ -0,0 +1,503 @@
+import {
+  CalculatorInputs,
+  HomeChargerSettings,
+  IncentiveSettings,
+  IncentiveVehicle,
+  TaxFilingStatus,
+  VehicleCondition,
+  VehicleKind,
+} from '@/types';
+import { calculateChargerGrossCost } from './home-charger';
+import { CANADIAN_PROVINCE_NAMES } from './postal-codes';
+
+export type IncentiveLevel = 'federal' | 'state' | 'utility';
+
+export type IncentiveTarget = 'vehicle' | 'charger';
+
+export type PluginKind = Exclude<VehicleKind, 'gas'>;
+
+export interface IncentiveProgram {
+  id: string;
+  name: string;
+  provider: string;
+  level: IncentiveLevel;
+  target: IncentiveTarget;
+  states?: string[]; // omitted for federal programs, which cover every U.S. state
+  utility?: string; // utility id, utility programs only
+  amounts: Partial<Record<PluginKind, number>> | number; // $ by powertrain, or one amount for chargers
+  percentOfPrice?: number; // % of the vehicle or charger price the amount cannot exceed
+  conditions?: VehicleCondition[]; // vehicle programs only
+  priceCap?: number; // $ MSRP for new vehicles, sale price for used
+  incomeCaps?: Record<TaxFilingStatus, number>; // $ modified adjusted gross income
+  minModelAge?: number; // years between model year and purchase year
+  validFrom?: string; // YYYY-MM-DD
+  validUntil?: string; // YYYY-MM-DD
+  note?: string;
+}
+
+export interface IncentiveUtility {
+  name: string;
+  states: string[];
+}
+
+export type IncentiveStatus = 'eligible' | 'needsInfo' | 'ineligible';
+
+export interface IncentiveMatch {
+  program: IncentiveProgram;
+  status: IncentiveStatus;
+  amount: number; // $ when eligible, otherwise the amount it would pay
+  reason?: string;
+}
+
+export interface IncentiveSummary {
+  matches: IncentiveMatch[];
+  vehicleTotal: number; // $ from eligible vehicle programs
+  chargerTotal: number; // $ from eligible charger programs
+}
+
+interface IncentiveVehicleDetails {
+  kind: PluginKind;
+  price: number; // $
+  vehicle?: IncentiveVehicle | null;
+}
+
+/** Month the bundled incentive data was last reviewed */
+export const INCENTIVE_DATA_VERSION = '2026-09';
+
+export const INCENTIVE_LEVEL_LABELS: Record<IncentiveLevel, string> = {
+  federal: 'Federal',
+  state: 'State',
+  utility: 'Utility',
+};
+
+export const TAX_FILING_STATUS_LABELS: Record<TaxFilingStatus, string> = {
+  single: 'Single',
+  headOfHousehold: 'Head of household',
+  joint: 'Married filing jointly',
+};
+
+export const DEFAULT_INCENTIVE_SETTINGS: IncentiveSettings = {
+  enabled: false,
+  state: null,
+  utility: null,
+  condition: 'new',
+  filingStatus: 'joint',
+  householdIncome: null,
+  purchaseDate: null,
+  vehicle: null,
+};
+
+export const INCENTIVE_UTILITIES: Record<string, IncentiveUtility> = {
+  dte: { name: 'DTE Energy', states: ['MI'] },
+  'georgia-power': { name: 'Georgia Power', states: ['GA'] },
+  pge: { name: 'Pacific Gas and Electric', states: ['CA'] },
+  xcel: { name: 'Xcel Energy', states: ['CO', 'MN', 'WI'] },
+};
+
+const FEDERAL_CLEAN_VEHICLE_INCOME_CAPS: Record<TaxFilingStatus, number> = {
+  single: 150000,
+  headOfHousehold: 225000,
+  joint: 300000,
+};
+
+/**
+ * Bundled federal, state and utility programs, amounts in U.S. dollars.
+ * Reviewed as of INCENTIVE_DATA_VERSION; programs change often, so each one
+ * carries its own dates and the UI points users to the provider to confirm.
+ */
+export const INCENTIVE_PROGRAMS: IncentiveProgram[] = [
+  {
+    id: 'federal-clean-vehicle-new',
+    name: 'Clean vehicle credit',
+    provider: 'IRS',
+    level: 'federal',
+    target: 'vehicle',
+    amounts: { ev: 7500, phev: 7500 },
+    conditions: ['new'],
+    priceCap: 80000,
+    incomeCaps: FEDERAL_CLEAN_VEHICLE_INCOME_CAPS,
+    validUntil: '2025-09-30',
+    note: 'MSRP cap is $55,000 for cars and $80,000 for SUVs, vans and pickups; battery sourcing rules also applied.',
+  },
+  {
+    id: 'federal-clean-vehicle-used',
+    name: 'Previously owned clean vehicle credit',
+    provider: 'IRS',
+    level: 'federal',
+    target: 'vehicle',
+    amounts: { ev: 4000, phev: 4000 },
+    percentOfPrice: 30,
+    conditions: ['used'],
+    priceCap: 25000,
+    incomeCaps: { single: 75000, headOfHousehold: 112500, joint: 150000 },
+    minModelAge: 2,
+    validUntil: '2025-09-30',
+    note: 'Dealer sales only, once per vehicle.',
+  },
+  {
+    id: 'federal-charger',
+    name: 'Refueling property credit',
+    provider: 'IRS',
+    level: 'federal',
+    target: 'charger',
+    amounts: 1000,
+    percentOfPrice: 30,
+    validUntil: '2026-06-30',
+    note: 'Only for homes in eligible low-income or non-urban census tracts.',
+  },
+  {
+    id: 'co-innovative-vehicle',
+    name: 'Innovative motor vehicle credit',
+    provider: 'Colorado',
+    level: 'state',
+    target: 'vehicle',
+    states: ['CO'],
+    amounts: { ev: 3500, phev: 3500 },
+    conditions: ['new'],
+    priceCap: 80000,
+    validFrom: '2025-01-01',
+    validUntil: '2026-12-31',
+  },
+  {
+    id: 'ct-cheapr',
+    name: 'CHEAPR standard rebate',
+    provider: 'Connecticut',
+    level: 'state',
+    target: 'vehicle',
+    states: ['CT'],
+    amounts: { ev: 500 },
+    conditions: ['new'],
+    priceCap: 50000,
+  },
+  {
+    id: 'de-clean-vehicle',
+    name: 'Clean vehicle rebate',
+    provider: 'Delaware',
+    level: 'state',
+    target: 'vehicle',
+    states: ['DE'],
+    amounts: { ev: 2500, phev: 1000 },
+    conditions: ['new'],
+    priceCap: 50000,
+  },
+  {
+    id: 'ma-mor-ev',
+    name: 'MOR-EV rebate',
+    provider: 'Massachusetts',
+    level: 'state',
+    target: 'vehicle',
+    states: ['MA'],
+    amounts: { ev: 3500, phev: 1500 },
+    conditions: ['new'],
+    priceCap: 55000,
+  },
+  {
+    id: 'ma-mor-ev-used',
+    name: 'MOR-EV used rebate',
+    provider: 'Massachusetts',
+    level: 'state',
+    target: 'vehicle',
+    states: ['MA'],
+    amounts: { ev: 3500, phev: 3500 },
+    conditions: ['used'],
+    priceCap: 40000,
+    incomeCaps: { single: 62000, headOfHousehold: 85000, joint: 110000 },
+  },
+  {
+    id: 'nj-charge-up',
+    name: 'Charge Up New Jersey',
+    provider: 'New Jersey',
+    level: 'state',
+    target: 'vehicle',
+    states: ['NJ'],
+    amounts: { ev: 4000 },
+    conditions: ['new'],
+    priceCap: 55000,
+    validUntil: '2026-06-30',
+    note: 'Funded per fiscal year; the program closes early when funds run out.',
+  },
+  {
+    id: 'ny-drive-clean',
+    name: 'Drive Clean rebate',
+    provider: 'New York',
+    level: 'state',
+    target: 'vehicle',
+    states: ['NY'],
+    amounts: { ev: 2000, phev: 500 },
+    conditions: ['new'],
+    priceCap: 42000,
+    note: 'Paid at the dealer; the amount depends on electric range.',
+  },
+  {
+    id: 'or-charge-ahead',
+    name: 'Charge Ahead rebate',
+    provider: 'Oregon',
+    level: 'state',
+    target: 'vehicle',
+    states: ['OR'],
+    amounts: { ev: 5000, phev: 5000 },
+    conditions: ['new', 'used'],
+    priceCap: 50000,
+    incomeCaps: { single: 60000, headOfHousehold: 80000, joint: 100000 },
+  },
+  {
+    id: 'tx-light-duty',
+    name: 'Light-duty motor vehicle purchase grant',
+    provider: 'Texas',
+    level: 'state',
+    target: 'vehicle',
+    states: ['TX'],
+    amounts: { ev: 2500 },
+    conditions: ['new'],
+    note: 'Limited to the first 2,000 applicants each round.',
+  },
+  {
+    id: 'vt-new-pev',
+    name: 'New PEV incentive',
+    provider: 'Vermont',
+    level: 'state',
+    target: 'vehicle',
+    states: ['VT'],
+    amounts: { ev: 4000, phev: 3000 },
+    conditions: ['new'],
+    priceCap: 50000,
+    incomeCaps: { single: 70000, headOfHousehold: 90000, joint: 110000 },
+  },
+  {
+    id: 'dte-charger',
+    name: 'Home charger rebate',
+    provider: 'DTE Energy',
+    level: 'utility',
+    target: 'charger',
+    states: ['MI'],
+    utility: 'dte',
+    amounts: 500,
+  },
+  {
+    id: 'georgia-power-charger',
+    name: 'Home charger rebate',
+    provider: 'Georgia Power',
+    level: 'utility',
+    target: 'charger',
+    states: ['GA'],
+    utility: 'georgia-power',
+    amounts: 250,
+  },
+  {
+    id: 'pge-empower-ev',
+    name: 'Empower EV charger rebate',
+    provider: 'Pacific Gas and Electric',
+    level: 'utility',
+    target: 'charger',
+    states: ['CA'],
+    utility: 'pge',
+    amounts: 700,
+    incomeCaps: { single: 60000, headOfHousehold: 80000, joint: 100000 },
+  },
+  {
+    id: 'xcel-home-wiring',
+    name: 'Home wiring rebate',
+    provider: 'Xcel Energy',
+    level: 'utility',
+    target: 'charger',
+    states: ['CO', 'MN', 'WI'],
+    utility: 'xcel',
+    amounts: 500,
+  },
+];
+
+const todayIsoDate = () => new Date().toISOString().slice(0, 10);
+
+const formatDollars = (value: number) => `$${value.toLocaleString('en-US')}`;
+
+/**
+ * Utilities with programs in the given state
+ */
+export function getUtilitiesForState(state: string | null): [string, IncentiveUtility][] {
+  if (!state) return [];
+  return Object.entries(INCENTIVE_UTILITIES).filter(([, utility]) =>
+    utility.states.includes(state)
+  );
+}
+
+/**
+ * Programs offered where the user lives: federal programs anywhere in the U.S.,
+ * plus state programs and the chosen utility's programs once a state is known
+ */
+export function getAvailablePrograms(settings: IncentiveSettings): IncentiveProgram[] {
+  const { state, utility } = settings;
+  const inUs = !state || !CANADIAN_PROVINCE_NAMES[state];
+  return INCENTIVE_PROGRAMS.filter((program) => {
+    if (program.level === 'federal') return inUs;
+    if (!state || !program.states?.includes(state)) return false;
+    return program.level === 'state' || program.utility === utility;
+  });
+}
+
+function matchProgram(
+  program: IncentiveProgram,
+  settings: IncentiveSettings,
+  details: IncentiveVehicleDetails,
+  charger: HomeChargerSettings | null,
+  date: string
+): IncentiveMatch {
+  const forCharger = program.target === 'charger';
+  const price = forCharger
+    ? charger
+      ? calculateChargerGrossCost(charger)
+      : 0
+    : Math.max(0, details.price);
+  const baseAmount =
+    typeof program.amounts === 'number' ? program.amounts : program.amounts[details.kind] ?? 0;
+  let amount = program.percentOfPrice
+    ? Math.min(baseAmount, (price * program.percentOfPrice) / 100)
+    : baseAmount;
+  if (forCharger) amount = Math.min(amount, price);
+
+  const ineligible = (reason: string): IncentiveMatch => ({
+    program,
+    status: 'ineligible',
+    amount,
+    reason,
+  });
+
+  if (program.validFrom && date < program.validFrom) {
+    return ineligible(`Starts ${program.validFrom}`);
+  }
+  if (program.validUntil && date > program.validUntil) {
+    return ineligible(`Ended ${program.validUntil}`);
+  }
+  if (forCharger && !charger?.enabled) {
+    return ineligible('Needs a home charger install');
+  }
+  if (!forCharger) {
+    if (baseAmount <= 0) {
+      return ineligible(details.kind === 'phev' ? 'Not for plug-in hybrids' : 'Not for EVs');
+    }
+    if (program.conditions && !program.conditions.includes(settings.condition)) {
+      return ineligible(settings.condition === 'new' ? 'Used vehicles only' : 'New vehicles only');
+    }
+    if (program.priceCap !== undefined && details.price > program.priceCap) {
+      return ineligible(`Price above ${formatDollars(program.priceCap)} cap`);
+    }
+  }
+
+  const missing: string[] = [];
+  if (!forCharger && program.minModelAge !== undefined) {
+    const modelYear = Number(details.vehicle?.year);
+    if (!modelYear) {
+      missing.push('model year');
+    } else if (Number(date.slice(0, 4)) - modelYear < program.minModelAge) {
+      return ineligible(`Model year must be ${program.minModelAge}+ years old`);
+    }
+  }
+  if (program.incomeCaps) {
+    const cap = program.incomeCaps[settings.filingStatus];
+    if (settings.householdIncome === null) {
+      missing.push('household income');
+    } else if (settings.householdIncome > cap) {
+      return ineligible(`Income above ${formatDollars(cap)} limit`);
+    }
+  }
+  if (missing.length) {
+    return { program, status: 'needsInfo', amount, reason: `Needs ${missing.join(' and ')}` };
+  }
+
+  return { program, status: 'eligible', amount };
+}
+
+/**
+ * Check every available program against the vehicle and household. Only eligible
+ * programs count toward the totals; ones missing income or model year are listed
+ * so the user can fill them in. Charger programs are left out without charger settings.
+ */
+export function summarizeIncentives(
+  settings: IncentiveSettings,
+  details: IncentiveVehicleDetails,
+  charger: HomeChargerSettings | null = null
+): IncentiveSummary {
+  const date = settings.purchaseDate || todayIsoDate();
+  const matches = getAvailablePrograms(settings)
+    .filter((program) => charger || program.target === 'vehicle')
+    .map((program) => matchProgram(program, settings, details, charger, date));
+  const total = (target: IncentiveTarget) =>
+    matches
+      .filter((match) => match.status === 'eligible' && match.program.target === target)
+      .reduce((sum, match) => sum + match.amount, 0);
+
+  return {
+    matches,
+    vehicleTotal: total('vehicle'),
+    // Stacked charger rebates never pay back more than the charger cost
+    chargerTotal: Math.min(total('charger'), charger ? calculateChargerGrossCost(charger) : 0),
+  };
+}
+
+/**
+ * Incentives for the primary EV, including home charger programs
+ */
+export function summarizeEvIncentives(
+  inputs: Pick<CalculatorInputs, 'incentives' | 'evOwnership' | 'homeCharger'>
+): IncentiveSummary {
+  return summarizeIncentives(
+    inputs.incentives,
+    {
+      kind: 'ev',
+      price: inputs.evOwnership.purchasePrice,
+      vehicle: inputs.incentives.vehicle,
+    },
+    inputs.homeCharger
+  );
+}
+
+/**
+ * Fold matched incentives into the ownership costs of every plug-in vehicle, the
+ * primary EV, the PHEV and extra EVs, when incentive matching is on. Charger rebates go
+ * to the home charger instead, so they shrink the amortized install cost rather than
+ * the EV's price.
+ */
+export function applyIncentives<T extends CalculatorInputs>(inputs: T): T {
+  if (!inputs.incentives.enabled) return inputs;
+  const ev = summarizeEvIncentives(inputs);
+  const adjusted = {
+    ...inputs,
+    evOwnership: {
+      ...inputs.evOwnership,
+      incentives: inputs.evOwnership.incentives + ev.vehicleTotal,
+    },
+    homeCharger: {
+      ...inputs.homeCharger,
+      rebates: inputs.homeCharger.rebates + ev.chargerTotal,
+    },
+  };
+
+  if (inputs.phev.enabled) {
+    const phev = summarizeIncentives(inputs.incentives, {
+      kind: 'phev',
+      price: inputs.phevOwnership.purchasePrice,
+      vehicle: inputs.phev.vehicle,
+    });
+    adjusted.phevOwnership = {
+      ...inputs.phevOwnership,
+      incentives: inputs.phevOwnership.incentives + phev.vehicleTotal,
+    };
+  }
+
+  adjusted.extraVehicles = inputs.extraVehicles.map((vehicle) => {
+    if (vehicle.kind === 'gas') return vehicle;
+    const extra = summarizeIncentives(inputs.incentives, {
+      kind: vehicle.kind,
+      price: vehicle.ownership.purchasePrice,
+      vehicle: vehicle.model,
+    });
+    return {
+      ...vehicle,
+      ownership: {
+        ...vehicle.ownership,
+        incentives: vehicle.ownership.incentives + extra.vehicleTotal,
+      },
+    };
+  });
+
+  return adjusted;
+}
@@ -0,0 +1,120 @@
+import { OwnershipCosts } from '@/types';
+import {
+  calculateAnnualLeaseCosts,
+  calculateFinancingInterest,
+  calculateLeaseOverageCost,
+  calculateLoanInterestByYear,
+} from './financing';
+
+export interface OwnershipLineItems {
+  depreciationCost: number;
+  insuranceCost: number;
+  maintenanceCost: number;
+  registrationCost: number;
+  financingCost: number;
+}
+
+export const EMPTY_OWNERSHIP_LINE_ITEMS: OwnershipLineItems = {
+  depreciationCost: 0,
+  insuranceCost: 0,
+  maintenanceCost: 0,
+  registrationCost: 0,
+  financingCost: 0,
+};
+
+/**
+ * Purchase price after rebates and tax credits
+ */
+export function calculateNetPurchasePrice(costs: OwnershipCosts): number {
+  return Math.max(0, costs.purchasePrice - Math.max(0, costs.incentives));
+}
+
+/**
+ * Share of a year (1 for the first) that falls within a period of years from the start
+ */
+export function getShareOfYearWithin(year: number, periodYears: number): number {
+  return Math.max(0, Math.min(1, periodYears - (year - 1)));
+}
+
+/**
+ * Calculate ownership costs that accrue with time rather than distance, per year.
+ * Leases replace depreciation with lease depreciation fees and interest with rent charges.
+ * Loan interest is averaged over the loan term, since it stops once the loan is paid off.
+ */
+export function calculateAnnualFixedCosts(costs: OwnershipCosts) {
+  if (costs.financing === 'lease') {
+    const lease = calculateAnnualLeaseCosts(costs);
+    return {
+      depreciation: lease.depreciation,
+      insurance: Math.max(0, costs.insurance),
+      registration: Math.max(0, costs.registration),
+      financing: lease.rent,
+    };
+  }
+  const years = costs.ownershipYears > 0 ? costs.ownershipYears : 1;
+  const loanYears = Math.max(1, costs.loanTermMonths / 12);
+  return {
+    depreciation: Math.max(0, calculateNetPurchasePrice(costs) - costs.resaleValue) / years,
+    insurance: Math.max(0, costs.insurance),
+    registration: Math.max(0, costs.registration),
+    financing: calculateFinancingInterest(costs) / loanYears,
+  };
+}
+
+/**
+ * Calculate non-fuel ownership line items for a period of driving.
+ * Fixed costs are prorated by days; maintenance scales with distance, and lease
+ * overage fees count as depreciation since they pay for the extra wear.
+ */
+export function calculateOwnershipLineItems(
+  costs: OwnershipCosts,
+  distance: number,
+  days: number
+): OwnershipLineItems {
+  const annual = calculateAnnualFixedCosts(costs);
+  const yearFraction = Math.max(0, days) / 365;
+
+  return {
+    depreciationCost:
+      annual.depreciation * yearFraction + calculateLeaseOverageCost(costs, distance, days),
+    insuranceCost: annual.insurance * yearFraction,
+    maintenanceCost: Math.max(0, costs.maintenance) * distance,
+    registrationCost: annual.registration * yearFraction,
+    financingCost: annual.financing * yearFraction,
+  };
+}
+
+/**
+ * Non-fuel ownership line items for one year of a multi-year view (1 for the first).
+ * Depreciation stops after the ownership period, loan interest follows the
+ * amortization schedule and ends with the loan, and lease fees, rent and overage end
+ * with the lease; insurance, registration and maintenance recur every year.
+ */
+export function calculateOwnershipLineItemsForYear(
+  costs: OwnershipCosts,
+  annualDistance: number,
+  year: number
+): OwnershipLineItems {
+  const annual = calculateAnnualFixedCosts(costs);
+  const recurring = {
+    insuranceCost: annual.insurance,
+    maintenanceCost: Math.max(0, costs.maintenance) * annualDistance,
+    registrationCost: annual.registration,
+  };
+
+  if (costs.financing === 'lease') {
+    const share = getShareOfYearWithin(year, costs.leaseTermMonths / 12);
+    return {
+      ...recurring,
+      depreciationCost:
+        (annual.depreciation + calculateLeaseOverageCost(costs, annualDistance, 365)) * share,
+      financingCost: annual.financing * share,
+    };
+  }
+  const ownershipYears = costs.ownershipYears > 0 ? costs.ownershipYears : 1;
+  return {
+    ...recurring,
+    depreciationCost: annual.depreciation * getShareOfYearWithin(year, ownershipYears),
+    financingCost: calculateLoanInterestByYear(costs)[year - 1] ?? 0,
+  };
+}
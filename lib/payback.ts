@@ -0,0 +1,107 @@
+import { AgingAdjustment, OwnershipCosts } from '@/types';
+import { calculateNetPurchasePrice } from './ownership';
+
+export const MAX_PAYBACK_MONTHS = 240;
+
+export interface PaybackPoint {
+  month: number;
+  miles: number;
+  evCumulative: number; // purchase premium plus EV fuel
+  gasCumulative: number; // gas fuel
+}
+
+export interface PaybackResult {
+  premium: number;
+  firstYearMonthlySavings: number;
+  paybackMonths: number | null;
+  paybackMiles: number | null;
+  points: PaybackPoint[];
+}
+
+interface PaybackOptions {
+  premium: number;
+  evAnnualFuelCost: number;
+  gasAnnualFuelCost: number;
+  annualMiles: number;
+  electricityEscalation?: number; // % per year
+  gasEscalation?: number; // % per year
+  evAging?: AgingAdjustment[] | null; // by year, index 0 for year 1
+  gasAging?: AgingAdjustment[] | null;
+  maxMonths?: number;
+}
+
+/**
+ * Extra up-front cost of the EV over the gas car, net of incentives on each
+ */
+export function calculatePurchasePremium(ev: OwnershipCosts, gas: OwnershipCosts): number {
+  return calculateNetPurchasePrice(ev) - calculateNetPurchasePrice(gas);
+}
+
+/**
+ * Find when cumulative fuel savings recover the EV purchase premium.
+ * Fuel costs escalate once a year, matching the multi-year projection, and with
+ * vehicle aging they follow each year's efficiency while battery replacements land
+ * in the first month of their year.
+ * Returns null payback when savings never catch up within the horizon.
+ */
+export function calculatePayback({
+  premium,
+  evAnnualFuelCost,
+  gasAnnualFuelCost,
+  annualMiles,
+  electricityEscalation = 0,
+  gasEscalation = 0,
+  evAging = null,
+  gasAging = null,
+  maxMonths = MAX_PAYBACK_MONTHS,
+}: PaybackOptions): PaybackResult {
+  const milesPerMonth = annualMiles / 12;
+  const points: PaybackPoint[] = [
+    { month: 0, miles: 0, evCumulative: premium, gasCumulative: 0 },
+  ];
+  let paybackMonths: number | null = premium <= 0 ? 0 : null;
+
+  for (let month = 1; month <= maxMonths; month++) {
+    const yearIndex = Math.floor((month - 1) / 12);
+    const evYear = evAging?.[yearIndex];
+    const gasYear = gasAging?.[yearIndex];
+    const evMonthly =
+      (evAnnualFuelCost / 12) *
+      Math.pow(1 + electricityEscalation / 100, yearIndex) *
+      (evYear?.fuelFactor ?? 1);
+    const gasMonthly =
+      (gasAnnualFuelCost / 12) *
+      Math.pow(1 + gasEscalation / 100, yearIndex) *
+      (gasYear?.fuelFactor ?? 1);
+    // One-off costs are paid at the start of their year
+    const startOfYear = (month - 1) % 12 === 0;
+    const evExtra = startOfYear ? evYear?.extraCost ?? 0 : 0;
+    const gasExtra = startOfYear ? gasYear?.extraCost ?? 0 : 0;
+    const previous = points[points.length - 1];
+    const current = {
+      month,
+      miles: milesPerMonth * month,
+      evCumulative: previous.evCumulative + evExtra + evMonthly,
+      gasCumulative: previous.gasCumulative + gasExtra + gasMonthly,
+    };
+    points.push(current);
+
+    if (paybackMonths === null && current.gasCumulative >= current.evCumulative) {
+      // Interpolate within the month where the lines cross
+      const gapBefore = Math.max(
+        0,
+        previous.evCumulative + evExtra - (previous.gasCumulative + gasExtra)
+      );
+      const savings = gasMonthly - evMonthly;
+      paybackMonths = month - 1 + (savings > 0 ? gapBefore / savings : 1);
+    }
+  }
+
+  return {
+    premium,
+    firstYearMonthlySavings: (gasAnnualFuelCost - evAnnualFuelCost) / 12,
+    paybackMonths,
+    paybackMiles: paybackMonths === null ? null : paybackMonths * milesPerMonth,
+    points,
+  };
+}
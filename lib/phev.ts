@@ -0,0 +1,52 @@
+import { PhevSettings, PhevUtilityMode } from '@/types';
+
+/**
+ * Mid-size plug-in hybrid SUV with about 40 miles of electric range
+ */
+export const DEFAULT_PHEV_SETTINGS: PhevSettings = {
+  enabled: false,
+  electricEfficiency: 2.9,
+  gasEfficiency: 38,
+  gasFuel: 'gasRegular',
+  vehicle: null,
+  electricRange: 42,
+  utilityMode: 'epa',
+  electricShare: 60,
+};
+
+export const PHEV_UTILITY_MODE_LABELS: Record<PhevUtilityMode, string> = {
+  epa: 'EPA utility factor',
+  custom: 'My electric share',
+};
+
+// SAE J2841 multi-day individual utility factor, as used on EPA fuel economy labels
+const UTILITY_FACTOR_NORMALIZED_DISTANCE = 400;
+const UTILITY_FACTOR_COEFFICIENTS = [
+  13.1, -18.7, 5.22, 8.15, 3.53, -1.34, -4.01, -3.9, -1.15, 3.88,
+];
+
+/**
+ * Share of miles an average driver covers on electricity given a PHEV's electric range
+ */
+export function calculateUtilityFactor(electricRange: number): number {
+  if (electricRange <= 0) return 0;
+  const normalized = Math.min(electricRange, UTILITY_FACTOR_NORMALIZED_DISTANCE) /
+    UTILITY_FACTOR_NORMALIZED_DISTANCE;
+  const exponent = UTILITY_FACTOR_COEFFICIENTS.reduce(
+    (sum, coefficient, index) => sum + coefficient * Math.pow(normalized, index + 1),
+    0
+  );
+  return Math.max(0, Math.min(1, 1 - Math.exp(-exponent)));
+}
+
+/**
+ * Fraction of PHEV miles driven on electricity under the selected utility mode
+ */
+export function resolvePhevElectricShare(
+  settings: Pick<PhevSettings, 'utilityMode' | 'electricRange' | 'electricShare'>
+): number {
+  if (settings.utilityMode === 'custom') {
+    return Math.max(0, Math.min(100, settings.electricShare)) / 100;
+  }
+  return calculateUtilityFactor(settings.electricRange);
+}
@@ -0,0 +1,75 @@
+export const US_ZIP_CODE_REGEX = /^\d{5}(-\d{4})?$/;
+// Canadian postal codes (A1A 1A1) never use D, F, I, O, Q or U, and W and Z never lead
+export const CANADIAN_POSTAL_CODE_REGEX =
+  /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i;
+
+export const CANADIAN_PROVINCE_NAMES: Record<string, string> = {
+  AB: 'Alberta',
+  BC: 'British Columbia',
+  MB: 'Manitoba',
+  NB: 'New Brunswick',
+  NL: 'Newfoundland and Labrador',
+  NS: 'Nova Scotia',
+  NT: 'Northwest Territories',
+  NU: 'Nunavut',
+  ON: 'Ontario',
+  PE: 'Prince Edward Island',
+  QC: 'Quebec',
+  SK: 'Saskatchewan',
+  YT: 'Yukon',
+};
+
+// The first letter of a postal code identifies the province or territory
+const PROVINCES_BY_FIRST_LETTER: Record<string, string> = {
+  A: 'NL',
+  B: 'NS',
+  C: 'PE',
+  E: 'NB',
+  G: 'QC',
+  H: 'QC',
+  J: 'QC',
+  K: 'ON',
+  L: 'ON',
+  M: 'ON',
+  N: 'ON',
+  P: 'ON',
+  R: 'MB',
+  S: 'SK',
+  T: 'AB',
+  V: 'BC',
+  X: 'NT',
+  Y: 'YT',
+};
+
+// X covers both territories; these forward sortation areas are in Nunavut
+const NUNAVUT_PREFIXES = ['X0A', 'X0B', 'X0C'];
+
+export function isCanadianPostalCode(code: string): boolean {
+  return CANADIAN_POSTAL_CODE_REGEX.test(code.trim());
+}
+
+/**
+ * Accept a US ZIP (12345 or 12345-6789) or a Canadian postal code (A1A 1A1)
+ */
+export function isValidPostalCode(code: string): boolean {
+  const trimmed = code.trim();
+  return US_ZIP_CODE_REGEX.test(trimmed) || CANADIAN_POSTAL_CODE_REGEX.test(trimmed);
+}
+
+/**
+ * Uppercase a Canadian postal code with the standard space, e.g. "k1a0b1" → "K1A 0B1"
+ */
+export function normalizeCanadianPostalCode(code: string): string {
+  const compact = code.replace(/\s+/g, '').toUpperCase();
+  return `${compact.slice(0, 3)} ${compact.slice(3)}`;
+}
+
+/**
+ * Province or territory code for a Canadian postal code, e.g. "V6B 1A1" → "BC"
+ */
+export function getProvinceFromPostalCode(code: string): string | null {
+  if (!isCanadianPostalCode(code)) return null;
+  const normalized = normalizeCanadianPostalCode(code);
+  if (NUNAVUT_PREFIXES.includes(normalized.slice(0, 3))) return 'NU';
+  return PROVINCES_BY_FIRST_LETTER[normalized[0]] ?? null;
+}
@@ -0,0 +1,99 @@
+import {
+  AgingAdjustment,
+  CostOption,
+  CostOptionKey,
+  CostTotals,
+  ProjectionResult,
+  ProjectionSettings,
+  ProjectionYear,
+  ScenarioResult,
+} from '@/types';
+
+export const MAX_PROJECTION_YEARS = 15;
+
+export const DEFAULT_PROJECTION_SETTINGS: ProjectionSettings = {
+  years: 5,
+  gasEscalation: 2,
+  electricityEscalation: 3,
+  discountRate: 0,
+};
+
+function mapCostOptions(
+  options: CostOption[],
+  getValue: (option: CostOption) => number
+): CostTotals {
+  return options.reduce((totals, option) => {
+    totals[option.key] = getValue(option);
+    return totals;
+  }, {} as CostTotals);
+}
+
+/**
+ * Clamp projection settings to the supported horizon and sensible rates
+ */
+export function normalizeProjectionSettings(settings: ProjectionSettings): ProjectionSettings {
+  return {
+    years: Math.max(1, Math.min(MAX_PROJECTION_YEARS, Math.round(settings.years))),
+    gasEscalation: Math.max(-20, Math.min(30, settings.gasEscalation)),
+    electricityEscalation: Math.max(-20, Math.min(30, settings.electricityEscalation)),
+    discountRate: Math.max(0, Math.min(30, settings.discountRate)),
+  };
+}
+
+/**
+ * Project a year of costs over several years.
+ * Fuel costs grow with their energy price escalation starting in year 2. Non-fuel costs
+ * come from each year's own line items when given, so depreciation, loan interest, lease
+ * fees and the charger install stop when their period ends; without them today's annual
+ * amount repeats. Costs are discounted at the end of each year. Energy costs are split
+ * into their electric and liquid-fuel parts, priced from electricOnly, so each part
+ * escalates at its own rate.
+ * With vehicle aging, fuel also scales with each year's efficiency and battery
+ * replacements land in their year.
+ */
+export function calculateProjection(
+  yearly: ScenarioResult,
+  electricOnly: ScenarioResult,
+  options: CostOption[],
+  settings: ProjectionSettings,
+  aging: Record<CostOptionKey, AgingAdjustment[]> | null = null,
+  fixedCosts: Record<CostOptionKey, number[]> | null = null
+): ProjectionResult {
+  const { years, gasEscalation, electricityEscalation, discountRate } =
+    normalizeProjectionSettings(settings);
+
+  const projected: ProjectionYear[] = [];
+  let cumulative = mapCostOptions(options, () => 0);
+  let discountedCumulative = mapCostOptions(options, () => 0);
+
+  for (let year = 1; year <= years; year++) {
+    const annual = mapCostOptions(options, ({ key }) => {
+      const breakdown = yearly.options[key];
+      const electricCost = electricOnly.options[key].fuelCost;
+      const adjustment = aging?.[key]?.[year - 1];
+      const fuelCost =
+        (electricCost * Math.pow(1 + electricityEscalation / 100, year - 1) +
+          (breakdown.fuelCost - electricCost) * Math.pow(1 + gasEscalation / 100, year - 1)) *
+        (adjustment?.fuelFactor ?? 1);
+      const nonFuelCost =
+        fixedCosts?.[key]?.[year - 1] ?? breakdown.totalCost - breakdown.fuelCost;
+      return fuelCost + nonFuelCost + (adjustment?.extraCost ?? 0);
+    });
+    const discountFactor = Math.pow(1 + discountRate / 100, -year);
+    const previous = cumulative;
+    const previousDiscounted = discountedCumulative;
+
+    cumulative = mapCostOptions(options, ({ key }) => previous[key] + annual[key]);
+    discountedCumulative = mapCostOptions(
+      options,
+      ({ key }) => previousDiscounted[key] + annual[key] * discountFactor
+    );
+    projected.push({ year, annual, cumulative, discountedCumulative });
+  }
+
+  return {
+    years: projected,
+    total: cumulative,
+    npv: discountedCumulative,
+  };
+}
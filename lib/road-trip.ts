@@ -0,0 +1,130 @@
+import { CalculatorInputs, RoadTripSettings, VehicleConfig } from '@/types';
+import {
+  calculateMeteredKwh,
+  getChargingLocationLosses,
+  getPrimaryHomeChargingLoad,
+} from './charging';
+import { simulateFastChargingSession } from './fast-charging';
+import { GAS_VEHICLE_FUEL_OPTIONS, getGasFuelPrice } from './fuels';
+import { resolveHomeChargingPrice } from './solar';
+import { getVehicleFuelEfficiency } from './vehicles';
+
+export const DEFAULT_ROAD_TRIP_SETTINGS: RoadTripSettings = {
+  distance: 500,
+  batteryKwh: null,
+  departureSoc: 90,
+  arrivalSoc: 10,
+  chargeToSoc: 80,
+  stationKw: 150,
+  tankGallons: 14,
+  tripsPerYear: 4,
+};
+
+// A fill-up, including pulling off the road and paying
+export const GAS_STOP_MINUTES = 10;
+
+export interface RoadTripStop {
+  arriveSoc: number; // %
+  departSoc: number; // %
+  minutes: number;
+  cost: number; // $ including session and idle fees
+}
+
+export interface RoadTripResult {
+  batteryKwh: number;
+  rangeBetweenStops: number; // miles from the charge-to level down to the arrival level
+  feasible: boolean; // false when the stop window adds no range
+  stops: RoadTripStop[];
+  chargingMinutes: number;
+  evHomeCost: number; // departure charge used on the trip, priced at the home rate
+  evFastCost: number;
+  evCost: number;
+  gasGallons: number;
+  gasStops: number; // fill-ups on the way, leaving with a full tank
+  gasMinutes: number;
+  gasCost: number;
+}
+
+/**
+ * Battery the trip is planned with: the hand-entered size, or the one in the fast
+ * charging section
+ */
+export function resolveRoadTripBattery(
+  inputs: Pick<CalculatorInputs, 'roadTrip' | 'fastChargingTariff'>
+): number {
+  return Math.max(0, inputs.roadTrip.batteryKwh ?? inputs.fastChargingTariff.batteryKwh);
+}
+
+/**
+ * Plan a one-off trip for an EV and a gas vehicle. The EV leaves home at the departure
+ * charge, drives down to the arrival level, then fast charges up to the charge-to level
+ * as often as needed; the last stop only adds what the rest of the trip takes. Each
+ * stop is timed along the charging curve and billed with the fast-charging tariff.
+ */
+export function calculateRoadTrip(
+  inputs: CalculatorInputs,
+  ev: VehicleConfig,
+  gas: VehicleConfig
+): RoadTripResult {
+  const trip = inputs.roadTrip;
+  const distance = Math.max(0, trip.distance);
+  const batteryKwh = resolveRoadTripBattery(inputs);
+  const clampSoc = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+  const arrivalSoc = clampSoc(trip.arrivalSoc);
+  const departureSoc = Math.max(arrivalSoc, clampSoc(trip.departureSoc));
+  const chargeToSoc = Math.max(arrivalSoc, clampSoc(trip.chargeToSoc));
+  const losses = getChargingLocationLosses(inputs);
+
+  const tripKwh = ev.efficiency > 0 ? distance / ev.efficiency : 0;
+  const stopWindowKwh = (batteryKwh * (chargeToSoc - arrivalSoc)) / 100;
+  const remainingKwh = Math.max(0, tripKwh - (batteryKwh * (departureSoc - arrivalSoc)) / 100);
+  const feasible = remainingKwh === 0 || stopWindowKwh > 0;
+  const stopCount = feasible && remainingKwh > 0 ? Math.ceil(remainingKwh / stopWindowKwh) : 0;
+
+  const stops: RoadTripStop[] = Array.from({ length: stopCount }, (_, index) => {
+    const stopKwh =
+      index === stopCount - 1 ? remainingKwh - stopWindowKwh * (stopCount - 1) : stopWindowKwh;
+    const departSoc = Math.min(chargeToSoc, arrivalSoc + Math.ceil((stopKwh / batteryKwh) * 100));
+    const session = simulateFastChargingSession(
+      {
+        ...inputs.fastChargingTariff,
+        batteryKwh,
+        stationKw: trip.stationKw,
+        startSoc: arrivalSoc,
+        endSoc: departSoc,
+      },
+      inputs.fastChargingPrice,
+      losses.dcFast
+    );
+    return { arriveSoc: arrivalSoc, departSoc, minutes: session.minutes, cost: session.cost };
+  });
+
+  const homeKwh = tripKwh - remainingKwh;
+  const homePrice = resolveHomeChargingPrice(inputs, {
+    ...getPrimaryHomeChargingLoad(inputs),
+    efficiency: ev.efficiency,
+  });
+  const evHomeCost = calculateMeteredKwh(homeKwh, losses.home) * homePrice;
+  const evFastCost = stops.reduce((sum, stop) => sum + stop.cost, 0);
+
+  const fuel = GAS_VEHICLE_FUEL_OPTIONS[gas.gasVehicleFuel][0];
+  const mpg = getVehicleFuelEfficiency(gas, fuel);
+  const gasGallons = mpg > 0 ? distance / mpg : 0;
+  const gasStops =
+    trip.tankGallons > 0 ? Math.max(0, Math.ceil(gasGallons / trip.tankGallons) - 1) : 0;
+
+  return {
+    batteryKwh,
+    rangeBetweenStops: stopWindowKwh * ev.efficiency,
+    feasible,
+    stops,
+    chargingMinutes: stops.reduce((sum, stop) => sum + stop.minutes, 0),
+    evHomeCost,
+    evFastCost,
+    evCost: evHomeCost + evFastCost,
+    gasGallons,
+    gasStops,
+    gasMinutes: gasStops * GAS_STOP_MINUTES,
+    gasCost: gasGallons * getGasFuelPrice(inputs, fuel),
+  };
+}
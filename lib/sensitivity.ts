@@ -0,0 +1,253 @@
+import {
+  CalculatorInputs,
+  CostOptionKey,
+  OwnershipCostField,
+  OwnershipCosts,
+  TouRates,
+} from '@/types';
+import { calculateScenario } from './calculations';
+import { applyClimateAdjustment } from './climate';
+import { resolveFastChargingPrice } from './fast-charging';
+import { applyIncentives } from './incentives';
+import { resolveHomeElectricityPrice } from './tariffs';
+import { getCostOptions } from './vehicles';
+
+export const SENSITIVITY_RANGES = [10, 20, 30];
+export const DEFAULT_SENSITIVITY_RANGE = 20;
+
+export type SensitivityUnit =
+  | 'electricityPrice'
+  | 'fuelPrice'
+  | 'evEfficiency'
+  | 'fuelEconomy'
+  | 'distance'
+  | 'money'
+  | 'moneyPerDistance';
+
+interface SensitivityFactor {
+  key: string;
+  label: string;
+  unit: SensitivityUnit;
+  getValue: (inputs: CalculatorInputs) => number;
+  apply: (inputs: CalculatorInputs, scale: number) => CalculatorInputs;
+}
+
+export interface SensitivityBound {
+  value: number; // perturbed input value in canonical units; the effective rate for home electricity
+  gap: number; // annual gap with the input at this value
+}
+
+export interface SensitivityEntry {
+  key: string;
+  label: string;
+  unit: SensitivityUnit;
+  low: SensitivityBound;
+  high: SensitivityBound;
+  swing: number; // |high gap - low gap|
+}
+
+export interface SensitivityResult {
+  baseGap: number;
+  range: number; // ± %
+  entries: SensitivityEntry[]; // largest swing first
+}
+
+const scaleRates = (rates: TouRates, scale: number): TouRates => ({
+  peak: rates.peak * scale,
+  offPeak: rates.offPeak * scale,
+  superOffPeak: rates.superOffPeak * scale,
+});
+
+const scaleOwnership = (
+  costs: OwnershipCosts,
+  field: OwnershipCostField,
+  scale: number
+): OwnershipCosts => ({ ...costs, [field]: costs[field] * scale });
+
+/**
+ * Inputs the gap is tested against. Home electricity scales every home rate plan so
+ * the factor works for flat, TOU and tiered plans alike, and gas price scales every fuel.
+ */
+const SENSITIVITY_FACTORS: SensitivityFactor[] = [
+  {
+    key: 'homeElectricity',
+    label: 'Home electricity rate',
+    unit: 'electricityPrice',
+    getValue: (inputs) => resolveHomeElectricityPrice(inputs),
+    apply: (inputs, scale) => ({
+      ...inputs,
+      homeElectricityPrice: inputs.homeElectricityPrice * scale,
+      touTariff: {
+        ...inputs.touTariff,
+        summerRates: scaleRates(inputs.touTariff.summerRates, scale),
+        winterRates: scaleRates(inputs.touTariff.winterRates, scale),
+      },
+      tieredTariff: {
+        ...inputs.tieredTariff,
+        tiers: inputs.tieredTariff.tiers.map((tier) => ({ ...tier, rate: tier.rate * scale })),
+      },
+    }),
+  },
+  {
+    key: 'fastCharging',
+    label: 'Fast charging price',
+    unit: 'electricityPrice',
+    getValue: (inputs) => resolveFastChargingPrice(inputs),
+    apply: (inputs, scale) => ({
+      ...inputs,
+      fastChargingPrice: inputs.fastChargingPrice * scale,
+      fastChargingTariff: {
+        ...inputs.fastChargingTariff,
+        powerTiers: inputs.fastChargingTariff.powerTiers.map((tier) => ({
+          ...tier,
+          rate: tier.rate * scale,
+        })),
+        sessionFee: inputs.fastChargingTariff.sessionFee * scale,
+        idleFee: inputs.fastChargingTariff.idleFee * scale,
+      },
+    }),
+  },
+  {
+    key: 'publicCharging',
+    label: 'Public Level 2 price',
+    unit: 'electricityPrice',
+    getValue: (inputs) => inputs.publicChargingPrice,
+    apply: (inputs, scale) => ({
+      ...inputs,
+      publicChargingPrice: inputs.publicChargingPrice * scale,
+    }),
+  },
+  {
+    key: 'gasPrice',
+    label: 'Gas price',
+    unit: 'fuelPrice',
+    getValue: (inputs) => inputs.regularGasPrice,
+    apply: (inputs, scale) => ({
+      ...inputs,
+      regularGasPrice: inputs.regularGasPrice * scale,
+      midgradeGasPrice: inputs.midgradeGasPrice * scale,
+      premiumGasPrice: inputs.premiumGasPrice * scale,
+      dieselPrice: inputs.dieselPrice * scale,
+      e85Price: inputs.e85Price * scale,
+    }),
+  },
+  {
+    key: 'evEfficiency',
+    label: 'EV efficiency',
+    unit: 'evEfficiency',
+    getValue: (inputs) => inputs.evEfficiency,
+    apply: (inputs, scale) => ({ ...inputs, evEfficiency: inputs.evEfficiency * scale }),
+  },
+  {
+    key: 'gasEfficiency',
+    label: 'Gas fuel economy',
+    unit: 'fuelEconomy',
+    getValue: (inputs) => inputs.gasEfficiency,
+    apply: (inputs, scale) => ({
+      ...inputs,
+      gasEfficiency: inputs.gasEfficiency * scale,
+      e85Efficiency: inputs.e85Efficiency * scale,
+    }),
+  },
+  {
+    key: 'distance',
+    label: 'Daily distance',
+    unit: 'distance',
+    getValue: (inputs) => inputs.baseDistance,
+    apply: (inputs, scale) => ({ ...inputs, baseDistance: inputs.baseDistance * scale }),
+  },
+  {
+    key: 'evPurchasePrice',
+    label: 'EV purchase price',
+    unit: 'money',
+    getValue: (inputs) => inputs.evOwnership.purchasePrice,
+    apply: (inputs, scale) => ({
+      ...inputs,
+      evOwnership: scaleOwnership(inputs.evOwnership, 'purchasePrice', scale),
+    }),
+  },
+  {
+    key: 'gasPurchasePrice',
+    label: 'Gas car purchase price',
+    unit: 'money',
+    getValue: (inputs) => inputs.gasOwnership.purchasePrice,
+    apply: (inputs, scale) => ({
+      ...inputs,
+      gasOwnership: scaleOwnership(inputs.gasOwnership, 'purchasePrice', scale),
+    }),
+  },
+  {
+    key: 'evMaintenance',
+    label: 'EV maintenance',
+    unit: 'moneyPerDistance',
+    getValue: (inputs) => inputs.evOwnership.maintenance,
+    apply: (inputs, scale) => ({
+      ...inputs,
+      evOwnership: scaleOwnership(inputs.evOwnership, 'maintenance', scale),
+    }),
+  },
+  {
+    key: 'gasMaintenance',
+    label: 'Gas car maintenance',
+    unit: 'moneyPerDistance',
+    getValue: (inputs) => inputs.gasOwnership.maintenance,
+    apply: (inputs, scale) => ({
+      ...inputs,
+      gasOwnership: scaleOwnership(inputs.gasOwnership, 'maintenance', scale),
+    }),
+  },
+];
+
+/**
+ * Yearly cost of the baseline option minus the EV option, as in the hero "Gap vs" figure.
+ * Positive means the EV is cheaper.
+ */
+export function calculateAnnualGap(
+  calculatorInputs: CalculatorInputs,
+  evKey: CostOptionKey,
+  baselineKey: CostOptionKey
+): number | null {
+  const inputs = applyIncentives(applyClimateAdjustment(calculatorInputs));
+  const yearly = calculateScenario(inputs, inputs.baseDistance * 365, 365, getCostOptions(inputs));
+  const ev = yearly.options[evKey];
+  const baseline = yearly.options[baselineKey];
+  return ev && baseline ? baseline.totalCost - ev.totalCost : null;
+}
+
+/**
+ * Move each input down and up by ± range % on its own and measure the annual gap,
+ * ranked by how far the gap swings. Inputs that do not move the gap are left out.
+ */
+export function calculateSensitivity(
+  inputs: CalculatorInputs,
+  evKey: CostOptionKey,
+  baselineKey: CostOptionKey,
+  range: number = DEFAULT_SENSITIVITY_RANGE
+): SensitivityResult | null {
+  const baseGap = calculateAnnualGap(inputs, evKey, baselineKey);
+  if (baseGap === null) return null;
+
+  const entries = SENSITIVITY_FACTORS.map((factor): SensitivityEntry => {
+    const getBound = (scale: number): SensitivityBound => {
+      const perturbed = factor.apply(inputs, scale);
+      return {
+        value: factor.getValue(perturbed),
+        gap: calculateAnnualGap(perturbed, evKey, baselineKey) ?? baseGap,
+      };
+    };
+    const low = getBound(1 - range / 100);
+    const high = getBound(1 + range / 100);
+    return {
+      key: factor.key,
+      label: factor.label,
+      unit: factor.unit,
+      low,
+      high,
+      swing: Math.abs(high.gap - low.gap),
+    };
+  })
+    .filter((entry) => entry.swing > 0.005)
+    .sort((a, b) => b.swing - a.swing);
+
+  return { baseGap, range, entries };
+}
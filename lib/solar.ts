@@ -0,0 +1,183 @@
+import { CalculatorInputs, SolarExportMode, SolarSettings } from '@/types';
+import {
+  HomeChargingLoad,
+  calculateDailyHomeChargingKwh,
+  getPrimaryHomeChargingLoad,
+} from './charging';
+import { DAYS_PER_MONTH, DEFAULT_CLIMATE_REGION } from './climate';
+import { resolveHomeElectricityPrice } from './tariffs';
+
+export interface SolarMonth {
+  month: number; // 1-12
+  production: number; // kWh
+  surplus: number; // kWh left after the rest of the home
+  evKwh: number; // kWh of home charging
+  solarToEv: number; // kWh of home charging covered by solar
+}
+
+export interface SolarChargingResult {
+  months: SolarMonth[];
+  annualProduction: number; // kWh
+  annualEvKwh: number; // kWh
+  solarShare: number; // share of home charging kWh from solar, 0-1
+  gridRate: number; // $/kWh from the home rate plan
+  solarRate: number; // $/kWh given up by charging from solar instead of exporting
+  effectiveRate: number; // $/kWh blended home charging price
+}
+
+type SolarInputs = Pick<
+  CalculatorInputs,
+  | 'solar'
+  | 'climateRegion'
+  | 'homeElectricityPrice'
+  | 'homeRatePlan'
+  | 'touTariff'
+  | 'tieredTariff'
+  | 'baseDistance'
+  | 'evEfficiency'
+  | 'chargingMix'
+  | 'homeChargerLevel'
+  | 'chargingLosses'
+>;
+
+export const DEFAULT_SOLAR_SETTINGS: SolarSettings = {
+  enabled: false,
+  systemSizeKw: 7,
+  householdSelfUse: 50,
+  chargingOverlap: 25,
+  exportMode: 'netBilling',
+  exportRate: 0.05,
+};
+
+export const SOLAR_EXPORT_MODE_LABELS: Record<SolarExportMode, string> = {
+  netMetering: 'Net metering',
+  netBilling: 'Export rate',
+};
+
+/**
+ * Monthly production per kW of panels (kWh/kW), January first, for a south-facing fixed
+ * array. These are rounded regional profiles by latitude band and sunshine, not
+ * per-state measurements, so neighbouring states often share the same row.
+ */
+export const SOLAR_YIELDS: Record<string, number[]> = {
+  US: [72, 86, 113, 128, 144, 148, 149, 139, 123, 105, 77, 66],
+  AL: [85, 93, 117, 126, 135, 132, 131, 128, 118, 110, 92, 82],
+  AK: [5, 23, 68, 108, 135, 140, 135, 108, 72, 41, 14, 3],
+  AZ: [110, 121, 151, 164, 175, 171, 169, 166, 153, 143, 119, 107],
+  AR: [72, 86, 113, 128, 144, 148, 149, 139, 123, 105, 77, 66],
+  CA: [85, 101, 134, 152, 170, 175, 177, 165, 146, 124, 92, 79],
+  CO: [82, 98, 130, 147, 165, 170, 171, 160, 141, 120, 89, 76],
+  CT: [64, 76, 101, 114, 128, 131, 133, 124, 109, 93, 69, 59],
+  DE: [66, 79, 105, 119, 133, 137, 138, 129, 114, 97, 72, 61],
+  DC: [66, 79, 105, 119, 133, 137, 138, 129, 114, 97, 72, 61],
+  FL: [88, 97, 121, 131, 140, 137, 135, 133, 123, 114, 96, 86],
+  GA: [88, 97, 121, 131, 140, 137, 135, 133, 123, 114, 96, 86],
+  HI: [109, 112, 127, 130, 136, 134, 139, 140, 133, 124, 112, 106],
+  ID: [59, 80, 117, 140, 164, 170, 174, 158, 129, 97, 63, 50],
+  IL: [66, 79, 105, 119, 133, 137, 138, 129, 114, 97, 72, 61],
+  IN: [66, 79, 105, 119, 133, 137, 138, 129, 114, 97, 72, 61],
+  IA: [69, 82, 109, 124, 138, 142, 144, 134, 118, 101, 74, 64],
+  KS: [77, 92, 122, 138, 154, 159, 160, 150, 132, 113, 83, 71],
+  KY: [66, 79, 105, 119, 133, 137, 138, 129, 114, 97, 72, 61],
+  LA: [85, 93, 117, 126, 135, 132, 131, 128, 118, 110, 92, 82],
+  ME: [50, 69, 100, 120, 140, 145, 149, 135, 110, 83, 54, 43],
+  MD: [66, 79, 105, 119, 133, 137, 138, 129, 114, 97, 72, 61],
+  MA: [64, 76, 101, 114, 128, 131, 133, 124, 109, 93, 69, 59],
+  MI: [48, 66, 96, 115, 135, 139, 143, 130, 106, 79, 52, 41],
+  MN: [52, 72, 104, 125, 146, 152, 155, 141, 115, 86, 56, 44],
+  MS: [85, 93, 117, 126, 135, 132, 131, 128, 118, 110, 92, 82],
+  MO: [69, 82, 109, 124, 138, 142, 144, 134, 118, 101, 74, 64],
+  MT: [54, 75, 109, 130, 152, 158, 162, 147, 120, 90, 58, 46],
+  NE: [74, 89, 117, 133, 149, 153, 155, 145, 127, 109, 80, 69],
+  NV: [90, 108, 143, 162, 181, 186, 188, 176, 155, 132, 97, 83],
+  NH: [50, 69, 100, 120, 140, 145, 149, 135, 110, 83, 54, 43],
+  NJ: [66, 79, 105, 119, 133, 137, 138, 129, 114, 97, 72, 61],
+  NM: [110, 121, 151, 164, 175, 171, 169, 166, 153, 143, 119, 107],
+  NY: [48, 66, 96, 115, 135, 139, 143, 130, 106, 79, 52, 41],
+  NC: [72, 86, 113, 128, 144, 148, 149, 139, 123, 105, 77, 66],
+  ND: [54, 75, 109, 130, 152, 158, 162, 147, 120, 90, 58, 46],
+  OH: [61, 73, 96, 109, 122, 126, 127, 119, 105, 89, 66, 56],
+  OK: [77, 92, 122, 138, 154, 159, 160, 150, 132, 113, 83, 71],
+  OR: [52, 72, 104, 125, 146, 152, 155, 141, 115, 86, 56, 44],
+  PA: [64, 76, 101, 114, 128, 131, 133, 124, 109, 93, 69, 59],
+  RI: [64, 76, 101, 114, 128, 131, 133, 124, 109, 93, 69, 59],
+  SC: [87, 96, 119, 129, 138, 135, 134, 131, 121, 112, 94, 84],
+  SD: [56, 78, 113, 135, 158, 164, 168, 152, 124, 93, 61, 48],
+  TN: [69, 82, 109, 124, 138, 142, 144, 134, 118, 101, 74, 64],
+  TX: [92, 100, 126, 136, 145, 142, 140, 137, 127, 118, 99, 89],
+  UT: [85, 101, 134, 152, 170, 175, 177, 165, 146, 124, 92, 79],
+  VT: [48, 66, 96, 115, 135, 139, 143, 130, 106, 79, 52, 41],
+  VA: [69, 82, 109, 124, 138, 142, 144, 134, 118, 101, 74, 64],
+  WA: [46, 63, 92, 110, 129, 133, 137, 124, 101, 76, 49, 39],
+  WV: [61, 73, 96, 109, 122, 126, 127, 119, 105, 89, 66, 56],
+  WI: [50, 69, 100, 120, 140, 145, 149, 135, 110, 83, 54, 43],
+  WY: [80, 95, 126, 143, 160, 164, 166, 155, 137, 117, 86, 74],
+};
+
+/**
+ * Monthly kWh per kW for the regional profile a state falls in, falling back to the
+ * U.S. average
+ */
+export function getSolarYields(region: string): number[] {
+  return SOLAR_YIELDS[region] ?? SOLAR_YIELDS[DEFAULT_CLIMATE_REGION];
+}
+
+/**
+ * Split home charging between rooftop solar and the grid, month by month. Solar can
+ * cover the charging that overlaps with production, up to what is left after the rest
+ * of the home. Each solar kWh costs what exporting it would have earned: the retail rate
+ * under net metering, so solar only lowers the price under an export rate.
+ */
+export function calculateSolarCharging(
+  inputs: SolarInputs,
+  load: HomeChargingLoad | HomeChargingLoad[] = getPrimaryHomeChargingLoad(inputs)
+): SolarChargingResult {
+  const { systemSizeKw, householdSelfUse, chargingOverlap, exportMode, exportRate } =
+    inputs.solar;
+  const gridRate = resolveHomeElectricityPrice(inputs, load);
+  const solarRate = exportMode === 'netMetering' ? gridRate : Math.max(0, exportRate);
+  const dailyEvKwh = calculateDailyHomeChargingKwh(inputs, load);
+  const yields = getSolarYields(inputs.climateRegion);
+  const surplusShare = 1 - Math.max(0, Math.min(100, householdSelfUse)) / 100;
+  const overlapShare = Math.max(0, Math.min(100, chargingOverlap)) / 100;
+
+  const months = DAYS_PER_MONTH.map((days, index): SolarMonth => {
+    const production = Math.max(0, systemSizeKw) * yields[index];
+    const surplus = production * surplusShare;
+    const evKwh = dailyEvKwh * days;
+    return {
+      month: index + 1,
+      production,
+      surplus,
+      evKwh,
+      solarToEv: Math.min(surplus, evKwh * overlapShare),
+    };
+  });
+
+  const annualProduction = months.reduce((sum, month) => sum + month.production, 0);
+  const annualEvKwh = months.reduce((sum, month) => sum + month.evKwh, 0);
+  const annualSolarToEv = months.reduce((sum, month) => sum + month.solarToEv, 0);
+  const solarShare = annualEvKwh > 0 ? annualSolarToEv / annualEvKwh : 0;
+
+  return {
+    months,
+    annualProduction,
+    annualEvKwh,
+    solarShare,
+    gridRate,
+    solarRate,
+    effectiveRate: solarShare * solarRate + (1 - solarShare) * gridRate,
+  };
+}
+
+/**
+ * Metered $/kWh for home charging: the rate plan's price, blended with solar when on
+ */
+export function resolveHomeChargingPrice(
+  inputs: SolarInputs,
+  load: HomeChargingLoad | HomeChargingLoad[] = getPrimaryHomeChargingLoad(inputs)
+): number {
+  return inputs.solar.enabled
+    ? calculateSolarCharging(inputs, load).effectiveRate
+    : resolveHomeElectricityPrice(inputs, load);
+}
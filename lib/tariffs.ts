@@ -0,0 +1,249 @@
+import {
+  CalculatorInputs,
+  TieredTariff,
+  TouPeriod,
+  TouRates,
+  TouTariff,
+} from '@/types';
+import {
+  HomeChargingLoad,
+  calculateDailyHomeChargingKwh,
+  getPrimaryHomeChargingLoad,
+} from './charging';
+
+export const TOU_PERIODS: TouPeriod[] = ['peak', 'offPeak', 'superOffPeak'];
+
+export type PeriodEnergy = Record<TouPeriod, number>; // kWh
+
+/**
+ * Build a 24-hour schedule from a default period and a list of [start, end) hour ranges
+ */
+export function buildTouSchedule(
+  fallback: TouPeriod,
+  ranges: { start: number; end: number; period: TouPeriod }[]
+): TouPeriod[] {
+  const schedule: TouPeriod[] = Array.from({ length: 24 }, () => fallback);
+  ranges.forEach(({ start, end, period }) => {
+    for (let hour = start; hour < end; hour++) {
+      schedule[hour % 24] = period;
+    }
+  });
+  return schedule;
+}
+
+/**
+ * Typical residential EV TOU plan: super off-peak overnight, peak in the late afternoon
+ * and evening on weekdays, and no peak period on weekends.
+ */
+export const DEFAULT_TOU_TARIFF: TouTariff = {
+  summerRates: { peak: 0.45, offPeak: 0.3, superOffPeak: 0.18 },
+  winterRates: { peak: 0.38, offPeak: 0.28, superOffPeak: 0.17 },
+  summerMonths: [6, 7, 8, 9],
+  weekdaySchedule: buildTouSchedule('offPeak', [
+    { start: 0, end: 6, period: 'superOffPeak' },
+    { start: 16, end: 21, period: 'peak' },
+  ]),
+  weekendSchedule: buildTouSchedule('offPeak', [
+    { start: 0, end: 8, period: 'superOffPeak' },
+  ]),
+  chargingStartHour: 0,
+  chargingEndHour: 6,
+  chargerPowerKw: 7.2,
+};
+
+/**
+ * List the hours covered by a charging window, wrapping past midnight.
+ * A window whose start equals its end covers the full day.
+ */
+export function getChargingWindowHours(startHour: number, endHour: number): number[] {
+  const start = ((Math.floor(startHour) % 24) + 24) % 24;
+  const end = ((Math.floor(endHour) % 24) + 24) % 24;
+  const length = end > start ? end - start : end + 24 - start;
+  return Array.from({ length }, (_, index) => (start + index) % 24);
+}
+
+/**
+ * Distribute a day's charging energy over the TOU periods of a schedule.
+ * Charging starts at the beginning of the window and draws up to the charger's
+ * power each hour. Energy that does not fit in the window keeps charging in the
+ * hours right after it.
+ */
+export function allocateChargingEnergy(
+  dailyKwh: number,
+  schedule: TouPeriod[],
+  tariff: Pick<TouTariff, 'chargingStartHour' | 'chargingEndHour' | 'chargerPowerKw'>
+): PeriodEnergy {
+  const energy: PeriodEnergy = { peak: 0, offPeak: 0, superOffPeak: 0 };
+  if (dailyKwh <= 0) return energy;
+
+  const power = tariff.chargerPowerKw > 0 ? tariff.chargerPowerKw : dailyKwh;
+  const windowHours = getChargingWindowHours(tariff.chargingStartHour, tariff.chargingEndHour);
+  const overflowStart = (windowHours[windowHours.length - 1] + 1) % 24;
+  const overflowHours = Array.from({ length: 24 }, (_, index) => (overflowStart + index) % 24);
+
+  let remaining = dailyKwh;
+  for (const hour of [...windowHours, ...overflowHours]) {
+    if (remaining <= 0) break;
+    const drawn = Math.min(power, remaining);
+    energy[schedule[hour] ?? 'offPeak'] += drawn;
+    remaining -= drawn;
+  }
+
+  // A charger too slow to finish in a full day still has to deliver the energy
+  if (remaining > 0) {
+    energy[schedule[tariff.chargingStartHour] ?? 'offPeak'] += remaining;
+  }
+
+  return energy;
+}
+
+function priceEnergy(energy: PeriodEnergy, rates: TouRates): number {
+  return TOU_PERIODS.reduce((sum, period) => sum + energy[period] * rates[period], 0);
+}
+
+/**
+ * Calculate the average $/kWh paid for home charging on a TOU tariff, weighting
+ * weekdays against weekends and summer months against winter months.
+ */
+export function calculateTouEffectiveRate(tariff: TouTariff, dailyKwh: number): number {
+  if (dailyKwh <= 0) {
+    return tariff.winterRates.offPeak;
+  }
+
+  const weekdayEnergy = allocateChargingEnergy(dailyKwh, tariff.weekdaySchedule, tariff);
+  const weekendEnergy = allocateChargingEnergy(dailyKwh, tariff.weekendSchedule, tariff);
+  const summerShare =
+    new Set(tariff.summerMonths.filter((month) => month >= 1 && month <= 12)).size / 12;
+
+  const costForRates = (rates: TouRates) =>
+    (priceEnergy(weekdayEnergy, rates) * 5 + priceEnergy(weekendEnergy, rates) * 2) / 7;
+
+  const averageDailyCost =
+    costForRates(tariff.summerRates) * summerShare +
+    costForRates(tariff.winterRates) * (1 - summerShare);
+
+  return averageDailyCost / dailyKwh;
+}
+
+/**
+ * Common inclining-block residential plan with a baseline allowance
+ */
+export const DEFAULT_TIERED_TARIFF: TieredTariff = {
+  tiers: [
+    { upToKwh: 500, rate: 0.13 },
+    { upToKwh: 1000, rate: 0.19 },
+    { upToKwh: null, rate: 0.26 },
+  ],
+  householdKwh: 650,
+  fixedMonthlyCharge: 12,
+  evPlanMonthlyFee: 0,
+};
+
+const AVERAGE_DAYS_PER_MONTH = 365 / 12;
+
+/**
+ * Calculate the energy charges for a month of usage on a tiered plan.
+ * Tiers are applied in order; the last tier (or any tier without a ceiling)
+ * covers all remaining usage.
+ */
+export function calculateTieredEnergyCharge(
+  tiers: TieredTariff['tiers'],
+  monthlyKwh: number
+): number {
+  let remaining = Math.max(0, monthlyKwh);
+  let previousCeiling = 0;
+  let charge = 0;
+
+  tiers.forEach((tier, index) => {
+    if (remaining <= 0) return;
+    const isLast = index === tiers.length - 1 || tier.upToKwh === null;
+    const tierSize = isLast
+      ? remaining
+      : Math.max(0, (tier.upToKwh ?? 0) - previousCeiling);
+    const used = Math.min(remaining, tierSize);
+    charge += used * tier.rate;
+    remaining -= used;
+    previousCeiling = tier.upToKwh ?? previousCeiling;
+  });
+
+  return charge;
+}
+
+/**
+ * Calculate the monthly bill on a tiered plan, optionally including the EV plan fee
+ */
+export function calculateTieredMonthlyBill(
+  tariff: TieredTariff,
+  monthlyKwh: number,
+  includeEvPlanFee = false
+): number {
+  return (
+    calculateTieredEnergyCharge(tariff.tiers, monthlyKwh) +
+    tariff.fixedMonthlyCharge +
+    (includeEvPlanFee ? tariff.evPlanMonthlyFee : 0)
+  );
+}
+
+/**
+ * Calculate the marginal $/kWh of EV charging on top of existing household usage.
+ * The fixed monthly charge is paid with or without the EV, so only the EV plan fee
+ * and the higher tiers the EV pushes the household into count against it.
+ */
+export function calculateTieredMarginalRate(tariff: TieredTariff, evMonthlyKwh: number): number {
+  const household = Math.max(0, tariff.householdKwh);
+  if (evMonthlyKwh <= 0) {
+    // Price of the next kWh above current household usage
+    const nextKwh = calculateTieredEnergyCharge(tariff.tiers, household + 1);
+    return nextKwh - calculateTieredEnergyCharge(tariff.tiers, household);
+  }
+
+  const withoutEv = calculateTieredMonthlyBill(tariff, household);
+  const withEv = calculateTieredMonthlyBill(tariff, household + evMonthlyKwh, true);
+  return (withEv - withoutEv) / evMonthlyKwh;
+}
+
+/**
+ * Calculate metered EV charging energy per month at the base daily distance
+ */
+export function calculateMonthlyChargingKwh(
+  inputs: Pick<
+    CalculatorInputs,
+    'baseDistance' | 'evEfficiency' | 'chargingMix' | 'homeChargerLevel' | 'chargingLosses'
+  >,
+  load: HomeChargingLoad | HomeChargingLoad[] = getPrimaryHomeChargingLoad(inputs)
+): number {
+  return calculateDailyHomeChargingKwh(inputs, load) * AVERAGE_DAYS_PER_MONTH;
+}
+
+/**
+ * Resolve the metered $/kWh that home charging actually costs under the selected rate
+ * plan. TOU and tiered rates depend on how much is charged at home, so they take the
+ * load of the vehicle being priced, or of every vehicle sharing the meter, defaulting
+ * to the primary EV on the charging mix.
+ */
+export function resolveHomeElectricityPrice(
+  inputs: Pick<
+    CalculatorInputs,
+    | 'homeElectricityPrice'
+    | 'homeRatePlan'
+    | 'touTariff'
+    | 'tieredTariff'
+    | 'baseDistance'
+    | 'evEfficiency'
+    | 'chargingMix'
+    | 'homeChargerLevel'
+    | 'chargingLosses'
+  >,
+  load: HomeChargingLoad | HomeChargingLoad[] = getPrimaryHomeChargingLoad(inputs)
+): number {
+  if (inputs.homeRatePlan === 'tou') {
+    return calculateTouEffectiveRate(inputs.touTariff, calculateDailyHomeChargingKwh(inputs, load));
+  }
+  if (inputs.homeRatePlan === 'tiered') {
+    return calculateTieredMarginalRate(
+      inputs.tieredTariff,
+      calculateMonthlyChargingKwh(inputs, load)
+    );
+  }
+  return inputs.homeElectricityPrice;
+}
@@ -0,0 +1,205 @@
+import {
+  CalculatorInputs,
+  CostOption,
+  CostOptionKey,
+  CostPercentiles,
+  ScenarioResult,
+  UncertaintyDistribution,
+  UncertaintyResult,
+  UncertaintySettings,
+} from '@/types';
+
+export const UNCERTAINTY_SAMPLES = 5000;
+export const MAX_UNCERTAINTY_RANGE = 90;
+
+// Fixed seed so the same inputs always give the same bands
+const UNCERTAINTY_SEED = 0x5eed;
+// Sampled factors never drop below this share of the entered value
+const MIN_SAMPLE_FACTOR = 0.05;
+
+export const DEFAULT_UNCERTAINTY_SETTINGS: UncertaintySettings = {
+  enabled: false,
+  distribution: 'triangular',
+  gasPriceRange: 20,
+  electricityPriceRange: 15,
+  efficiencyRange: 10,
+  distanceRange: 15,
+  evOption: 'evMix',
+};
+
+export const UNCERTAINTY_DISTRIBUTION_LABELS: Record<UncertaintyDistribution, string> = {
+  uniform: 'Uniform',
+  triangular: 'Triangular',
+  normal: 'Normal',
+};
+
+/**
+ * Clamp every range to 0-90% so sampled values stay positive
+ */
+export function normalizeUncertaintySettings(settings: UncertaintySettings): UncertaintySettings {
+  const clampRange = (value: number) => Math.max(0, Math.min(MAX_UNCERTAINTY_RANGE, value));
+  return {
+    ...settings,
+    gasPriceRange: clampRange(settings.gasPriceRange),
+    electricityPriceRange: clampRange(settings.electricityPriceRange),
+    efficiencyRange: clampRange(settings.efficiencyRange),
+    distanceRange: clampRange(settings.distanceRange),
+  };
+}
+
+/**
+ * Inputs with every liquid fuel price zeroed, leaving only the electricity share of
+ * each option's energy cost
+ */
+export function withoutFuelPrices<T extends CalculatorInputs>(inputs: T): T {
+  return {
+    ...inputs,
+    regularGasPrice: 0,
+    midgradeGasPrice: 0,
+    premiumGasPrice: 0,
+    dieselPrice: 0,
+    e85Price: 0,
+  };
+}
+
+/**
+ * EV option the cheaper-than-gas probability is computed for. Keys for removed extra
+ * vehicles fall back to the primary EV on the charging mix.
+ */
+export function resolveUncertaintyEvOption(
+  options: CostOption[],
+  key: CostOptionKey
+): CostOption | undefined {
+  const evOptions = options.filter((option) => option.vehicle.kind === 'ev');
+  return (
+    evOptions.find((option) => option.key === key) ??
+    evOptions.find((option) => option.key === 'evMix') ??
+    evOptions[0]
+  );
+}
+
+/**
+ * Seeded mulberry32 generator returning values in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Multiplier around 1 for a ± % range. Uniform and triangular stay inside the range;
+ * for normal the range is two standard deviations, so about 95% of samples fall inside.
+ */
+function sampleFactor(
+  random: () => number,
+  rangePercent: number,
+  distribution: UncertaintyDistribution
+): number {
+  const spread = rangePercent / 100;
+  let offset: number;
+  switch (distribution) {
+    case 'uniform':
+      offset = 2 * random() - 1;
+      break;
+    case 'triangular':
+      offset = random() + random() - 1;
+      break;
+    case 'normal':
+      offset =
+        (Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())) / 2;
+      break;
+  }
+  return Math.max(MIN_SAMPLE_FACTOR, 1 + spread * offset);
+}
+
+/**
+ * Linear-interpolated percentile of an ascending list, p in 0-1
+ */
+function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Sample yearly cost for every option with fuel prices, electricity prices, efficiencies
+ * and distance drawn independently from their ranges. Energy costs are split into their
+ * electric and liquid-fuel parts so each scales with its own price and efficiency;
+ * maintenance scales with distance and other ownership costs stay fixed.
+ * The EV is cheaper in a sample when the chosen EV option beats the best gas option.
+ */
+export function calculateUncertainty(
+  yearly: ScenarioResult,
+  electricOnly: ScenarioResult,
+  options: CostOption[],
+  settings: UncertaintySettings,
+  samples = UNCERTAINTY_SAMPLES
+): UncertaintyResult {
+  const { distribution, gasPriceRange, electricityPriceRange, efficiencyRange, distanceRange } =
+    normalizeUncertaintySettings(settings);
+  const random = createRandom(UNCERTAINTY_SEED);
+
+  const components = options.map((option) => {
+    const breakdown = yearly.options[option.key];
+    const electricPerMile = electricOnly.options[option.key].fuelCostPerMile;
+    return {
+      option,
+      electricPerMile,
+      fuelPerMile: breakdown.fuelCostPerMile - electricPerMile,
+      maintenancePerMile: yearly.distance > 0 ? breakdown.maintenanceCost / yearly.distance : 0,
+      fixed: breakdown.totalCost - breakdown.fuelCost - breakdown.maintenanceCost,
+    };
+  });
+  const evOption = resolveUncertaintyEvOption(options, settings.evOption);
+  const hasGas = options.some((option) => option.vehicle.kind === 'gas');
+
+  const totals = options.map(() => new Array<number>(samples));
+  let evCheaperCount = 0;
+
+  for (let sample = 0; sample < samples; sample++) {
+    const fuelPrice = sampleFactor(random, gasPriceRange, distribution);
+    const electricityPrice = sampleFactor(random, electricityPriceRange, distribution);
+    const evEfficiency = sampleFactor(random, efficiencyRange, distribution);
+    const gasEfficiency = sampleFactor(random, efficiencyRange, distribution);
+    const distance = yearly.distance * sampleFactor(random, distanceRange, distribution);
+
+    let evTotal = Infinity;
+    let bestGas = Infinity;
+    components.forEach((component, index) => {
+      const energyPerMile =
+        (component.electricPerMile * electricityPrice) / evEfficiency +
+        (component.fuelPerMile * fuelPrice) / gasEfficiency;
+      const total = distance * (energyPerMile + component.maintenancePerMile) + component.fixed;
+      totals[index][sample] = total;
+      if (component.option === evOption) evTotal = total;
+      if (component.option.vehicle.kind === 'gas') bestGas = Math.min(bestGas, total);
+    });
+    if (evTotal < bestGas) evCheaperCount++;
+  }
+
+  return {
+    samples,
+    options: Object.fromEntries(
+      options.map((option, index): [string, CostPercentiles] => {
+        const sorted = totals[index].sort((a, b) => a - b);
+        return [
+          option.key,
+          {
+            p10: percentile(sorted, 0.1),
+            p50: percentile(sorted, 0.5),
+            p90: percentile(sorted, 0.9),
+          },
+        ];
+      })
+    ),
+    evCheaperProbability: evOption && hasGas ? evCheaperCount / samples : null,
+  };
+}
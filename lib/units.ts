@@ -0,0 +1,214 @@
+import { CalculatorInputs, CurrencyCode, UnitSystem } from '@/types';
+import { formatCurrency } from './calculations';
+
+export type DisplaySettings = Pick<CalculatorInputs, 'unitSystem' | 'currency'>;
+
+export const KM_PER_MILE = 1.609344;
+export const LITRES_PER_GALLON = 3.785411784;
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'imperial';
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  imperial: 'mi · gal',
+  metric: 'km · L',
+};
+
+export const CURRENCY_CODES: CurrencyCode[] = ['USD', 'CAD', 'EUR', 'GBP', 'AUD', 'NZD', 'CHF'];
+
+const MINOR_UNIT_SYMBOLS: Record<CurrencyCode, string> = {
+  USD: '¢',
+  CAD: '¢',
+  EUR: 'c',
+  GBP: 'p',
+  AUD: '¢',
+  NZD: '¢',
+  CHF: 'Rp',
+};
+
+export interface UnitLabels {
+  distance: string;
+  fuelEconomy: string;
+  evEfficiency: string;
+  volume: string;
+  temperature: string;
+}
+
+export const UNIT_LABELS: Record<UnitSystem, UnitLabels> = {
+  imperial: {
+    distance: 'mi',
+    fuelEconomy: 'mpg',
+    evEfficiency: 'mi/kWh',
+    volume: 'gal',
+    temperature: '°F',
+  },
+  metric: {
+    distance: 'km',
+    fuelEconomy: 'L/100km',
+    evEfficiency: 'kWh/100km',
+    volume: 'L',
+    temperature: '°C',
+  },
+};
+
+// Calculations always run on miles, gallons, mpg and mi/kWh. These helpers convert
+// canonical values to the selected unit system for display, and user input back.
+
+export function toDisplayDistance(miles: number, system: UnitSystem): number {
+  return system === 'metric' ? miles * KM_PER_MILE : miles;
+}
+
+export function fromDisplayDistance(value: number, system: UnitSystem): number {
+  return system === 'metric' ? value / KM_PER_MILE : value;
+}
+
+/**
+ * mpg ↔ L/100km. The conversion is its own inverse, and zero stays zero.
+ */
+export function toDisplayFuelEconomy(mpg: number, system: UnitSystem): number {
+  if (system === 'imperial') return mpg;
+  return mpg > 0 ? (100 * LITRES_PER_GALLON) / (KM_PER_MILE * mpg) : 0;
+}
+
+export function fromDisplayFuelEconomy(value: number, system: UnitSystem): number {
+  return toDisplayFuelEconomy(value, system);
+}
+
+/**
+ * mi/kWh ↔ kWh/100km. Like fuel economy, the conversion is its own inverse.
+ */
+export function toDisplayEvEfficiency(milesPerKwh: number, system: UnitSystem): number {
+  if (system === 'imperial') return milesPerKwh;
+  return milesPerKwh > 0 ? 100 / (milesPerKwh * KM_PER_MILE) : 0;
+}
+
+export function fromDisplayEvEfficiency(value: number, system: UnitSystem): number {
+  return toDisplayEvEfficiency(value, system);
+}
+
+export function toDisplayVolume(gallons: number, system: UnitSystem): number {
+  return system === 'metric' ? gallons * LITRES_PER_GALLON : gallons;
+}
+
+export function fromDisplayVolume(value: number, system: UnitSystem): number {
+  return system === 'metric' ? value / LITRES_PER_GALLON : value;
+}
+
+export function toDisplayFuelPrice(pricePerGallon: number, system: UnitSystem): number {
+  return system === 'metric' ? pricePerGallon / LITRES_PER_GALLON : pricePerGallon;
+}
+
+export function fromDisplayFuelPrice(value: number, system: UnitSystem): number {
+  return system === 'metric' ? value * LITRES_PER_GALLON : value;
+}
+
+/**
+ * Convert a per-mile amount (cost, maintenance) to per-kilometre and back
+ */
+export function toDisplayPerDistance(perMile: number, system: UnitSystem): number {
+  return system === 'metric' ? perMile / KM_PER_MILE : perMile;
+}
+
+export function fromDisplayPerDistance(value: number, system: UnitSystem): number {
+  return system === 'metric' ? value * KM_PER_MILE : value;
+}
+
+export function toDisplayTemperature(fahrenheit: number, system: UnitSystem): number {
+  return system === 'metric' ? ((fahrenheit - 32) * 5) / 9 : fahrenheit;
+}
+
+/**
+ * Round a converted value for an input field so edits round-trip cleanly
+ */
+export function roundForInput(value: number, decimals = 2): number {
+  return Number(value.toFixed(decimals));
+}
+
+/**
+ * Currency symbol as it appears in formatted amounts, e.g. "$", "CA$", "€"
+ */
+export function getCurrencySymbol(currency: CurrencyCode): string {
+  const part = new Intl.NumberFormat('en-US', { style: 'currency', currency })
+    .formatToParts(0)
+    .find((item) => item.type === 'currency');
+  return part?.value ?? currency;
+}
+
+/**
+ * Compact currency for chart axes, e.g. "$12k"
+ */
+export function formatAxisMoney(value: number, currency: CurrencyCode): string {
+  const symbol = getCurrencySymbol(currency);
+  const sign = value < 0 ? '-' : '';
+  const abs = Math.abs(value);
+  return abs >= 1000
+    ? `${sign}${symbol}${(abs / 1000).toFixed(0)}k`
+    : `${sign}${symbol}${abs.toFixed(0)}`;
+}
+
+export function formatDistance(miles: number, system: UnitSystem, decimals = 0): string {
+  return `${toDisplayDistance(miles, system).toLocaleString('en-US', {
+    maximumFractionDigits: decimals,
+  })} ${UNIT_LABELS[system].distance}`;
+}
+
+export function formatFuelEconomy(mpg: number, system: UnitSystem, decimals = 1): string {
+  return `${toDisplayFuelEconomy(mpg, system).toFixed(decimals)} ${UNIT_LABELS[system].fuelEconomy}`;
+}
+
+export function formatEvEfficiency(
+  milesPerKwh: number,
+  system: UnitSystem,
+  decimals = system === 'metric' ? 1 : 2
+): string {
+  return `${toDisplayEvEfficiency(milesPerKwh, system).toFixed(decimals)} ${UNIT_LABELS[system].evEfficiency}`;
+}
+
+/**
+ * Unit label for an energy price, e.g. "$/kWh" or "€/L"
+ */
+export function formatPriceUnit(currency: CurrencyCode, unit: string): string {
+  return `${getCurrencySymbol(currency)}/${unit}`;
+}
+
+/**
+ * Pump price per gallon or litre, e.g. "$3.50/gal" or "€1.79/L"
+ */
+export function formatFuelPrice(pricePerGallon: number, settings: DisplaySettings): string {
+  if (!Number.isFinite(pricePerGallon)) return '—';
+  return `${formatCurrency(
+    toDisplayFuelPrice(pricePerGallon, settings.unitSystem),
+    settings.currency
+  )}/${UNIT_LABELS[settings.unitSystem].volume}`;
+}
+
+/**
+ * Cost per mile or kilometre, e.g. "$0.1234/mi"
+ */
+export function formatCostPerDistance(
+  costPerMile: number,
+  settings: DisplaySettings,
+  fractionDigits = 4
+): string {
+  return `${formatCurrency(
+    toDisplayPerDistance(costPerMile, settings.unitSystem),
+    settings.currency,
+    fractionDigits
+  )}/${UNIT_LABELS[settings.unitSystem].distance}`;
+}
+
+/**
+ * Cost per mile or kilometre in cents below one unit of currency, e.g. "4.2¢/mi"
+ */
+export function formatCompactCostPerDistance(
+  costPerMile: number,
+  settings: DisplaySettings
+): string {
+  if (!Number.isFinite(costPerMile)) return '—';
+  const value = toDisplayPerDistance(costPerMile, settings.unitSystem);
+  const unit = UNIT_LABELS[settings.unitSystem].distance;
+  if (Math.abs(value) >= 1) {
+    return `${formatCurrency(value, settings.currency)}/${unit}`;
+  }
+  return `${(value * 100).toFixed(1)}${MINOR_UNIT_SYMBOLS[settings.currency]}/${unit}`;
+}
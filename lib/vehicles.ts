@@ -0,0 +1,234 @@
+import {
+  CalculatorInputs,
+  CostOption,
+  EnergySource,
+  GasFuelOptionKey,
+  OwnershipCosts,
+  VehicleAging,
+  VehicleConfig,
+  VehicleKind,
+} from '@/types';
+import { GAS_FUEL_LABELS, GAS_VEHICLE_FUEL_OPTIONS, getGasFuelEfficiency } from './fuels';
+import { resolvePhevElectricShare } from './phev';
+
+type VehicleInputs = Pick<
+  CalculatorInputs,
+  | 'evEfficiency'
+  | 'gasEfficiency'
+  | 'gasVehicleFuel'
+  | 'e85Efficiency'
+  | 'phev'
+  | 'evOwnership'
+  | 'gasOwnership'
+  | 'phevOwnership'
+  | 'evAging'
+  | 'gasAging'
+  | 'phevAging'
+  | 'extraVehicles'
+  | 'incentives'
+>;
+
+export const MAX_EXTRA_VEHICLES = 6;
+
+export const PRIMARY_VEHICLE_IDS = {
+  ev: 'ev',
+  gas: 'gas',
+  phev: 'phev',
+} as const;
+
+const PRIMARY_OPTION_LABELS: Record<EnergySource, string> = {
+  evHome: 'EV (Home)',
+  evFast: 'EV (Fast)',
+  evMix: 'EV (Your mix)',
+  phev: 'Plug-in hybrid',
+  gasRegular: 'Gas (Regular)',
+  gasMidgrade: 'Gas (Midgrade)',
+  gasPremium: 'Gas (Premium)',
+  diesel: 'Diesel',
+  e85: 'E85',
+};
+
+export const ENERGY_SOURCE_LABELS: Record<EnergySource, string> = {
+  evHome: 'Home',
+  evFast: 'Fast',
+  evMix: 'Your mix',
+  phev: 'Blended',
+  ...GAS_FUEL_LABELS,
+};
+
+const VEHICLE_KIND_ORDER: VehicleKind[] = ['ev', 'phev', 'gas'];
+
+const ELECTRIC_ENERGY_SOURCES: EnergySource[] = ['evHome', 'evFast', 'evMix'];
+
+export function isPrimaryVehicle(vehicle: Pick<VehicleConfig, 'id'>): boolean {
+  return Object.values(PRIMARY_VEHICLE_IDS).includes(
+    vehicle.id as (typeof PRIMARY_VEHICLE_IDS)[keyof typeof PRIMARY_VEHICLE_IDS]
+  );
+}
+
+/**
+ * Every vehicle being compared: the primary EV and gas car, the PHEV when enabled,
+ * and any extra candidates, grouped by powertrain
+ */
+export function getVehicleConfigs(inputs: VehicleInputs): VehicleConfig[] {
+  const primary: VehicleConfig[] = [
+    {
+      id: PRIMARY_VEHICLE_IDS.ev,
+      name: 'EV',
+      kind: 'ev',
+      efficiency: inputs.evEfficiency,
+      gasVehicleFuel: 'gasoline',
+      e85Efficiency: 0,
+      model: inputs.incentives.vehicle,
+      ownership: inputs.evOwnership,
+      aging: inputs.evAging,
+    },
+    {
+      id: PRIMARY_VEHICLE_IDS.gas,
+      name: 'Gas',
+      kind: 'gas',
+      efficiency: inputs.gasEfficiency,
+      gasVehicleFuel: inputs.gasVehicleFuel,
+      e85Efficiency: inputs.e85Efficiency,
+      ownership: inputs.gasOwnership,
+      aging: inputs.gasAging,
+    },
+  ];
+  if (inputs.phev.enabled) {
+    primary.push({
+      id: PRIMARY_VEHICLE_IDS.phev,
+      name: 'Plug-in hybrid',
+      kind: 'phev',
+      efficiency: inputs.phev.gasEfficiency,
+      gasVehicleFuel: 'gasoline',
+      e85Efficiency: 0,
+      phev: inputs.phev,
+      model: inputs.phev.vehicle,
+      ownership: inputs.phevOwnership,
+      aging: inputs.phevAging,
+    });
+  }
+
+  const vehicles = [...primary, ...inputs.extraVehicles];
+  return VEHICLE_KIND_ORDER.flatMap((kind) =>
+    vehicles.filter((vehicle) => vehicle.kind === kind)
+  );
+}
+
+/**
+ * Energy sources a vehicle can be priced with, in display order
+ */
+export function getVehicleEnergySources(vehicle: VehicleConfig): EnergySource[] {
+  if (vehicle.kind === 'ev') return ELECTRIC_ENERGY_SOURCES;
+  if (vehicle.kind === 'phev') return ['phev'];
+  return GAS_VEHICLE_FUEL_OPTIONS[vehicle.gasVehicleFuel];
+}
+
+/**
+ * Fuel economy in mpg for a gas vehicle burning the given fuel
+ */
+export function getVehicleFuelEfficiency(vehicle: VehicleConfig, key: GasFuelOptionKey): number {
+  return getGasFuelEfficiency(
+    { gasEfficiency: vehicle.efficiency, e85Efficiency: vehicle.e85Efficiency },
+    key
+  );
+}
+
+/**
+ * Expand the vehicle list into one cost option per vehicle and energy source
+ */
+export function getCostOptions(inputs: VehicleInputs): CostOption[] {
+  return getVehicleConfigs(inputs).flatMap((vehicle) => {
+    const primary = isPrimaryVehicle(vehicle);
+    return getVehicleEnergySources(vehicle).map((energy) => ({
+      key: primary ? energy : `${vehicle.id}:${energy}`,
+      label: primary
+        ? PRIMARY_OPTION_LABELS[energy]
+        : `${vehicle.name} (${ENERGY_SOURCE_LABELS[energy]})`,
+      vehicle,
+      energy,
+      electricShare:
+        vehicle.kind === 'ev'
+          ? 1
+          : vehicle.kind === 'phev' && vehicle.phev
+            ? resolvePhevElectricShare(vehicle.phev)
+            : 0,
+    }));
+  });
+}
+
+/**
+ * New extra candidate, starting from the primary vehicle of the same powertrain
+ */
+export function createExtraVehicle(
+  inputs: VehicleInputs,
+  kind: Exclude<VehicleKind, 'phev'>
+): VehicleConfig {
+  const nextNumber =
+    inputs.extraVehicles.reduce((max, vehicle) => {
+      const match = /^extra-(\d+)$/.exec(vehicle.id);
+      return match ? Math.max(max, parseInt(match[1], 10)) : max;
+    }, 0) + 1;
+  const sameKindCount = inputs.extraVehicles.filter((vehicle) => vehicle.kind === kind).length;
+
+  return {
+    id: `extra-${nextNumber}`,
+    name: kind === 'ev' ? `EV ${sameKindCount + 2}` : `Gas ${sameKindCount + 2}`,
+    kind,
+    efficiency: kind === 'ev' ? inputs.evEfficiency : inputs.gasEfficiency,
+    gasVehicleFuel: kind === 'ev' ? 'gasoline' : inputs.gasVehicleFuel,
+    e85Efficiency: kind === 'ev' ? 0 : inputs.e85Efficiency,
+    ownership: { ...(kind === 'ev' ? inputs.evOwnership : inputs.gasOwnership) },
+    aging: { ...(kind === 'ev' ? inputs.evAging : inputs.gasAging) },
+  };
+}
+
+/**
+ * Write ownership costs back to wherever the vehicle's inputs live
+ */
+export function updateVehicleOwnership(
+  inputs: CalculatorInputs,
+  vehicleId: string,
+  ownership: OwnershipCosts
+): CalculatorInputs {
+  switch (vehicleId) {
+    case PRIMARY_VEHICLE_IDS.ev:
+      return { ...inputs, evOwnership: ownership };
+    case PRIMARY_VEHICLE_IDS.gas:
+      return { ...inputs, gasOwnership: ownership };
+    case PRIMARY_VEHICLE_IDS.phev:
+      return { ...inputs, phevOwnership: ownership };
+    default:
+      return {
+        ...inputs,
+        extraVehicles: inputs.extraVehicles.map((vehicle) =>
+          vehicle.id === vehicleId ? { ...vehicle, ownership } : vehicle
+        ),
+      };
+  }
+}
+
+/**
+ * Write aging settings back to wherever the vehicle's inputs live
+ */
+export function updateVehicleAging(
+  inputs: CalculatorInputs,
+  vehicleId: string,
+  aging: VehicleAging
+): CalculatorInputs {
+  switch (vehicleId) {
+    case PRIMARY_VEHICLE_IDS.ev:
+      return { ...inputs, evAging: aging };
+    case PRIMARY_VEHICLE_IDS.gas:
+      return { ...inputs, gasAging: aging };
+    case PRIMARY_VEHICLE_IDS.phev:
+      return { ...inputs, phevAging: aging };
+    default:
+      return {
+        ...inputs,
+        extraVehicles: inputs.extraVehicles.map((vehicle) =>
+          vehicle.id === vehicleId ? { ...vehicle, aging } : vehicle
+        ),
+      };
+  }
+}
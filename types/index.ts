@@ -1,29 +1,337 @@
 export type UsageScale = 'daily' | 'weekly' | 'monthly' | 'yearly';
 
-export type CostOptionKey = 'evHome' | 'evFast' | 'gasRegular' | 'gasPremium';
+export type UnitSystem = 'imperial' | 'metric';
+
+export type CurrencyCode = 'USD' | 'CAD' | 'EUR' | 'GBP' | 'AUD' | 'NZD' | 'CHF';
+
+export type GasFuelOptionKey = 'gasRegular' | 'gasMidgrade' | 'gasPremium' | 'diesel' | 'e85';
+
+export type EnergySource = 'evHome' | 'evFast' | 'evMix' | 'phev' | GasFuelOptionKey;
+
+// Primary vehicles use their energy source as the key; extra vehicles use `${vehicleId}:${energy}`
+export type CostOptionKey = string;
+
+export type VehicleKind = 'ev' | 'gas' | 'phev';
+
+export type GasVehicleFuel = 'gasoline' | 'diesel' | 'flexFuel';
+
+export type FinancingType = 'cash' | 'loan' | 'lease';
+
+export interface OwnershipCosts {
+  purchasePrice: number; // $
+  incentives: number; // $ of rebates and tax credits
+  resaleValue: number; // $ at end of ownership
+  ownershipYears: number; // years
+  insurance: number; // $/year
+  maintenance: number; // $/mile
+  registration: number; // $/year
+  financing: FinancingType;
+  downPayment: number; // $
+  loanApr: number; // % per year
+  loanTermMonths: number; // months
+  leaseTermMonths: number; // months
+  leaseMoneyFactor: number; // lease rate, APR ≈ money factor × 2400
+  leaseResidual: number; // $ residual value set in the lease
+  leaseDueAtSigning: number; // $ paid up front, reduces the capitalized cost
+  leaseMileageAllowance: number; // miles/year
+  leaseOverageFee: number; // $/mile over the allowance
+}
+
+export type OwnershipCostField = Exclude<keyof OwnershipCosts, 'financing'>;
+
+export type BatteryReplacementTrigger = 'year' | 'mileage';
+
+export interface VehicleAging {
+  efficiencyDrift: number; // % of rated mi/kWh or mpg lost per year
+  capacityLoss: number; // % of battery capacity lost per year, plug-ins only
+  batteryReplacement: boolean; // plug-ins only
+  batteryReplacementCost: number; // $
+  replacementTrigger: BatteryReplacementTrigger;
+  replacementYear: number; // year of ownership, 1 for the first year
+  replacementMileage: number; // miles on the odometer
+}
+
+export type VehicleAgingField = Exclude<
+  keyof VehicleAging,
+  'batteryReplacement' | 'replacementTrigger'
+>;
+
+export interface AgingAdjustment {
+  fuelFactor: number; // energy cost relative to year 1
+  extraCost: number; // $ of one-off costs in the year, such as a battery replacement
+}
+
+export interface ChargingMix {
+  home: number; // % of charging energy
+  workplace: number; // % of charging energy
+  publicLevel2: number; // % of charging energy
+  dcFast: number; // % of charging energy
+}
+
+export type HomeRatePlan = 'flat' | 'tou' | 'tiered';
+
+export type TouPeriod = 'peak' | 'offPeak' | 'superOffPeak';
+
+export type TouRates = Record<TouPeriod, number>; // $/kWh
+
+export interface TouTariff {
+  summerRates: TouRates;
+  winterRates: TouRates;
+  summerMonths: number[]; // 1-12
+  weekdaySchedule: TouPeriod[]; // 24 hourly entries
+  weekendSchedule: TouPeriod[]; // 24 hourly entries
+  chargingStartHour: number; // 0-23
+  chargingEndHour: number; // 0-23, may wrap past midnight
+  chargerPowerKw: number; // kW
+}
+
+export interface RateTier {
+  upToKwh: number | null; // monthly kWh ceiling, null for the last tier
+  rate: number; // $/kWh
+}
+
+export interface TieredTariff {
+  tiers: RateTier[];
+  householdKwh: number; // kWh/month without the EV
+  fixedMonthlyCharge: number; // $/month
+  evPlanMonthlyFee: number; // $/month
+}
+
+export type ChargerLevel = 'level1' | 'level2' | 'dcFast';
+
+export type ChargingLosses = Record<ChargerLevel, number>; // % of metered energy lost before the battery
+
+export interface ProjectionSettings {
+  years: number; // 1-15
+  gasEscalation: number; // % per year
+  electricityEscalation: number; // % per year
+  discountRate: number; // % per year, 0 for no discounting
+}
+
+export type UncertaintyDistribution = 'uniform' | 'triangular' | 'normal';
+
+export interface UncertaintySettings {
+  enabled: boolean;
+  distribution: UncertaintyDistribution;
+  gasPriceRange: number; // ± % around the entered fuel prices
+  electricityPriceRange: number; // ± % around the entered electricity prices
+  efficiencyRange: number; // ± % around the rated (or seasonal) efficiencies
+  distanceRange: number; // ± % around the entered daily distance
+  evOption: CostOptionKey; // EV option tested against the best gas option
+}
+
+export type SolarExportMode = 'netMetering' | 'netBilling';
+
+export interface SolarSettings {
+  enabled: boolean;
+  systemSizeKw: number; // kW DC
+  householdSelfUse: number; // % of production the rest of the home uses first
+  chargingOverlap: number; // % of home charging done while the panels produce
+  exportMode: SolarExportMode;
+  exportRate: number; // $/kWh credited for exports under net billing
+}
+
+export type VehicleCondition = 'new' | 'used';
+
+export type TaxFilingStatus = 'single' | 'headOfHousehold' | 'joint';
+
+export interface IncentiveVehicle {
+  year?: string;
+  make?: string;
+  model?: string;
+}
+
+export interface IncentiveSettings {
+  enabled: boolean;
+  state: string | null; // two-letter state or province code, set by the price lookup
+  utility: string | null; // utility id from the incentive dataset
+  condition: VehicleCondition;
+  filingStatus: TaxFilingStatus;
+  householdIncome: number | null; // $/year, null when not given
+  purchaseDate: string | null; // YYYY-MM-DD, null for today
+  vehicle: IncentiveVehicle | null; // EV picked in the fuel economy lookup
+}
+
+export type ChargerAmortization = 'years' | 'projection';
+
+export interface HomeChargerSettings {
+  enabled: boolean;
+  hardwareCost: number; // $ for the Level 2 charger
+  installationCost: number; // $ for the electrician and permit
+  panelUpgradeCost: number; // $, 0 when the panel has room
+  rebates: number; // $ from rebates not matched in the incentives section
+  amortization: ChargerAmortization;
+  amortizationYears: number; // used when amortization is 'years'
+}
+
+export type FastChargingPricing = 'perKwh' | 'perMinute';
+
+export interface PowerTier {
+  maxKw: number; // highest charging power billed at this tier
+  rate: number; // $/minute
+}
+
+export interface FastChargingTariff {
+  pricing: FastChargingPricing;
+  powerTiers: PowerTier[]; // per-minute rates, lowest power first
+  sessionFee: number; // $ per session
+  idleFee: number; // $/minute left plugged in after charging
+  idleMinutes: number; // minutes per session
+  membershipDiscount: number; // % off energy or minute charges
+  batteryKwh: number; // usable battery capacity
+  vehiclePeakKw: number; // most the vehicle accepts
+  stationKw: number; // most the station delivers
+  startSoc: number; // % state of charge on arrival
+  endSoc: number; // % state of charge on departure
+}
+
+export interface HouseholdVehicle {
+  id: string;
+  name: string;
+  annualDistance: number; // miles a year
+  current: CostOptionKey; // how the vehicle is powered today
+  replacement: CostOptionKey | null; // option it is replaced with, or null to keep it
+}
+
+export interface RoadTripSettings {
+  distance: number; // miles, one way
+  batteryKwh: number | null; // usable capacity; null uses the fast-charging battery
+  departureSoc: number; // % state of charge leaving home
+  arrivalSoc: number; // % lowest charge on reaching a charger or the destination
+  chargeToSoc: number; // % charged to at each stop
+  stationKw: number; // fast charger power along the route
+  tankGallons: number; // gas vehicle tank size
+  tripsPerYear: number;
+}
+
+export interface ChargingMembership {
+  monthlyFee: number; // $/month
+  memberRate: number; // $/kWh for members, in place of the pay-as-you-go rate
+}
+
+export type PhevUtilityMode = 'epa' | 'custom';
+
+export interface PhevSettings {
+  enabled: boolean;
+  electricEfficiency: number; // mi/kWh in charge-depleting mode
+  gasEfficiency: number; // mpg in charge-sustaining mode
+  gasFuel: GasFuelOptionKey; // pump grade burned in charge-sustaining mode
+  vehicle: IncentiveVehicle | null; // PHEV picked in the fuel economy lookup
+  electricRange: number; // miles
+  utilityMode: PhevUtilityMode;
+  electricShare: number; // % of miles on electricity when utilityMode is 'custom'
+}
+
+export interface VehicleConfig {
+  id: string;
+  name: string;
+  kind: VehicleKind;
+  efficiency: number; // mi/kWh for EVs, mpg for gas vehicles; PHEVs use phev
+  gasVehicleFuel: GasVehicleFuel; // gas vehicles only
+  e85Efficiency: number; // mpg on E85, flex-fuel gas vehicles only
+  phev?: PhevSettings; // PHEVs only
+  model?: IncentiveVehicle | null; // picked in the fuel economy lookup, for incentive rules
+  ownership: OwnershipCosts;
+  aging: VehicleAging;
+}
+
+export interface CostOption {
+  key: CostOptionKey;
+  label: string;
+  vehicle: VehicleConfig;
+  energy: EnergySource;
+  electricShare: number; // share of miles on electricity, 0-1
+}
 
 export interface CalculatorInputs {
   evEfficiency: number; // mi/kWh
-  gasEfficiency: number; // mpg
+  gasEfficiency: number; // mpg on gasoline, or on diesel for diesel vehicles
+  gasVehicleFuel: GasVehicleFuel;
+  e85Efficiency: number; // mpg on E85 for flex-fuel vehicles
   regularGasPrice: number; // $/gallon
+  midgradeGasPrice: number; // $/gallon
   premiumGasPrice: number; // $/gallon
+  dieselPrice: number; // $/gallon
+  e85Price: number; // $/gallon
   homeElectricityPrice: number; // $/kWh
+  homeRatePlan: HomeRatePlan;
+  touTariff: TouTariff;
+  tieredTariff: TieredTariff;
+  solar: SolarSettings;
   fastChargingPrice: number; // $/kWh
+  fastChargingTariff: FastChargingTariff;
+  chargingMembership: ChargingMembership;
+  roadTrip: RoadTripSettings;
+  household: HouseholdVehicle[];
+  publicChargingPrice: number; // $/kWh (Level 2 public)
+  workplaceChargingPrice: number; // $/kWh (often free)
+  chargingMix: ChargingMix;
+  homeChargerLevel: Exclude<ChargerLevel, 'dcFast'>;
+  chargingLosses: ChargingLosses;
   baseDistance: number; // miles per day
+  climateAdjustment: boolean;
+  climateRegion: string; // State code, or 'US' for the national average
+  phev: PhevSettings;
+  includeOwnershipCosts: boolean;
+  evOwnership: OwnershipCosts;
+  gasOwnership: OwnershipCosts;
+  phevOwnership: OwnershipCosts;
+  includeAging: boolean;
+  evAging: VehicleAging;
+  gasAging: VehicleAging;
+  phevAging: VehicleAging;
+  extraVehicles: VehicleConfig[]; // additional EV and gas candidates
+  projection: ProjectionSettings;
+  uncertainty: UncertaintySettings;
+  incentives: IncentiveSettings;
+  homeCharger: HomeChargerSettings;
+  unitSystem: UnitSystem; // display only; inputs are stored in miles and gallons
+  currency: CurrencyCode; // display only; amounts are never converted between currencies
 }
 
 export interface CostBreakdown {
   costPerMile: number;
   totalCost: number;
+  fuelCostPerMile: number;
   fuelCost: number;
+  depreciationCost: number;
+  insuranceCost: number;
+  maintenanceCost: number;
+  registrationCost: number;
+  financingCost: number;
+  chargerCost: number; // amortized home charger install, home-charged EV options only
 }
 
 export interface ScenarioResult {
   distance: number;
-  evHomeCharging: CostBreakdown;
-  evFastCharging: CostBreakdown;
-  gasRegular: CostBreakdown;
-  gasPremium: CostBreakdown;
+  options: Record<CostOptionKey, CostBreakdown>;
+}
+
+export type CostTotals = Record<CostOptionKey, number>;
+
+export interface ProjectionYear {
+  year: number;
+  annual: CostTotals;
+  cumulative: CostTotals;
+  discountedCumulative: CostTotals;
+}
+
+export interface ProjectionResult {
+  years: ProjectionYear[];
+  total: CostTotals;
+  npv: CostTotals;
+}
+
+export interface CostPercentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface UncertaintyResult {
+  samples: number;
+  options: Record<CostOptionKey, CostPercentiles>; // yearly total cost
+  evCheaperProbability: number | null; // 0-1, null without both an EV and a gas vehicle
 }
 
 export interface CalculationResults {
@@ -32,13 +340,13 @@ export interface CalculationResults {
   weekly: ScenarioResult;
   monthly: ScenarioResult;
   yearly: ScenarioResult;
+  options: CostOption[];
+  projection: ProjectionResult;
+  aging: Record<CostOptionKey, AgingAdjustment[]> | null; // by year, index 0 for year 1
+  uncertainty: UncertaintyResult | null;
 }
 
 export interface ChartDataPoint {
   scenario: string;
-  evHome: number;
-  evFast: number;
-  gasRegular: number;
-  gasPremium: number;
+  costs: CostTotals;
 }
-